@@ -45,6 +45,7 @@ export {
 
 export {
   parseModelAction,
+  parseModelActions,
   executeModelAction as tryExecuteAction,
   type ModelAction
 } from './services/modelActions';
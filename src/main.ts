@@ -5,7 +5,10 @@
  * This is the main file that VS Code loads when your extension starts up.
  * It's responsible for:
  * - Registering the sidebar panel (webview provider)
- * - Setting up commands that users can run
+ * - Registering the inline (ghost text) completion provider
+ * - Registering the "Fix with AI" quick fix for problems in the editor
+ * - Setting up commands that users can run (including the editor
+ *   context-menu commands)
  * - Managing the extension lifecycle (startup and shutdown)
  * 
  * Think of this as the "main function" of your VS Code extension.
@@ -13,6 +16,16 @@
 
 import * as vscode from 'vscode';
 import { CopilotWebviewProvider } from './ui/webviewProvider';
+import { watchConfiguration } from './services/configService';
+import { registerProposalContentProvider } from './services/diffPreview';
+import { ActionJournal } from './services/actionJournal';
+import { ChatSessionStore } from './services/chatSessions';
+import { PromptLibrary } from './services/customPrompts';
+import { ProjectInstructions } from './services/projectInstructions';
+import { WorkspaceIndex } from './services/workspaceIndex';
+import { JarnoxInlineCompletionProvider } from './ui/inlineCompletionProvider';
+import { registerEditorCommands } from './ui/editorCommands';
+import { JarnoxCodeActionProvider } from './ui/codeActionProvider';
 
 /**
  * EXTENSION ACTIVATION
@@ -29,8 +42,43 @@ import { CopilotWebviewProvider } from './ui/webviewProvider';
 export function activate(context: vscode.ExtensionContext): void {
   console.log('JarNox Command Copilot extension is starting up...');
   
+  // Create the journal of copilot changes (kept per workspace) and
+  // refresh the sidebar history whenever it changes
+  const journal = new ActionJournal(context.workspaceState, () => {
+    webviewProvider.refreshHistory();
+  });
+  
+  // Chat sessions are kept per workspace too, so they survive restarts
+  const chatSessions = new ChatSessionStore(context.workspaceState, () => {
+    webviewProvider.refreshSessions();
+  });
+  
+  // Prompt templates from .jarnox/prompts become slash commands in the sidebar
+  const promptLibrary = new PromptLibrary(() => {
+    webviewProvider.refreshPromptTemplates();
+  });
+  
+  // The team's conventions from .jarnox/instructions.md go into every system prompt
+  const projectInstructions = new ProjectInstructions(() => {
+    webviewProvider.refreshProjectInstructions();
+  });
+  
+  // Searchable index of the workspace's code for @workspace prompts
+  // (built on first use, then kept up to date by its file watcher)
+  const workspaceIndex = new WorkspaceIndex();
+  
   // Create the webview provider (this manages the sidebar UI)
-  const webviewProvider = new CopilotWebviewProvider(context);
+  const webviewProvider = new CopilotWebviewProvider(
+    context,
+    journal,
+    chatSessions,
+    promptLibrary,
+    projectInstructions,
+    workspaceIndex
+  );
+  const promptTemplateWatcher = promptLibrary.watch();
+  const instructionsWatcher = projectInstructions.watch();
+  const workspaceIndexWatcher = workspaceIndex.watch();
   
   // Register the webview provider with VS Code
   // This tells VS Code "when the user opens the sidebar panel, use this provider"
@@ -39,6 +87,21 @@ export function activate(context: vscode.ExtensionContext): void {
     webviewProvider
   );
   
+  // Offer ghost-text completions in every file; the provider checks
+  // jarnox.inlineCompletions.enabled and the language list itself
+  const inlineCompletionProvider = new JarnoxInlineCompletionProvider();
+  const inlineCompletionRegistration = vscode.languages.registerInlineCompletionItemProvider(
+    { pattern: '**' },
+    inlineCompletionProvider
+  );
+  
+  // Offer "JarNox: Fix with AI" in the lightbulb menu of every problem
+  const codeActionRegistration = vscode.languages.registerCodeActionsProvider(
+    { pattern: '**' },
+    new JarnoxCodeActionProvider(),
+    { providedCodeActionKinds: JarnoxCodeActionProvider.providedCodeActionKinds }
+  );
+  
   // Register a command that users can run from the Command Palette
   // Command Palette is opened with Ctrl+Shift+P (or Cmd+Shift+P on Mac)
   const showPanelCommand = vscode.commands.registerCommand(
@@ -57,11 +120,66 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   );
   
+  // Revert the most recent copilot change
+  const undoLastActionCommand = vscode.commands.registerCommand(
+    'jarnox.undoLastAction',
+    () => journal.undoLast()
+  );
+  
+  // Pick a saved chat session and continue it in the sidebar
+  const resumeChatSessionCommand = vscode.commands.registerCommand(
+    'jarnox.resumeChatSession',
+    async () => {
+      if (await chatSessions.pickAndResume()) {
+        await vscode.commands.executeCommand(`${CopilotWebviewProvider.VIEW_ID}.focus`);
+      }
+    }
+  );
+  
+  // Throw the workspace index away and build it again now
+  const rebuildWorkspaceIndexCommand = vscode.commands.registerCommand(
+    'jarnox.rebuildWorkspaceIndex',
+    async () => {
+      workspaceIndex.invalidate();
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'JarNox: indexing the workspace...' },
+        () => workspaceIndex.ensureBuilt()
+      );
+      vscode.window.showInformationMessage(`JarNox: workspace index rebuilt (${workspaceIndex.chunkCount} chunks).`);
+    }
+  );
+  
+  // Explain / refactor / document / test / fix commands for the editor
+  // context menu and keybindings
+  const editorCommands = registerEditorCommands(journal, projectInstructions);
+  
+  // Re-read the jarnox.* settings whenever they change, let the sidebar
+  // refresh its profile list and default model, and forget completions
+  // that may have come from a different model
+  const configurationWatcher = watchConfiguration(() => {
+    webviewProvider.refreshConfiguration();
+    inlineCompletionProvider.clearCache();
+  });
+  
+  // Serve the in-memory "proposed content" documents shown in diff previews
+  const proposalProvider = registerProposalContentProvider();
+  
   // Register all our disposables with the extension context
   // This ensures VS Code properly cleans up when the extension is disabled
   context.subscriptions.push(
     webviewRegistration,
-    showPanelCommand
+    inlineCompletionRegistration,
+    codeActionRegistration,
+    showPanelCommand,
+    undoLastActionCommand,
+    resumeChatSessionCommand,
+    rebuildWorkspaceIndexCommand,
+    ...editorCommands,
+    configurationWatcher,
+    promptTemplateWatcher,
+    instructionsWatcher,
+    workspaceIndexWatcher,
+    proposalProvider
   );
   
   console.log('JarNox Command Copilot extension activated successfully!');
@@ -0,0 +1,259 @@
+/**
+ * ACTION JOURNAL MODULE
+ * =====================
+ *
+ * Keeps a history of everything the copilot changed in this workspace,
+ * together with snapshots of what was there before, so any change can be
+ * reverted later - even after VS Code restarts.
+ *
+ * How it works:
+ * 1. After a change is applied, its snapshots are recorded as one entry
+ * 2. The journal is stored in the workspace state (per project)
+ * 3. Reverting an entry restores its snapshots, which also removes files
+ *    the copilot created, and marks the entry as reverted
+ *
+ * Only the most recent entries are kept to bound the storage used.
+ */
+
+import * as vscode from 'vscode';
+import { restoreSnapshots, type ChangeSnapshot } from './changeSnapshots';
+
+/** workspaceState key the journal is stored under */
+const JOURNAL_KEY = 'jarnox.actionJournal';
+
+/** Number of entries kept before the oldest are dropped */
+export const MAX_JOURNAL_ENTRIES = 30;
+
+/**
+ * STORED SNAPSHOT
+ * ===============
+ *
+ * A ChangeSnapshot in a JSON-friendly form (URIs as strings, and null
+ * instead of undefined for "the file did not exist").
+ */
+export type StoredSnapshot =
+  | { kind: 'file'; uri: string; previousContent: string | null }
+  | { kind: 'document'; uri: string; previousText: string; wasDirty?: boolean }
+  | { kind: 'rename'; uri: string; previousUri: string };
+
+/**
+ * JOURNAL ENTRY
+ * =============
+ *
+ * One change made by the copilot.
+ */
+export interface JournalEntry {
+  /** Unique id used by the sidebar to refer to the entry */
+  id: string;
+
+  /** When the change was made (milliseconds since 1970) */
+  timestamp: number;
+
+  /** Short description like 'create_file src/app.ts (12 lines)' */
+  label: string;
+
+  /** State before the change, in the order the changes were made */
+  snapshots: StoredSnapshot[];
+
+  /** True once the entry has been reverted */
+  reverted: boolean;
+}
+
+/**
+ * SNAPSHOT SERIALIZER
+ * ===================
+ *
+ * @param snapshot - Snapshot taken before a change
+ * @returns The same snapshot in a form that can be stored
+ */
+function toStoredSnapshot(snapshot: ChangeSnapshot): StoredSnapshot {
+  switch (snapshot.kind) {
+    case 'file':
+      return { kind: 'file', uri: snapshot.uri.toString(), previousContent: snapshot.previousContent ?? null };
+    case 'document':
+      return { kind: 'document', uri: snapshot.uri.toString(), previousText: snapshot.previousText, wasDirty: snapshot.wasDirty };
+    case 'rename':
+      return { kind: 'rename', uri: snapshot.uri.toString(), previousUri: snapshot.previousUri.toString() };
+  }
+}
+
+/**
+ * SNAPSHOT DESERIALIZER
+ * =====================
+ *
+ * @param stored - Snapshot read from the workspace state
+ * @returns A snapshot that can be restored
+ */
+function fromStoredSnapshot(stored: StoredSnapshot): ChangeSnapshot {
+  const uri = vscode.Uri.parse(stored.uri);
+  switch (stored.kind) {
+    case 'file':
+      return { kind: 'file', uri, previousContent: stored.previousContent ?? undefined };
+    case 'document':
+      // Entries stored before wasDirty existed are restored without saving
+      return { kind: 'document', uri, previousText: stored.previousText, wasDirty: stored.wasDirty ?? true };
+    case 'rename':
+      return { kind: 'rename', uri, previousUri: vscode.Uri.parse(stored.previousUri) };
+  }
+}
+
+/**
+ * ACTION JOURNAL CLASS
+ * ====================
+ *
+ * Records, lists and reverts copilot changes for one workspace.
+ */
+export class ActionJournal {
+
+  /** Counter that keeps entry ids unique within a session */
+  private entryCounter = 0;
+
+  /**
+   * CONSTRUCTOR
+   * ===========
+   *
+   * @param storage - Where to keep the journal (the extension's workspaceState)
+   * @param onChange - Called after an entry is recorded or reverted
+   */
+  constructor(
+    private readonly storage: vscode.Memento,
+    private readonly onChange: () => void = () => {}
+  ) {}
+
+  /**
+   * ENTRY LISTER
+   * ============
+   *
+   * @returns All entries, newest first
+   */
+  public entries(): JournalEntry[] {
+    return this.storage.get<JournalEntry[]>(JOURNAL_KEY, []);
+  }
+
+  /**
+   * CHANGE RECORDER
+   * ===============
+   *
+   * Adds an entry for a change that was just applied. Changes without
+   * snapshots (nothing was modified) are not recorded.
+   *
+   * @param label - What the change was
+   * @param snapshots - State before the change
+   */
+  public async record(label: string, snapshots: ChangeSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    const entry: JournalEntry = {
+      id: `${Date.now().toString(36)}-${++this.entryCounter}`,
+      timestamp: Date.now(),
+      label,
+      snapshots: snapshots.map(toStoredSnapshot),
+      reverted: false
+    };
+
+    const entries = [entry, ...this.entries()].slice(0, MAX_JOURNAL_ENTRIES);
+    await this.storage.update(JOURNAL_KEY, entries);
+    console.log(`Journal: recorded "${label}" (${snapshots.length} snapshot(s))`);
+    this.onChange();
+  }
+
+  /**
+   * LATER CHANGE FINDER
+   * ===================
+   *
+   * Lists files that an entry touched and that newer, still active entries
+   * changed again. Reverting the entry would throw those newer changes away.
+   *
+   * @param id - Entry to check
+   * @returns URIs (as strings) of the affected files
+   */
+  public findLaterChanges(id: string): string[] {
+    const entries = this.entries();
+    const index = entries.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return [];
+    }
+
+    // A rename also touches its old path: reverting moves the file back there
+    const touched = new Set(entries[index].snapshots.flatMap((snapshot) =>
+      snapshot.kind === 'rename' ? [snapshot.uri, snapshot.previousUri] : [snapshot.uri]
+    ));
+    const later = new Set<string>();
+    for (const entry of entries.slice(0, index)) {
+      if (entry.reverted) {
+        continue;
+      }
+      for (const snapshot of entry.snapshots) {
+        const uris = snapshot.kind === 'rename' ? [snapshot.uri, snapshot.previousUri] : [snapshot.uri];
+        uris.filter((uri) => touched.has(uri)).forEach((uri) => later.add(uri));
+      }
+    }
+    return [...later];
+  }
+
+  /**
+   * ENTRY REVERTER
+   * ==============
+   *
+   * Restores the state recorded in an entry. When newer copilot changes
+   * touched the same files, the user is asked first.
+   *
+   * @param id - Entry to revert
+   * @returns true if the entry was reverted
+   */
+  public async revert(id: string): Promise<boolean> {
+    const entry = this.entries().find((candidate) => candidate.id === id);
+    if (!entry || entry.reverted) {
+      vscode.window.showInformationMessage('That change has already been reverted.');
+      return false;
+    }
+
+    const laterChanges = this.findLaterChanges(id);
+    if (laterChanges.length > 0) {
+      const files = laterChanges.map((uri) => vscode.workspace.asRelativePath(vscode.Uri.parse(uri))).join(', ');
+      const choice = await vscode.window.showWarningMessage(
+        `Later JarNox changes to ${files} will be lost if you revert "${entry.label}".`,
+        { modal: true },
+        'Revert Anyway'
+      );
+      if (choice !== 'Revert Anyway') {
+        return false;
+      }
+    }
+
+    const failures = await restoreSnapshots(entry.snapshots.map(fromStoredSnapshot));
+
+    // Re-read the entries: another change may have been recorded meanwhile
+    const entries = this.entries().map((candidate) =>
+      candidate.id === id ? { ...candidate, reverted: true } : candidate
+    );
+    await this.storage.update(JOURNAL_KEY, entries);
+    this.onChange();
+
+    if (failures > 0) {
+      vscode.window.showWarningMessage(
+        `Reverted "${entry.label}", but ${failures} file(s) could not be restored.`
+      );
+    } else {
+      vscode.window.showInformationMessage(`Reverted: ${entry.label}`);
+    }
+    return true;
+  }
+
+  /**
+   * LAST ACTION UNDOER
+   * ==================
+   *
+   * Reverts the newest entry that has not been reverted yet.
+   */
+  public async undoLast(): Promise<void> {
+    const latest = this.entries().find((entry) => !entry.reverted);
+    if (!latest) {
+      vscode.window.showInformationMessage('There are no JarNox changes to undo.');
+      return;
+    }
+    await this.revert(latest.id);
+  }
+}
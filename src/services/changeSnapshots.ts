@@ -0,0 +1,155 @@
+/**
+ * CHANGE SNAPSHOTS MODULE
+ * =======================
+ * 
+ * Before the copilot changes anything, it records what was there before.
+ * These "snapshots" make it possible to put things back when a multi-step
+ * plan fails halfway through.
+ * 
+ * There are three kinds of snapshot:
+ * - file: the content of a file on disk (or the fact that it did not exist)
+ * - document: the text of an open editor document, which may have unsaved
+ *   changes and therefore cannot be restored through the file system; a
+ *   document that had none is saved again after restoring, so the file on
+ *   disk goes back too
+ * - rename: a file that was moved, restored by moving it back
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * SNAPSHOT TYPES
+ * ==============
+ */
+export type ChangeSnapshot =
+  | {
+      kind: 'file';
+      /** File that was changed */
+      uri: vscode.Uri;
+      /** Content before the change, or undefined if the file did not exist */
+      previousContent: string | undefined;
+    }
+  | {
+      kind: 'document';
+      /** Document that was edited */
+      uri: vscode.Uri;
+      /** Full document text before the edit */
+      previousText: string;
+      /** Whether the document had unsaved changes before the edit */
+      wasDirty: boolean;
+    }
+  | {
+      kind: 'rename';
+      /** Where the file is now */
+      uri: vscode.Uri;
+      /** Where the file was before the rename */
+      previousUri: vscode.Uri;
+    };
+
+/**
+ * FILE SNAPSHOT
+ * =============
+ * 
+ * @param uri - File about to be changed
+ * @param previousContent - Its current content (undefined if it does not exist)
+ * @returns A snapshot that restores the file to this state
+ */
+export function fileSnapshot(uri: vscode.Uri, previousContent: string | undefined): ChangeSnapshot {
+  return { kind: 'file', uri, previousContent };
+}
+
+/**
+ * DOCUMENT SNAPSHOT
+ * =================
+ * 
+ * @param document - Document about to be edited
+ * @returns A snapshot that restores the document's current text
+ */
+export function documentSnapshot(document: vscode.TextDocument): ChangeSnapshot {
+  return { kind: 'document', uri: document.uri, previousText: document.getText(), wasDirty: document.isDirty };
+}
+
+/**
+ * RENAME SNAPSHOT
+ * ===============
+ * 
+ * @param previousUri - Where the file was
+ * @param uri - Where the file was moved to
+ * @returns A snapshot that moves the file back
+ */
+export function renameSnapshot(previousUri: vscode.Uri, uri: vscode.Uri): ChangeSnapshot {
+  return { kind: 'rename', uri, previousUri };
+}
+
+/**
+ * SNAPSHOT RESTORER
+ * =================
+ * 
+ * Puts one file or document back the way it was.
+ * Files that did not exist before are deleted.
+ * 
+ * @param snapshot - The state to restore
+ */
+export async function restoreSnapshot(snapshot: ChangeSnapshot): Promise<void> {
+  if (snapshot.kind === 'rename') {
+    const edit = new vscode.WorkspaceEdit();
+    edit.renameFile(snapshot.uri, snapshot.previousUri, { overwrite: false });
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error(`Could not move ${snapshot.uri.toString()} back`);
+    }
+    return;
+  }
+  
+  if (snapshot.kind === 'document') {
+    const document = await vscode.workspace.openTextDocument(snapshot.uri);
+    const fullRange = new vscode.Range(
+      document.positionAt(0),
+      document.positionAt(document.getText().length)
+    );
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(snapshot.uri, fullRange, snapshot.previousText);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error(`Could not restore the text of ${snapshot.uri.toString()}`);
+    }
+    if (!snapshot.wasDirty && !document.isUntitled && !(await document.save())) {
+      throw new Error(`Could not save the restored text of ${snapshot.uri.toString()}`);
+    }
+    return;
+  }
+  
+  if (snapshot.previousContent === undefined) {
+    // The copilot created this file, so restoring means removing it
+    try {
+      await vscode.workspace.fs.delete(snapshot.uri, { useTrash: true });
+    } catch (error) {
+      console.log('File to remove was already gone:', snapshot.uri.toString());
+    }
+    return;
+  }
+  
+  await vscode.workspace.fs.writeFile(snapshot.uri, new TextEncoder().encode(snapshot.previousContent));
+}
+
+/**
+ * SNAPSHOT LIST RESTORER
+ * ======================
+ * 
+ * Restores several snapshots, newest first, so that a file changed twice
+ * ends up in its oldest recorded state. Keeps going when one restore
+ * fails and reports how many could not be restored.
+ * 
+ * @param snapshots - Snapshots in the order the changes were made
+ * @returns Number of snapshots that failed to restore
+ */
+export async function restoreSnapshots(snapshots: ChangeSnapshot[]): Promise<number> {
+  let failures = 0;
+  for (const snapshot of [...snapshots].reverse()) {
+    try {
+      await restoreSnapshot(snapshot);
+    } catch (error) {
+      failures++;
+      console.error('Failed to restore snapshot for', snapshot.uri.toString(), error);
+    }
+  }
+  return failures;
+}
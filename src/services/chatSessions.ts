@@ -0,0 +1,329 @@
+/**
+ * CHAT SESSIONS MODULE
+ * ====================
+ *
+ * Keeps the conversations held in the sidebar. Each session remembers its
+ * messages, so follow-up requests ("now add tests for it") are sent to the
+ * model together with the earlier turns.
+ *
+ * How it works:
+ * 1. Every prompt belongs to the active session (one is created if needed)
+ * 2. After a successful reply, the request and the reply are appended
+ * 3. Sessions and the active session id are stored in the workspace state,
+ *    so the conversation can be resumed after VS Code restarts
+ *
+ * Only the request text is stored; the editor context is collected again
+ * for every new prompt, so old context never goes stale in the history.
+ */
+
+import * as vscode from 'vscode';
+import type { ChatMessage } from './providers';
+
+/** workspaceState key the sessions are stored under */
+const SESSIONS_KEY = 'jarnox.chatSessions';
+
+/** workspaceState key of the session that is currently open */
+const ACTIVE_SESSION_KEY = 'jarnox.activeChatSession';
+
+/** Number of sessions kept before the least recently used are dropped */
+export const MAX_CHAT_SESSIONS = 50;
+
+/** Number of earlier messages sent along with a new request */
+export const MAX_HISTORY_MESSAGES = 20;
+
+/** Title of a session before its first request */
+export const DEFAULT_SESSION_TITLE = 'New chat';
+
+/** Longest title derived from a request */
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * CHAT SESSION
+ * ============
+ *
+ * One conversation with the model.
+ */
+export interface ChatSession {
+  /** Unique id used by the sidebar to refer to the session */
+  id: string;
+
+  /** Name shown in the session list */
+  title: string;
+
+  /** When the session was created (milliseconds since 1970) */
+  createdAt: number;
+
+  /** When the last turn was added or the session was renamed */
+  updatedAt: number;
+
+  /** User requests and model replies, oldest first */
+  messages: ChatMessage[];
+}
+
+/**
+ * SESSION TITLE DERIVER
+ * =====================
+ *
+ * Names a session after its first request.
+ *
+ * @param request - First request of the session
+ * @returns The request's first line, shortened to fit the session list
+ */
+export function deriveSessionTitle(request: string): string {
+  const firstLine = (request || '').trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (!firstLine) {
+    return DEFAULT_SESSION_TITLE;
+  }
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? firstLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd() + '…'
+    : firstLine;
+}
+
+/**
+ * CHAT MESSAGE BUILDER
+ * ====================
+ *
+ * Assembles what is sent to the model: the system prompt, the most recent
+ * earlier turns and the new request. The history is cut so it starts with
+ * a user message, as some chat templates require.
+ *
+ * @param systemPrompt - Instructions for the model
+ * @param history - Earlier messages of the session
+ * @param userMessage - The new request, with its editor context
+ * @param maxHistory - Most earlier messages to include
+ * @returns Messages ready for LLMProvider.chat()
+ */
+export function buildChatMessages(
+  systemPrompt: string,
+  history: ChatMessage[],
+  userMessage: string,
+  maxHistory: number = MAX_HISTORY_MESSAGES
+): ChatMessage[] {
+  const recent = maxHistory > 0 ? history.slice(-maxHistory) : [];
+  while (recent.length > 0 && recent[0].role !== 'user') {
+    recent.shift();
+  }
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...recent,
+    { role: 'user', content: userMessage }
+  ];
+}
+
+/**
+ * CHAT SESSION STORE CLASS
+ * ========================
+ *
+ * Creates, lists, renames and deletes the chat sessions of one workspace.
+ */
+export class ChatSessionStore {
+
+  /** Counter that keeps session ids unique within a session of VS Code */
+  private sessionCounter = 0;
+
+  /**
+   * CONSTRUCTOR
+   * ===========
+   *
+   * @param storage - Where to keep the sessions (the extension's workspaceState)
+   * @param onChange - Called after a session is created, changed, deleted or opened
+   */
+  constructor(
+    private readonly storage: vscode.Memento,
+    private readonly onChange: () => void = () => {}
+  ) {}
+
+  /**
+   * SESSION LISTER
+   * ==============
+   *
+   * @returns All sessions, most recently used first
+   */
+  public sessions(): ChatSession[] {
+    return [...this.storage.get<ChatSession[]>(SESSIONS_KEY, [])]
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * SESSION LOOKUP
+   * ==============
+   *
+   * @param id - Session to find
+   * @returns The session, or undefined if it does not exist
+   */
+  public get(id: string): ChatSession | undefined {
+    return this.sessions().find((session) => session.id === id);
+  }
+
+  /**
+   * ACTIVE SESSION
+   * ==============
+   *
+   * @returns The session that is open in the sidebar, if any
+   */
+  public activeSession(): ChatSession | undefined {
+    const activeId = this.storage.get<string>(ACTIVE_SESSION_KEY);
+    return activeId ? this.get(activeId) : undefined;
+  }
+
+  /**
+   * ACTIVE SESSION GETTER OR CREATOR
+   * ================================
+   *
+   * @returns The open session, or a new one when none is open
+   */
+  public async ensureActiveSession(): Promise<ChatSession> {
+    return this.activeSession() ?? this.create();
+  }
+
+  /**
+   * SESSION CREATOR
+   * ===============
+   *
+   * Starts an empty session and opens it.
+   *
+   * @returns The new session
+   */
+  public async create(): Promise<ChatSession> {
+    const now = Date.now();
+    const session: ChatSession = {
+      id: `${now.toString(36)}-${++this.sessionCounter}`,
+      title: DEFAULT_SESSION_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messages: []
+    };
+
+    await this.save([session, ...this.sessions()].slice(0, MAX_CHAT_SESSIONS));
+    await this.storage.update(ACTIVE_SESSION_KEY, session.id);
+    console.log(`Chat: started session ${session.id}`);
+    this.onChange();
+    return session;
+  }
+
+  /**
+   * SESSION OPENER
+   * ==============
+   *
+   * @param id - Session to open in the sidebar
+   * @returns true if the session exists
+   */
+  public async setActive(id: string): Promise<boolean> {
+    if (!this.get(id)) {
+      return false;
+    }
+    await this.storage.update(ACTIVE_SESSION_KEY, id);
+    this.onChange();
+    return true;
+  }
+
+  /**
+   * TURN RECORDER
+   * =============
+   *
+   * Appends a request and the model's reply to a session. A session still
+   * called "New chat" is named after its first request.
+   *
+   * @param id - Session the turn belongs to
+   * @param request - What the user asked (without editor context)
+   * @param reply - What the model answered
+   */
+  public async appendTurn(id: string, request: string, reply: string): Promise<void> {
+    const sessions = this.sessions();
+    const session = sessions.find((candidate) => candidate.id === id);
+    if (!session) {
+      return;
+    }
+
+    session.messages = [
+      ...session.messages,
+      { role: 'user', content: request },
+      { role: 'assistant', content: reply }
+    ];
+    if (session.title === DEFAULT_SESSION_TITLE) {
+      session.title = deriveSessionTitle(request);
+    }
+    session.updatedAt = Date.now();
+
+    await this.save(sessions);
+    this.onChange();
+  }
+
+  /**
+   * SESSION RENAMER
+   * ===============
+   *
+   * @param id - Session to rename
+   * @param title - New name (blank names are ignored)
+   */
+  public async rename(id: string, title: string): Promise<void> {
+    const trimmedTitle = title.trim();
+    const sessions = this.sessions();
+    const session = sessions.find((candidate) => candidate.id === id);
+    if (!session || !trimmedTitle) {
+      return;
+    }
+
+    session.title = trimmedTitle;
+    session.updatedAt = Date.now();
+    await this.save(sessions);
+    this.onChange();
+  }
+
+  /**
+   * SESSION DELETER
+   * ===============
+   *
+   * Removes a session. When it was open, the most recently used remaining
+   * session is opened instead.
+   *
+   * @param id - Session to delete
+   */
+  public async delete(id: string): Promise<void> {
+    const remaining = this.sessions().filter((session) => session.id !== id);
+    await this.save(remaining);
+    if (this.storage.get<string>(ACTIVE_SESSION_KEY) === id) {
+      await this.storage.update(ACTIVE_SESSION_KEY, remaining[0]?.id);
+    }
+    console.log(`Chat: deleted session ${id}`);
+    this.onChange();
+  }
+
+  /**
+   * SESSION PICKER
+   * ==============
+   *
+   * Lets the user pick a saved session from a quick pick and opens it.
+   *
+   * @returns true if a session was opened
+   */
+  public async pickAndResume(): Promise<boolean> {
+    const sessions = this.sessions();
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage('There are no saved JarNox chat sessions yet.');
+      return false;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      sessions.map((session) => ({
+        label: session.title,
+        description: `${session.messages.length / 2} turn(s)`,
+        detail: `Last used ${new Date(session.updatedAt).toLocaleString()}`,
+        id: session.id
+      })),
+      { placeHolder: 'Choose a chat session to resume' }
+    );
+    return picked ? this.setActive(picked.id) : false;
+  }
+
+  /**
+   * SESSION SAVER
+   * =============
+   *
+   * @param sessions - Sessions to store
+   */
+  private async save(sessions: ChatSession[]): Promise<void> {
+    await this.storage.update(SESSIONS_KEY, sessions);
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * CONFIGURATION SERVICE
+ * =====================
+ * 
+ * This module reads the extension's settings from VS Code so that nobody
+ * has to edit source code to point the copilot at a different server.
+ * 
+ * Settings live under the `jarnox.*` section (File → Preferences → Settings):
+ * - jarnox.provider, jarnox.baseUrl, jarnox.apiKey, jarnox.model, jarnox.temperature, jarnox.maxTokens, jarnox.stream,
+ *   jarnox.requestTimeout
+ * - jarnox.profiles: named overrides such as "local", "team-gpu" or "offline"
+ * - jarnox.activeProfile: which profile is currently in use
+ * 
+ * Profiles can be defined in user settings or per workspace, and the active
+ * profile is switched from the sidebar. The resolved configuration is cached
+ * and thrown away whenever VS Code reports a settings change, so every new
+ * request sees the latest values without reloading the window.
+ */
+
+import * as vscode from 'vscode';
+import { PROVIDER_IDS, type ProviderId } from './providers/types';
+
+/**
+ * AI MODEL CONFIGURATION
+ * ======================
+ * 
+ * These are the settings for how we talk to the AI model.
+ * You can change these to use different models or adjust how the AI behaves.
+ */
+export interface LLMConfig {
+  /** Which kind of server to talk to (Ollama, OpenAI-compatible, llama.cpp) */
+  provider: ProviderId;
+  
+  /** The base URL where the model server is running */
+  baseUrl: string;
+  
+  /** API key sent as a Bearer token (OpenAI-compatible and llama.cpp servers only) */
+  apiKey: string;
+
+  /** The name of the AI model to use (like 'llama3.2:latest') */
+  modelName: string;
+
+  /** How creative the AI should be (0.0 = very predictable, 1.0 = very creative) */
+  temperature: number;
+
+  /** Maximum number of tokens (words/pieces) the AI can generate */
+  maxTokens: number;
+
+  /** Whether to get the response all at once (false) or piece by piece (true) */
+  stream: boolean;
+  
+  /** Seconds to wait for the server before giving up (0 = wait forever) */
+  requestTimeout: number;
+}
+
+/**
+ * DEFAULT CONFIGURATION
+ * =====================
+ * 
+ * This is the standard setup that works with a local Ollama installation.
+ * The IP address points to a remote Ollama server - you might want to
+ * change this to 'localhost' if you're running Ollama on your own computer.
+ * 
+ * These values are only used when a setting is missing; the `jarnox.*`
+ * settings declared in package.json use the same defaults.
+ */
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  provider: 'ollama',                     // Ollama's native API
+  baseUrl: 'http://72.60.98.171:11434',  // Remote Ollama server
+  apiKey: '',                             // Not needed for Ollama
+  modelName: 'llama3.2:latest',           // Default model
+  temperature: 0.7,                       // Balanced creativity
+  maxTokens: 100,                         // Keep responses concise
+  stream: true,                           // Show tokens as they are generated
+  requestTimeout: 120                     // Give up after two minutes of silence
+};
+
+/**
+ * PROFILE SETTINGS
+ * ================
+ * 
+ * A profile is a named set of overrides stored in `jarnox.profiles`.
+ * Any field left out falls back to the base `jarnox.*` setting.
+ * The keys match the setting names, so `model` maps to `LLMConfig.modelName`.
+ */
+export interface LLMProfile {
+  provider?: ProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  stream?: boolean;
+  requestTimeout?: number;
+}
+
+/** The settings section every JarNox setting lives under */
+export const CONFIG_SECTION = 'jarnox';
+
+/** Cached result of readLLMConfig(), cleared when settings change */
+let cachedConfig: LLMConfig | undefined;
+
+/**
+ * PROFILE APPLIER
+ * ===============
+ * 
+ * Layers a profile on top of a base configuration. Values with the wrong
+ * type (for example a string temperature typed by hand into settings.json)
+ * are ignored instead of breaking the request.
+ * 
+ * @param base - Configuration built from the base `jarnox.*` settings
+ * @param profile - The profile to apply (or undefined for none)
+ * @returns A new configuration with the profile's overrides applied
+ */
+export function applyProfile(base: LLMConfig, profile?: LLMProfile): LLMConfig {
+  const result = { ...base };
+  if (!profile || typeof profile !== 'object') {
+    return result;
+  }
+
+  if (typeof profile.provider === 'string' && PROVIDER_IDS.includes(profile.provider)) {
+    result.provider = profile.provider;
+  }
+  if (typeof profile.baseUrl === 'string' && profile.baseUrl.trim()) {
+    result.baseUrl = profile.baseUrl.trim();
+  }
+  if (typeof profile.apiKey === 'string') {
+    result.apiKey = profile.apiKey;
+  }
+  if (typeof profile.model === 'string' && profile.model.trim()) {
+    result.modelName = profile.model.trim();
+  }
+  if (typeof profile.temperature === 'number') {
+    result.temperature = profile.temperature;
+  }
+  if (typeof profile.maxTokens === 'number') {
+    result.maxTokens = profile.maxTokens;
+  }
+  if (typeof profile.stream === 'boolean') {
+    result.stream = profile.stream;
+  }
+  if (typeof profile.requestTimeout === 'number' && profile.requestTimeout >= 0) {
+    result.requestTimeout = profile.requestTimeout;
+  }
+
+  return result;
+}
+
+/**
+ * BASE URL NORMALIZER
+ * ===================
+ * 
+ * Removes trailing slashes so that `${baseUrl}/api/generate` never
+ * ends up with a double slash.
+ * 
+ * @param url - URL typed by the user
+ * @returns The URL without trailing slashes
+ */
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * SETTINGS READER
+ * ===============
+ * 
+ * Reads the base settings and the active profile from VS Code and
+ * combines them into a complete LLMConfig.
+ * 
+ * @returns The configuration every AI request should use
+ */
+export function readLLMConfig(): LLMConfig {
+  const settings = vscode.workspace.getConfiguration(CONFIG_SECTION);
+
+  const configuredProvider = settings.get<string>('provider', DEFAULT_LLM_CONFIG.provider) as ProviderId;
+  
+  const base: LLMConfig = {
+    provider: PROVIDER_IDS.includes(configuredProvider) ? configuredProvider : DEFAULT_LLM_CONFIG.provider,
+    baseUrl: settings.get<string>('baseUrl', DEFAULT_LLM_CONFIG.baseUrl),
+    apiKey: settings.get<string>('apiKey', DEFAULT_LLM_CONFIG.apiKey),
+    modelName: settings.get<string>('model', DEFAULT_LLM_CONFIG.modelName),
+    temperature: settings.get<number>('temperature', DEFAULT_LLM_CONFIG.temperature),
+    maxTokens: settings.get<number>('maxTokens', DEFAULT_LLM_CONFIG.maxTokens),
+    stream: settings.get<boolean>('stream', DEFAULT_LLM_CONFIG.stream),
+    requestTimeout: settings.get<number>('requestTimeout', DEFAULT_LLM_CONFIG.requestTimeout)
+  };
+
+  const profiles = settings.get<Record<string, LLMProfile>>('profiles', {});
+  const activeProfile = settings.get<string>('activeProfile', '');
+
+  const resolved = applyProfile(base, activeProfile ? profiles[activeProfile] : undefined);
+  resolved.baseUrl = normalizeBaseUrl(resolved.baseUrl) || DEFAULT_LLM_CONFIG.baseUrl;
+
+  return resolved;
+}
+
+/**
+ * SINGLE SETTING READER
+ * =====================
+ * 
+ * Reads one `jarnox.*` setting that is not part of LLMConfig
+ * (for example UI behaviour toggles).
+ * 
+ * @param key - Setting name without the `jarnox.` prefix
+ * @param fallback - Value to use when the setting is missing
+ * @returns The setting value
+ */
+export function readSetting<T>(key: string, fallback: T): T {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION).get<T>(key, fallback);
+}
+
+/**
+ * CURRENT CONFIGURATION
+ * =====================
+ * 
+ * Returns the configuration to use right now. The value is cached until
+ * the user changes a `jarnox.*` setting.
+ * 
+ * @returns The active LLM configuration
+ */
+export function getLLMConfig(): LLMConfig {
+  if (!cachedConfig) {
+    cachedConfig = readLLMConfig();
+  }
+  return cachedConfig;
+}
+
+/**
+ * SETTINGS CHANGE WATCHER
+ * =======================
+ * 
+ * Listens for settings changes and drops the cached configuration so the
+ * next request re-reads it. Register the returned disposable with the
+ * extension context.
+ * 
+ * @param onChange - Optional callback fired after a `jarnox.*` change
+ * @returns Disposable that stops listening
+ */
+export function watchConfiguration(onChange?: () => void): vscode.Disposable {
+  return vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration(CONFIG_SECTION)) {
+      console.log('JarNox settings changed, reloading configuration');
+      cachedConfig = undefined;
+      onChange?.();
+    }
+  });
+}
+
+/**
+ * PROFILE LISTER
+ * ==============
+ * 
+ * @returns The names of every profile defined in user or workspace settings
+ */
+export function listProfiles(): string[] {
+  const settings = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const profiles = settings.get<Record<string, LLMProfile>>('profiles', {});
+  return Object.keys(profiles || {}).sort();
+}
+
+/**
+ * ACTIVE PROFILE NAME
+ * ===================
+ * 
+ * @returns The name of the active profile, or '' when only base settings are used
+ */
+export function getActiveProfileName(): string {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('activeProfile', '');
+}
+
+/**
+ * PROFILE SWITCHER
+ * ================
+ * 
+ * Makes a profile active. When a folder is open the choice is stored in
+ * the workspace settings, so each project can remember its own profile.
+ * 
+ * @param profileName - Profile to activate ('' to go back to base settings)
+ */
+export async function setActiveProfile(profileName: string): Promise<void> {
+  const target = vscode.workspace.workspaceFolders?.length
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+
+  await vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .update('activeProfile', profileName || undefined, target);
+}
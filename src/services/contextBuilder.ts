@@ -0,0 +1,463 @@
+/**
+ * CONTEXT BUILDER MODULE
+ * ======================
+ *
+ * Collects information about what the user is working on, so the model
+ * sees more than the bare request:
+ * - the active file's language and path
+ * - the selected text
+ * - a window of lines around each cursor
+ *
+ * Prompts can also ask for more context with mentions:
+ * - @file            → the whole active file
+ * - @file:src/a.ts   → the whole of another workspace file
+ * - @selection       → the selection, even when automatic context is off
+ * - @workspace       → a list of the files in the workspace, plus the
+ *                      code most relevant to the request (found with the
+ *                      workspace index, see workspaceIndex.ts)
+ *
+ * In a multi-root workspace the names of the open folders are always
+ * included, so file actions can say which folder a path is in.
+ *
+ * Settings: jarnox.includeEditorContext turns the automatic context on or
+ * off, and jarnox.contextLines sets how many lines around each cursor are
+ * included.
+ */
+
+import * as vscode from 'vscode';
+import { readSetting } from './configService';
+import { checkActionTarget, loadFileReadPolicy } from './fileActionPolicy';
+import { isCancellationError } from './llmService';
+import { formatCitation, type WorkspaceIndex } from './workspaceIndex';
+import { describeWorkspaceFolders, findFolderIndex, splitFolderPrefix } from '../utils/folderPaths';
+
+/** Longest file (in characters) included through @file */
+const MAX_FILE_CONTEXT_CHARS = 12000;
+
+/** Most files listed for @workspace */
+const MAX_WORKSPACE_FILES = 200;
+
+/** Folders never listed for @workspace */
+const WORKSPACE_EXCLUDE = '**/{node_modules,.git,out,dist,build}/**';
+
+/** Asks the model to say which workspace code its answer relies on */
+export const CITATION_INSTRUCTIONS =
+  'The context includes code from other workspace files (sections titled "Workspace code path:lines"). ' +
+  'Use the functions and types you see there instead of inventing new ones, and name the files you relied on as path:line ' +
+  'in your explanation (never inside code or JSON values).';
+
+/**
+ * MENTION TYPES
+ * =============
+ */
+export type MentionKind = 'file' | 'selection' | 'workspace';
+
+/**
+ * PARSED MENTIONS
+ * ===============
+ *
+ * What parseMentions() found in a prompt.
+ */
+export interface ParsedMentions {
+  /** The request with each mention replaced by plain words */
+  request: string;
+
+  /** Which mentions appeared (@file:path is only listed in filePaths) */
+  kinds: Set<MentionKind>;
+
+  /** Paths given as @file:path, in order */
+  filePaths: string[];
+}
+
+/**
+ * CONTEXT SECTION
+ * ===============
+ *
+ * One titled block of context, like "Selection (lines 3-5)".
+ */
+export interface ContextSection {
+  title: string;
+  body: string;
+}
+
+/**
+ * PROMPT CONTEXT
+ * ==============
+ *
+ * Everything collectPromptContext() gathered for one prompt.
+ */
+export interface PromptContext {
+  /** The user's request with mentions resolved */
+  request: string;
+
+  /** Context blocks, in the order they are sent */
+  sections: ContextSection[];
+
+  /** The sections formatted for the prompt ('' when there are none) */
+  text: string;
+
+  /** Rough number of tokens the context adds */
+  tokenEstimate: number;
+
+  /** Workspace code included for @workspace, as path:start-end */
+  sources: string[];
+}
+
+/**
+ * MENTION CONTEXT
+ * ===============
+ *
+ * The part of the context that does not depend on the editor: files
+ * named with @file:path and the @workspace sections. It is the same for
+ * every cursor, so per-cursor requests collect it once.
+ */
+export interface MentionContext {
+  /** Sections for @file:path and @workspace, in order */
+  sections: ContextSection[];
+
+  /** Workspace code included for @workspace, as path:start-end */
+  sources: string[];
+}
+
+/**
+ * RETRIEVAL OPTIONS
+ * =================
+ *
+ * How @workspace finds relevant code.
+ */
+export interface RetrievalOptions {
+  /** Index searched for code matching the request */
+  index: WorkspaceIndex;
+
+  /** Re-rank with embeddings (off for the live estimate while typing) */
+  useEmbeddings?: boolean;
+
+  /** Stops waiting for the index and aborts the embedding requests */
+  signal?: AbortSignal;
+}
+
+/** Matches @file, @file:path, @selection and @workspace */
+const MENTION_PATTERN = /(^|\s)@(file|selection|workspace)(?::([^\s,;]+))?(?=$|[\s,;:.!?)])/g;
+
+/**
+ * MENTION PARSER
+ * ==============
+ *
+ * Finds @mentions in a prompt and replaces them with words the model
+ * understands ("the current file", "the selected code", ...).
+ *
+ * @param prompt - Prompt typed by the user
+ * @returns The cleaned request and the mentions it contained
+ */
+export function parseMentions(prompt: string): ParsedMentions {
+  const kinds = new Set<MentionKind>();
+  const filePaths: string[] = [];
+
+  const request = prompt.replace(MENTION_PATTERN, (_match, space: string, kind: MentionKind, rawPath?: string) => {
+    // A path at the end of a sentence keeps its punctuation outside the path
+    const punctuation = rawPath?.match(/[.!?:)]+$/)?.[0] ?? '';
+    const path = rawPath?.slice(0, rawPath.length - punctuation.length);
+    if (kind === 'file' && path) {
+      filePaths.push(path);
+      return `${space}${path}${punctuation}`;
+    }
+    kinds.add(kind);
+    const words = { file: 'the current file', selection: 'the selected code', workspace: 'the workspace' };
+    return `${space}${words[kind]}`;
+  });
+
+  return { request: request.trim(), kinds, filePaths };
+}
+
+/**
+ * TOKEN ESTIMATOR
+ * ===============
+ *
+ * Estimates how many tokens a text uses. Real tokenizers differ per
+ * model; about four characters per token is close enough for display.
+ *
+ * @param text - Text to measure
+ * @returns Approximate token count
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+/**
+ * CURSOR WINDOW CALCULATOR
+ * ========================
+ *
+ * Works out which lines to include around each cursor. Windows that
+ * overlap or touch are merged so no line is sent twice.
+ *
+ * @param cursorLines - 0-based line of each cursor
+ * @param radius - Lines to include above and below each cursor
+ * @param lineCount - Number of lines in the document
+ * @returns 0-based inclusive line ranges, top to bottom
+ */
+export function computeCursorWindows(
+  cursorLines: number[],
+  radius: number,
+  lineCount: number
+): Array<{ start: number; end: number }> {
+  if (lineCount <= 0 || radius < 0) {
+    return [];
+  }
+
+  const windows = [...cursorLines]
+    .sort((a, b) => a - b)
+    .map((line) => ({
+      start: Math.max(0, line - radius),
+      end: Math.min(lineCount - 1, line + radius)
+    }));
+
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const window of windows) {
+    const previous = merged[merged.length - 1];
+    if (previous && window.start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+  return merged;
+}
+
+/**
+ * CONTEXT FORMATTER
+ * =================
+ *
+ * Turns the sections into the text block placed in the prompt.
+ *
+ * @param sections - Context sections
+ * @returns Formatted context, or '' when there are no sections
+ */
+export function formatContextSections(sections: ContextSection[]): string {
+  return sections
+    .map((section) => `### ${section.title}\n${section.body}`)
+    .join('\n\n');
+}
+
+/**
+ * TEXT TRUNCATOR
+ * ==============
+ *
+ * @param text - Text that may be too long
+ * @param limit - Maximum characters to keep
+ * @returns The text, cut at the limit with a note when it was longer
+ */
+function truncate(text: string, limit: number): string {
+  return text.length > limit
+    ? `${text.slice(0, limit)}\n... (truncated, ${text.length - limit} more characters)`
+    : text;
+}
+
+/**
+ * PROMPT CONTEXT COLLECTOR
+ * ========================
+ *
+ * Gathers the context for a prompt from the active editor, the workspace
+ * and any mentions.
+ *
+ * @param prompt - Prompt typed by the user
+ * @param onlySelection - Describe only this selection instead of every
+ *   cursor (used when each cursor gets its own request)
+ * @param retrieval - Workspace index used for @workspace (without it,
+ *   @workspace only lists the files)
+ * @param mentioned - Mention context already collected for this prompt
+ *   (see collectMentionContext()); collected here when not given
+ * @returns Cleaned request, context sections, a token estimate and the
+ *   workspace code used
+ */
+export async function collectPromptContext(
+  prompt: string,
+  onlySelection?: vscode.Selection,
+  retrieval?: RetrievalOptions,
+  mentioned?: MentionContext
+): Promise<PromptContext> {
+  const mentions = parseMentions(prompt);
+  const sections: ContextSection[] = [];
+  const editor = vscode.window.activeTextEditor;
+  const automatic = readSetting<boolean>('includeEditorContext', true);
+  const folders = vscode.workspace.workspaceFolders ?? [];
+
+  if (folders.length > 1) {
+    sections.push({
+      title: 'Workspace folders',
+      body: describeWorkspaceFolders(folders.map((folder) => folder.name))
+    });
+  }
+
+  if (editor && (automatic || mentions.kinds.size > 0 || mentions.filePaths.length > 0)) {
+    const document = editor.document;
+    const selections = onlySelection ? [onlySelection] : editor.selections;
+    sections.push({
+      title: 'Active file',
+      body: `${vscode.workspace.asRelativePath(document.uri)} (language: ${document.languageId})`
+    });
+
+    if (mentions.kinds.has('file')) {
+      sections.push({
+        title: `Full file ${vscode.workspace.asRelativePath(document.uri)}`,
+        body: truncate(document.getText(), MAX_FILE_CONTEXT_CHARS)
+      });
+    }
+
+    if (automatic || mentions.kinds.has('selection')) {
+      for (const selection of selections.filter((candidate) => !candidate.isEmpty)) {
+        sections.push({
+          title: `Selection (lines ${selection.start.line + 1}-${selection.end.line + 1})`,
+          body: document.getText(selection)
+        });
+      }
+    }
+
+    if (automatic && !mentions.kinds.has('file')) {
+      const radius = readSetting<number>('contextLines', 20);
+      const windows = computeCursorWindows(
+        selections.map((selection) => selection.active.line),
+        radius,
+        document.lineCount
+      );
+      for (const window of windows) {
+        const range = new vscode.Range(window.start, 0, window.end, document.lineAt(window.end).text.length);
+        sections.push({
+          title: `Code around cursor (lines ${window.start + 1}-${window.end + 1})`,
+          body: document.getText(range)
+        });
+      }
+    }
+  }
+
+  const { sections: mentionSections, sources } = mentioned ?? await collectMentionContext(prompt, retrieval);
+  sections.push(...mentionSections);
+
+  const text = formatContextSections(sections);
+  return {
+    request: mentions.request,
+    sections,
+    text,
+    tokenEstimate: estimateTokens(text),
+    sources: [...sources]
+  };
+}
+
+/**
+ * MENTION CONTEXT COLLECTOR
+ * =========================
+ *
+ * Reads the files named with @file:path and, for @workspace, lists the
+ * workspace and searches the index.
+ *
+ * @param prompt - Prompt typed by the user
+ * @param retrieval - Workspace index used for @workspace
+ * @returns The sections and the workspace code used
+ */
+export async function collectMentionContext(prompt: string, retrieval?: RetrievalOptions): Promise<MentionContext> {
+  const mentions = parseMentions(prompt);
+  const sections: ContextSection[] = [];
+  const sources: string[] = [];
+
+  for (const filePath of mentions.filePaths) {
+    sections.push(await readMentionedFile(filePath));
+  }
+
+  if (mentions.kinds.has('workspace')) {
+    sections.push(await listWorkspaceFiles());
+    if (retrieval && readSetting<boolean>('retrieval.enabled', true)) {
+      for (const section of await retrieveWorkspaceCode(mentions.request, retrieval)) {
+        sections.push(section);
+        sources.push(section.title.replace(/^Workspace code /, ''));
+      }
+    }
+  }
+
+  return { sections, sources };
+}
+
+/**
+ * WORKSPACE CODE RETRIEVER
+ * ========================
+ *
+ * @param request - The request, used as the search query
+ * @param retrieval - Index to search
+ * @returns One section per relevant chunk (none if the search failed)
+ */
+async function retrieveWorkspaceCode(request: string, retrieval: RetrievalOptions): Promise<ContextSection[]> {
+  try {
+    const chunks = await retrieval.index.search(request, readSetting<number>('retrieval.maxChunks', 6), {
+      useEmbeddings: retrieval.useEmbeddings ?? true,
+      signal: retrieval.signal
+    });
+    return chunks.map((chunk) => ({ title: `Workspace code ${formatCitation(chunk)}`, body: chunk.text }));
+  } catch (error) {
+    if (isCancellationError(error)) {
+      throw error;
+    }
+    console.error('Workspace search failed:', error);
+    return [];
+  }
+}
+
+/**
+ * MENTIONED FILE READER
+ * =====================
+ *
+ * Reads a file named with @file:path. The path goes through the file
+ * action policy (see fileActionPolicy.ts), so paths outside the workspace,
+ * protected files like `.env` and links pointing outside are not read.
+ * In a multi-root workspace the path can name its folder with
+ * a prefix (@file:api:src/index.ts); without one, the first folder is used.
+ *
+ * @param filePath - Workspace-relative path from the mention
+ * @returns A section with the file content, or a note saying why it is missing
+ */
+async function readMentionedFile(filePath: string): Promise<ContextSection> {
+  const title = `File ${filePath}`;
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    return { title, body: '(not available: no workspace folder is open)' };
+  }
+
+  const { folder: folderName, path } = splitFolderPrefix(filePath);
+  const folder = folderName === undefined
+    ? folders[0]
+    : folders[findFolderIndex(folderName, folders.map((candidate) => candidate.name))];
+  if (!folder) {
+    return { title, body: `(not available: no workspace folder named "${folderName}")` };
+  }
+
+  // A leading slash still means the workspace folder, as in @file:/src/a.ts
+  const checked = await checkActionTarget(folder.uri, path.replace(/^[/\\]+/, ''), loadFileReadPolicy());
+  if (checked.path === undefined) {
+    return { title, body: `(not available: ${checked.reason})` };
+  }
+  const fileUri = vscode.Uri.joinPath(folder.uri, ...checked.path.split('/'));
+
+  try {
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    return { title, body: truncate(document.getText(), MAX_FILE_CONTEXT_CHARS) };
+  } catch (error) {
+    return { title, body: '(not available: file not found)' };
+  }
+}
+
+/**
+ * WORKSPACE FILE LISTER
+ * =====================
+ *
+ * @returns A section listing the workspace's files (build output and dependencies excluded)
+ */
+async function listWorkspaceFiles(): Promise<ContextSection> {
+  const files = await vscode.workspace.findFiles('**/*', WORKSPACE_EXCLUDE, MAX_WORKSPACE_FILES + 1);
+  const paths = files
+    .map((file) => vscode.workspace.asRelativePath(file))
+    .sort()
+    .slice(0, MAX_WORKSPACE_FILES);
+
+  const more = files.length > MAX_WORKSPACE_FILES ? `\n... (more than ${MAX_WORKSPACE_FILES} files)` : '';
+  return {
+    title: 'Workspace files',
+    body: paths.length > 0 ? paths.join('\n') + more : '(no files found)'
+  };
+}
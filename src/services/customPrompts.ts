@@ -0,0 +1,326 @@
+/**
+ * CUSTOM PROMPTS MODULE
+ * =====================
+ *
+ * Lets teams keep their own prompts in the repository and run them as
+ * slash commands in the sidebar: `.jarnox/prompts/docstring.md` becomes
+ * `/docstring`.
+ *
+ * A template is a Markdown file. An optional front matter block picks the
+ * model, the temperature and what happens to the answer:
+ *
+ *     ---
+ *     description: Write a docstring for the selection
+ *     model: qwen2.5-coder:7b
+ *     temperature: 0.2
+ *     output: code
+ *     ---
+ *     Write a docstring for this {{language}} code from {{file}}:
+ *     {{selection}}
+ *     {{input}}
+ *
+ * Output modes:
+ * - code:   the answer is inserted at the cursor (no file actions)
+ * - action: like a normal prompt; the model may answer with code or JSON file actions
+ * - chat:   the answer is only shown in the chat, nothing is changed
+ *
+ * Variables: {{selection}}, {{language}}, {{file}} and {{input}} (the text
+ * typed after the command). When a template has no {{input}}, that text is
+ * added at the end.
+ */
+
+import * as vscode from 'vscode';
+import type { LLMConfig } from './configService';
+import { buildSystemPrompt } from './llmService';
+import { buildRoutedSystemPrompt } from './outputRouting';
+
+/** Folder (inside each workspace folder) that holds the templates */
+export const PROMPTS_FOLDER = '.jarnox/prompts';
+
+/** What happens to the answer of a template */
+export type TemplateOutput = 'code' | 'action' | 'chat';
+
+/** Every output mode, for validating front matter */
+const TEMPLATE_OUTPUTS: TemplateOutput[] = ['code', 'action', 'chat'];
+
+/** Allowed slash command names: letters, digits, `-` and `_` */
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * CUSTOM PROMPT TEMPLATE
+ * ======================
+ *
+ * One `.jarnox/prompts/*.md` file.
+ */
+export interface CustomPromptTemplate {
+  /** Slash command name (the file name without `.md`, in lower case) */
+  name: string;
+
+  /** Shown next to the command in the sidebar suggestions */
+  description: string;
+
+  /** Prompt text with {{variables}} */
+  body: string;
+
+  /** Model to use instead of the one selected in the sidebar */
+  model?: string;
+
+  /** Temperature to use instead of `jarnox.temperature` */
+  temperature?: number;
+
+  /** What happens to the answer */
+  output: TemplateOutput;
+
+  /** Workspace-relative path of the file, for messages */
+  source: string;
+}
+
+/** Values the {{variables}} of a template are filled with */
+export interface TemplateVariables {
+  selection: string;
+  language: string;
+  file: string;
+  input: string;
+}
+
+/**
+ * TEMPLATE NAME DERIVER
+ * =====================
+ *
+ * @param fileName - File name like `Docstring.md`
+ * @returns The slash command name (`docstring`), or undefined if the
+ *   file is not a template or its name cannot be typed as a command
+ */
+export function templateNameFromFile(fileName: string): string | undefined {
+  if (!/\.md$/i.test(fileName)) {
+    return undefined;
+  }
+  const name = fileName.slice(0, -3).toLowerCase();
+  return TEMPLATE_NAME_PATTERN.test(name) ? name : undefined;
+}
+
+/**
+ * TEMPLATE FILE PARSER
+ * ====================
+ *
+ * Reads the front matter (simple `key: value` lines between `---`
+ * lines) and the body of a template file. Unknown keys and invalid values
+ * are reported and ignored, so a typo never makes the command disappear.
+ *
+ * @param name - Slash command name
+ * @param text - Contents of the file
+ * @param source - Workspace-relative path of the file
+ * @returns The template and the problems found in it
+ */
+export function parsePromptTemplate(
+  name: string,
+  text: string,
+  source: string
+): { template: CustomPromptTemplate; problems: string[] } {
+  const problems: string[] = [];
+  const template: CustomPromptTemplate = { name, description: '', body: text.trim(), output: 'action', source };
+
+  const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (frontMatter) {
+    template.body = text.slice(frontMatter[0].length).trim();
+    for (const line of frontMatter[1].split(/\r?\n/)) {
+      if (!line.trim() || line.trim().startsWith('#')) {
+        continue;
+      }
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        problems.push(`ignored line "${line.trim()}" (expected "key: value")`);
+        continue;
+      }
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim().replace(/^(["'])(.*)\1$/, '$2');
+
+      if (key === 'description') {
+        template.description = value;
+      } else if (key === 'model') {
+        template.model = value || undefined;
+      } else if (key === 'temperature') {
+        const temperature = Number(value);
+        if (value && Number.isFinite(temperature) && temperature >= 0 && temperature <= 2) {
+          template.temperature = temperature;
+        } else {
+          problems.push(`ignored temperature "${value}" (expected a number from 0 to 2)`);
+        }
+      } else if (key === 'output') {
+        if ((TEMPLATE_OUTPUTS as string[]).includes(value)) {
+          template.output = value as TemplateOutput;
+        } else {
+          problems.push(`ignored output "${value}" (expected ${TEMPLATE_OUTPUTS.join(', ')})`);
+        }
+      } else {
+        problems.push(`ignored unknown key "${key}"`);
+      }
+    }
+  }
+
+  if (!template.description) {
+    // The first line of the prompt says well enough what it does
+    template.description = template.body.split('\n')[0].replace(/\{\{\s*\w+\s*\}\}/g, '…').trim().slice(0, 60);
+  }
+  return { template, problems };
+}
+
+/**
+ * TEMPLATE RENDERER
+ * =================
+ *
+ * Fills in the {{variables}} of a template body. Unknown variables are
+ * left as they are, so a typo is easy to spot in the chat.
+ *
+ * @param body - Template text
+ * @param variables - Values for the variables
+ * @returns The prompt to send
+ */
+export function renderPromptTemplate(body: string, variables: TemplateVariables): string {
+  const usesInput = /\{\{\s*input\s*\}\}/.test(body);
+  const rendered = body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    Object.prototype.hasOwnProperty.call(variables, key) ? variables[key as keyof TemplateVariables] : placeholder
+  );
+  return !usesInput && variables.input.trim() ? `${rendered.trimEnd()}\n\n${variables.input.trim()}` : rendered;
+}
+
+/**
+ * SLASH COMMAND PARSER
+ * ====================
+ *
+ * @param text - What the user typed in the sidebar
+ * @returns The command name and the text after it, or undefined if the
+ *   text is not a slash command
+ */
+export function parseSlashCommand(text: string): { name: string; input: string } | undefined {
+  const match = /^\/([a-z0-9][a-z0-9_-]*)(?:\s+([\s\S]*))?$/i.exec(text.trim());
+  return match ? { name: match[1].toLowerCase(), input: (match[2] ?? '').trim() } : undefined;
+}
+
+/**
+ * TEMPLATE SYSTEM PROMPT BUILDER
+ * ==============================
+ *
+ * @param output - The template's output mode
+ * @returns The system message matching what happens to the answer
+ */
+export function buildTemplateSystemPrompt(output: TemplateOutput): string {
+  return output === 'action' ? buildSystemPrompt() : buildRoutedSystemPrompt(output);
+}
+
+/**
+ * TEMPLATE CONFIG OVERRIDES
+ * =========================
+ *
+ * @param template - Template being run
+ * @returns The settings the template overrides for its request
+ */
+export function templateConfigOverrides(template: CustomPromptTemplate): Partial<LLMConfig> {
+  return {
+    ...(template.model ? { modelName: template.model } : {}),
+    ...(template.temperature !== undefined ? { temperature: template.temperature } : {})
+  };
+}
+
+/**
+ * PROMPT LIBRARY CLASS
+ * ====================
+ *
+ * Loads the templates of every workspace folder and reloads them when a
+ * file in `.jarnox/prompts` changes. When two folders define the same
+ * command, the first folder wins.
+ */
+export class PromptLibrary {
+
+  /** Loaded templates by command name */
+  private templates = new Map<string, CustomPromptTemplate>();
+
+  /**
+   * CONSTRUCTOR
+   * ===========
+   *
+   * @param onChange - Called after the templates were (re)loaded
+   */
+  constructor(private readonly onChange: () => void = () => {}) {}
+
+  /**
+   * TEMPLATE LISTER
+   * ===============
+   *
+   * @returns All templates, sorted by name
+   */
+  public list(): CustomPromptTemplate[] {
+    return [...this.templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * TEMPLATE LOOKUP
+   * ===============
+   *
+   * @param name - Slash command name (without the `/`)
+   * @returns The template, or undefined if there is none
+   */
+  public get(name: string): CustomPromptTemplate | undefined {
+    return this.templates.get(name.toLowerCase());
+  }
+
+  /**
+   * TEMPLATE LOADER
+   * ===============
+   *
+   * Reads every `.jarnox/prompts/*.md` file again.
+   */
+  public async reload(): Promise<void> {
+    const templates = new Map<string, CustomPromptTemplate>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const promptsUri = vscode.Uri.joinPath(folder.uri, PROMPTS_FOLDER);
+      const entries = await vscode.workspace.fs.readDirectory(promptsUri).then((result) => result, () => []);
+
+      for (const [fileName, type] of entries) {
+        const name = templateNameFromFile(fileName);
+        if (type !== vscode.FileType.File || !name || templates.has(name)) {
+          continue;
+        }
+        const fileUri = vscode.Uri.joinPath(promptsUri, fileName);
+        const source = vscode.workspace.asRelativePath(fileUri);
+        try {
+          const text = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+          const { template, problems } = parsePromptTemplate(name, text, source);
+          problems.forEach((problem) => console.log(`Prompt template ${source}: ${problem}`));
+          templates.set(name, template);
+        } catch (error) {
+          console.log(`Prompt template ${source} could not be read:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    this.templates = templates;
+    console.log(`Prompt templates: loaded ${templates.size}`);
+    this.onChange();
+  }
+
+  /**
+   * TEMPLATE WATCHER
+   * ================
+   *
+   * Loads the templates now and again whenever one is created, changed or
+   * deleted, or a workspace folder is added or removed.
+   *
+   * @returns Disposable that stops watching
+   */
+  public watch(): vscode.Disposable {
+    const reload = () => {
+      this.reload().catch((error) => console.error('Failed to load prompt templates:', error));
+    };
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROMPTS_FOLDER}/*.md`);
+    const disposables = [
+      watcher,
+      watcher.onDidCreate(reload),
+      watcher.onDidChange(reload),
+      watcher.onDidDelete(reload),
+      vscode.workspace.onDidChangeWorkspaceFolders(reload)
+    ];
+    reload();
+    return vscode.Disposable.from(...disposables);
+  }
+}
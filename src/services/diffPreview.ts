@@ -0,0 +1,227 @@
+/**
+ * DIFF PREVIEW MODULE
+ * ===================
+ * 
+ * Before the copilot writes anything to disk, this module shows the change
+ * in VS Code's diff editor (current file on the left, proposed content on
+ * the right) and asks the user to Accept, Edit or Reject it.
+ * 
+ * Nothing is written here: the caller gets back the content the user
+ * approved (or undefined when the change was rejected) and does the write.
+ * 
+ * The proposed content is served from memory through a read-only
+ * `jarnox-proposal:` document, so no temporary files are created.
+ */
+
+import * as vscode from 'vscode';
+
+/** URI scheme for in-memory proposal documents */
+export const PROPOSAL_SCHEME = 'jarnox-proposal';
+
+/** Proposed contents currently shown in a diff, keyed by proposal URI */
+const proposals = new Map<string, string>();
+
+/** Counter that keeps proposal URIs unique */
+let proposalCounter = 0;
+
+/**
+ * PROPOSAL CONTENT PROVIDER
+ * =========================
+ * 
+ * Registers the read-only document provider for proposal URIs.
+ * Call once on activation and dispose on deactivation.
+ * 
+ * @returns Disposable for the registration
+ */
+export function registerProposalContentProvider(): vscode.Disposable {
+  return vscode.workspace.registerTextDocumentContentProvider(PROPOSAL_SCHEME, {
+    provideTextDocumentContent: (uri) => proposals.get(uri.toString()) ?? ''
+  });
+}
+
+/**
+ * FILE CHANGE REQUEST
+ * ===================
+ * 
+ * Describes one change the copilot wants to make.
+ */
+export interface FileChangeRequest {
+  /** File that would be written */
+  targetUri: vscode.Uri;
+  
+  /** Current file content, or undefined when the file does not exist yet */
+  currentContent: string | undefined;
+  
+  /** Content the file would have after the change */
+  proposedContent: string;
+  
+  /** Short description of the change (like 'create_file' or 'append_file') */
+  actionLabel: string;
+}
+
+/**
+ * CHANGE CONFIRMATION
+ * ===================
+ * 
+ * Opens a diff of the proposed change and waits for the user's decision:
+ * - Accept: the proposed content is returned as-is
+ * - Edit: the proposal opens in an editable document; the edited text is
+ *   returned once the user accepts it
+ * - Reject (or dismissing the prompt): undefined is returned
+ * 
+ * Replacing an existing file's whole content always needs an extra
+ * modal confirmation on top of Accept.
+ * 
+ * @param request - The change to review
+ * @returns The approved content, or undefined if nothing should be written
+ */
+export async function confirmFileChange(request: FileChangeRequest): Promise<string | undefined> {
+  const fileName = request.targetUri.path.split('/').pop() || request.targetUri.path;
+  const isNewFile = request.currentContent === undefined;
+  
+  const proposalUri = createProposalUri(request.targetUri, request.proposedContent);
+  // New files are compared against an empty document
+  const originalUri = isNewFile
+    ? createProposalUri(request.targetUri, '', 'empty')
+    : request.targetUri;
+  
+  try {
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      originalUri,
+      proposalUri,
+      `${fileName} (${isNewFile ? 'new file' : 'current'} ↔ proposed ${request.actionLabel})`,
+      { preview: true }
+    );
+    
+    const choice = await vscode.window.showInformationMessage(
+      `JarNox wants to ${isNewFile ? 'create' : 'change'} ${vscode.workspace.asRelativePath(request.targetUri)} (${request.actionLabel}). Review the diff.`,
+      'Accept',
+      'Edit',
+      'Reject'
+    );
+    
+    let approvedContent: string | undefined;
+    if (choice === 'Accept') {
+      approvedContent = request.proposedContent;
+    } else if (choice === 'Edit') {
+      approvedContent = await editProposal(request, fileName);
+    }
+    
+    if (approvedContent === undefined) {
+      console.log(`Change to ${fileName} rejected`);
+      return undefined;
+    }
+    
+    // Replacing an existing file always gets an explicit confirmation
+    if (!isNewFile && request.actionLabel === 'create_file') {
+      const overwrite = await vscode.window.showWarningMessage(
+        `${fileName} already exists. Overwrite it with the proposed content?`,
+        { modal: true },
+        'Overwrite'
+      );
+      if (overwrite !== 'Overwrite') {
+        console.log(`Overwrite of ${fileName} declined`);
+        return undefined;
+      }
+    }
+    
+    return approvedContent;
+    
+  } finally {
+    await closeDiffTabs(proposalUri);
+    proposals.delete(proposalUri.toString());
+    proposals.delete(originalUri.toString());
+  }
+}
+
+/**
+ * PROPOSAL EDITOR
+ * ===============
+ * 
+ * Opens the proposed content in an untitled document so the user can
+ * tweak it, then asks whether to write the edited version.
+ * 
+ * @param request - The change being reviewed
+ * @param fileName - Display name of the target file
+ * @returns The edited text, or undefined if the user rejected it
+ */
+async function editProposal(request: FileChangeRequest, fileName: string): Promise<string | undefined> {
+  const languageId = await guessLanguageId(request.targetUri);
+  const draft = await vscode.workspace.openTextDocument({
+    content: request.proposedContent,
+    language: languageId
+  });
+  await vscode.window.showTextDocument(draft, { preview: false });
+  
+  const choice = await vscode.window.showInformationMessage(
+    `Edit the proposed content for ${fileName}, then choose Accept to write it.`,
+    'Accept',
+    'Reject'
+  );
+  const editedContent = choice === 'Accept' ? draft.getText() : undefined;
+  
+  // Throw the scratch document away without a "save changes?" prompt
+  if (vscode.window.activeTextEditor?.document === draft) {
+    await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+  }
+  
+  return editedContent;
+}
+
+/**
+ * LANGUAGE GUESSER
+ * ================
+ * 
+ * @param targetUri - File the proposal is for
+ * @returns The language of the existing file, or plaintext for new files
+ */
+async function guessLanguageId(targetUri: vscode.Uri): Promise<string> {
+  try {
+    return (await vscode.workspace.openTextDocument(targetUri)).languageId;
+  } catch {
+    return 'plaintext';
+  }
+}
+
+/**
+ * PROPOSAL URI BUILDER
+ * ====================
+ * 
+ * Stores content in memory and returns a `jarnox-proposal:` URI for it.
+ * The file name is kept so VS Code picks the right syntax highlighting.
+ * 
+ * @param targetUri - File the proposal is for
+ * @param content - Content to serve
+ * @param variant - Distinguishes several documents for one target
+ * @returns URI that shows the content
+ */
+function createProposalUri(targetUri: vscode.Uri, content: string, variant = 'proposed'): vscode.Uri {
+  proposalCounter++;
+  const uri = vscode.Uri.from({
+    scheme: PROPOSAL_SCHEME,
+    path: targetUri.path,
+    query: `${variant}-${proposalCounter}`
+  });
+  proposals.set(uri.toString(), content);
+  return uri;
+}
+
+/**
+ * DIFF TAB CLOSER
+ * ===============
+ * 
+ * Closes the diff editor that shows a proposal once a decision is made.
+ * 
+ * @param proposalUri - Right-hand side of the diff
+ */
+async function closeDiffTabs(proposalUri: vscode.Uri): Promise<void> {
+  const tabs = vscode.window.tabGroups.all
+    .flatMap((group) => group.tabs)
+    .filter((tab) => tab.input instanceof vscode.TabInputTextDiff
+      && tab.input.modified.toString() === proposalUri.toString());
+  
+  if (tabs.length > 0) {
+    await vscode.window.tabGroups.close(tabs);
+  }
+}
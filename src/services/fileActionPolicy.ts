@@ -0,0 +1,165 @@
+/**
+ * FILE ACTION POLICY SERVICE
+ * ==========================
+ *
+ * Applies the path policy (see utils/pathPolicy.ts) to the model's file
+ * actions, with the rules from the settings:
+ * - jarnox.fileActions.allow: globs a path must match (empty = all)
+ * - jarnox.fileActions.deny: extra globs to refuse, or `!glob` to
+ *   unprotect a protected path
+ * - jarnox.fileActions.maxWriteBytes: most bytes one write may produce
+ *
+ * On disk, the path is also resolved through symbolic links: a link
+ * inside the workspace that points outside it, or at a protected path,
+ * is refused just like the path it points to.
+ *
+ * Files read for the model (@file:path mentions) go through the same
+ * checks, except the allow globs.
+ */
+
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import * as vscode from 'vscode';
+import { readSetting } from './configService';
+import { PathPolicy, type PathCheck } from '../utils/pathPolicy';
+
+/** Windows and macOS file systems ignore case by default */
+const CASE_INSENSITIVE_FILE_SYSTEM = process.platform === 'win32' || process.platform === 'darwin';
+
+/**
+ * POLICY LOADER
+ * =============
+ *
+ * @returns The path policy built from the current settings
+ */
+export function loadFileActionPolicy(): PathPolicy {
+  return new PathPolicy({
+    allow: readSetting<string[]>('fileActions.allow', []),
+    deny: readSetting<string[]>('fileActions.deny', []),
+    maxWriteBytes: readSetting<number>('fileActions.maxWriteBytes', 1048576),
+    caseInsensitive: CASE_INSENSITIVE_FILE_SYSTEM
+  });
+}
+
+/**
+ * READ POLICY LOADER
+ * ==================
+ *
+ * The allow globs only limit what actions may change, so they are left
+ * out: the user can still show the model a file outside them.
+ *
+ * @returns The path policy for files sent to the model
+ */
+export function loadFileReadPolicy(): PathPolicy {
+  return new PathPolicy({
+    deny: readSetting<string[]>('fileActions.deny', []),
+    caseInsensitive: CASE_INSENSITIVE_FILE_SYSTEM
+  });
+}
+
+/**
+ * ACTION TARGET CHECKER
+ * =====================
+ *
+ * @param workspaceRoot - Folder the path is relative to
+ * @param rawPath - Path as written by the model
+ * @param policy - Rules to apply
+ * @returns The normalized path, or the reason it is refused
+ */
+export async function checkActionTarget(
+  workspaceRoot: vscode.Uri,
+  rawPath: string,
+  policy: PathPolicy = loadFileActionPolicy()
+): Promise<PathCheck> {
+  const checked = policy.checkPath(rawPath);
+  if (checked.path === undefined || workspaceRoot.scheme !== 'file') {
+    return checked;
+  }
+
+  const real = await resolveRealPath(workspaceRoot.fsPath, checked.path, CASE_INSENSITIVE_FILE_SYSTEM);
+  if (real.path === undefined) {
+    return real;
+  }
+  if (real.path !== checked.path) {
+    const reason = policy.checkRules(real.path);
+    if (reason) {
+      return { reason: `${checked.path} is a link to ${real.path}, and ${reason}` };
+    }
+  }
+  return checked;
+}
+
+/**
+ * REAL PATH RESOLVER
+ * ==================
+ *
+ * Follows symbolic links in a path that may not exist yet: the nearest
+ * existing folder is resolved, and the missing rest is added back.
+ *
+ * @param rootPath - Workspace folder on disk
+ * @param relativePath - Normalized path inside it
+ * @param caseInsensitive - Whether the file system ignores case
+ * @returns Where the path really is, relative to the real workspace
+ *   folder, or the reason it is refused (it leads outside the folder, or
+ *   is a broken link)
+ */
+export async function resolveRealPath(
+  rootPath: string,
+  relativePath: string,
+  caseInsensitive = false
+): Promise<PathCheck> {
+  let realRoot: string;
+  try {
+    realRoot = await fs.promises.realpath(rootPath);
+  } catch {
+    // Nothing exists yet, so there is no link to follow
+    return { path: relativePath };
+  }
+  const missing: string[] = [];
+  let existing = nodePath.join(rootPath, ...relativePath.split('/'));
+  let realExisting: string | undefined;
+
+  while (realExisting === undefined) {
+    try {
+      realExisting = await fs.promises.realpath(existing);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ELOOP') {
+        return { reason: `${relativePath} goes through a loop of symbolic links` };
+      }
+      if (await isSymbolicLink(existing)) {
+        return { reason: `${relativePath} goes through a symbolic link whose target does not exist` };
+      }
+      missing.unshift(nodePath.basename(existing));
+      existing = nodePath.dirname(existing);
+    }
+  }
+
+  const realTarget = nodePath.join(realExisting, ...missing);
+  const fold = (text: string) => (caseInsensitive ? text.toLowerCase() : text);
+  const relative = nodePath.relative(fold(realRoot), fold(realTarget));
+  if (relative === '') {
+    return { reason: `${relativePath} is a link to the workspace folder itself` };
+  }
+  if (relative === '..' || relative.startsWith('..' + nodePath.sep) || nodePath.isAbsolute(relative)) {
+    return { reason: `${relativePath} is a link to ${realTarget}, outside the workspace folder` };
+  }
+
+  // Keep the real spelling of the path, not the folded one
+  return { path: realTarget.slice(realTarget.length - relative.length).split(nodePath.sep).join('/') };
+}
+
+/**
+ * SYMBOLIC LINK CHECK
+ * ===================
+ *
+ * @param fsPath - Path on disk
+ * @returns true if the path itself is a symbolic link
+ */
+async function isSymbolicLink(fsPath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.lstat(fsPath)).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
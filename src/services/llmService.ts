@@ -3,57 +3,55 @@
  * ======================
  * 
  * This module handles all communication with AI language models.
- * Currently it's set up to work with Ollama (a local AI server),
- * but it could be adapted to work with other AI services like OpenAI,
- * Claude, or any other language model API.
+ * The actual HTTP calls live in `providers/`, one implementation per kind
+ * of server (Ollama, OpenAI-compatible servers like vLLM or LM Studio,
+ * and llama.cpp). This module picks the provider from the settings.
  * 
  * What this module does:
  * - Sends your prompts to the AI model
  * - Receives responses from the AI
- * - Handles different response formats (streaming vs single response)
+ * - Lists the models the server can run
  * - Builds proper prompts that tell the AI how to respond
+ * - Continues chat sessions by sending the earlier turns along
  */
 
+import { getLLMConfig, type LLMConfig } from './configService';
+import {
+  createProvider,
+  OllamaProvider,
+  type ChatMessage,
+  type GenerationOptions,
+  type ModelInfo
+} from './providers';
+
+// The configuration types used to live here; re-export them so existing
+// imports of llmService keep working.
+export { DEFAULT_LLM_CONFIG, type LLMConfig } from './configService';
+export {
+  RequestCancelledError,
+  isCancellationError,
+  type ChatMessage,
+  type GenerationOptions,
+  type ModelInfo
+} from './providers';
+
 /**
- * AI MODEL CONFIGURATION
- * ======================
+ * PROMPT EXTRAS
+ * =============
  * 
- * These are the settings for how we talk to the AI model.
- * You can change these to use different models or adjust how the AI behaves.
+ * Optional material added to the prompt next to the user's request.
  */
-export interface LLMConfig {
-  /** The base URL where the Ollama server is running */
-  baseUrl: string;
+export interface PromptExtras {
+  /** Editor and workspace context from contextBuilder (formatted sections) */
+  context?: string;
   
-  /** The name of the AI model to use (like 'llama3.2:latest') */
-  modelName: string;
+  /** Extra instructions placed after the request, like the reply format */
+  instructions?: string;
   
-  /** How creative the AI should be (0.0 = very predictable, 1.0 = very creative) */
-  temperature: number;
-  
-  /** Maximum number of tokens (words/pieces) the AI can generate */
-  maxTokens: number;
-  
-  /** Whether to get the response all at once (false) or piece by piece (true) */
-  stream: boolean;
+  /** The team's conventions from .jarnox/instructions.md, added to the system prompt */
+  projectInstructions?: string;
 }
 
-/**
- * DEFAULT CONFIGURATION
- * =====================
- * 
- * This is the standard setup that works with a local Ollama installation.
- * The IP address points to a remote Ollama server - you might want to
- * change this to 'localhost' if you're running Ollama on your own computer.
- */
-export const DEFAULT_LLM_CONFIG: LLMConfig = {
-  baseUrl: 'http://72.60.98.171:11434',  // Remote Ollama server
-  modelName: 'llama3.2:latest',           // Default model
-  temperature: 0.7,                       // Balanced creativity
-  maxTokens: 100,                         // Keep responses concise
-  stream: false                           // Get complete response at once
-};
-
 /**
  * PROMPT BUILDER
  * ==============
@@ -61,128 +59,253 @@ export const DEFAULT_LLM_CONFIG: LLMConfig = {
  * This function creates a detailed instruction for the AI model.
  * It tells the AI exactly how to respond depending on what the user wants.
  * 
- * The AI can respond in two ways:
- * 1. With a JSON object for file operations (creating/editing files)
- * 2. With plain code that gets inserted at the cursor
+ * The AI can respond in three ways:
+ * 1. With a JSON object for a single file operation (creating/editing files)
+ * 2. With {"actions": [...]} for a plan of several operations
+ * 3. With plain code that gets inserted at the cursor
+ * 
+ * When editor context is supplied it is placed just before the request,
+ * so the model can match the file's language and surrounding code.
+ * Project instructions are added to the instructions part.
  * 
  * @param userRequest - What the user typed in the input box
+ * @param extras - Optional context to include
  * @returns A detailed prompt that guides the AI's response
  */
-export function buildPromptForModel(userRequest: string): string {
-  return [
+export function buildPromptForModel(userRequest: string, extras: PromptExtras = {}): string {
+  return `${buildSystemPrompt(extras.projectInstructions)}\n\n${buildUserMessage(userRequest, extras)}`;
+}
+
+/**
+ * SYSTEM PROMPT BUILDER
+ * =====================
+ * 
+ * The instructions part of the prompt: which response formats the model
+ * may use. Chat sessions send this once as the system message.
+ * 
+ * @param projectInstructions - The team's conventions, if any
+ * @returns The instructions, without any user request
+ */
+export function buildSystemPrompt(projectInstructions?: string): string {
+  return appendProjectInstructions([
     'You are a VS Code automation agent. Decide the best response format:',
     '',
-    'If the user requests creating or modifying files, respond ONLY with a single JSON object:',
+    'If the user requests creating or modifying one file, respond ONLY with a single JSON object:',
     '{"action":"create_file|append_file|insert_code","path":"relative/path?","content":"string"}',
     '- create_file: create a new file at path with content',
     '- append_file: append content to existing file (create if missing)',
     '- insert_code: insert code into the current editor (no path)',
+    '- replace_selection: replace the selected code in the current editor: {"action":"replace_selection","content":"..."}',
+    '- replace_range: change part of an existing file, either by exact text or by 1-based lines/columns:',
+    '  {"action":"replace_range","path":"src/a.ts","anchor":"exact old text","content":"new text"}',
+    '  {"action":"replace_range","path":"src/a.ts","startLine":3,"endLine":5,"content":"new lines"}',
+    '  (without startColumn/endColumn whole lines are replaced; leave out path to edit the current editor)',
+    '- rename_file: {"action":"rename_file","path":"old/path","newPath":"new/path"}',
+    '- delete_file: {"action":"delete_file","path":"relative/path"}',
+    '- apply_patch: {"action":"apply_patch","path":"relative/path","patch":"unified diff with @@ hunks"}',
+    'If the request needs several steps (for example creating more than one file), respond ONLY with:',
+    '{"actions":[{"action":"...","path":"...","content":"..."},{"action":"...","path":"...","content":"..."}]}',
+    '- List the steps in the order they should run',
     'Rules:',
     '- Do not include explanations or backticks',
     '- Use Unix-style forward slashes in paths',
     '- Keep content exactly as intended (no extra commentary)',
     '',
-    'Otherwise, if the user wants code to paste, reply with ONLY the code (you may use a fenced code block).',
-    '',
-    'User request:',
-    userRequest
-  ].join('\n');
+    'Otherwise, if the user wants code to paste, reply with ONLY the code (you may use a fenced code block).'
+  ].join('\n'), projectInstructions);
+}
+
+/**
+ * PROJECT INSTRUCTIONS APPENDER
+ * =============================
+ * 
+ * Adds the team's conventions (from .jarnox/instructions.md) to a system
+ * prompt. They come last, so they refine the general instructions.
+ * 
+ * @param systemPrompt - Instructions for the model
+ * @param projectInstructions - The team's conventions ('' or undefined for none)
+ * @returns The system prompt with the conventions added
+ */
+export function appendProjectInstructions(systemPrompt: string, projectInstructions?: string): string {
+  return projectInstructions?.trim()
+    ? `${systemPrompt}\n\nProject instructions (follow these conventions of the project):\n${projectInstructions.trim()}`
+    : systemPrompt;
+}
+
+/**
+ * USER MESSAGE BUILDER
+ * ====================
+ * 
+ * The request part of the prompt, with the editor context in front of it.
+ * 
+ * @param userRequest - What the user typed in the input box
+ * @param extras - Optional context to include
+ * @returns The request as sent to the model
+ */
+export function buildUserMessage(userRequest: string, extras: PromptExtras = {}): string {
+  const contextLines = extras.context
+    ? ['Context from the editor (match its language and style):', extras.context, '']
+    : [];
+  
+  const instructionLines = extras.instructions ? ['', extras.instructions] : [];
+  
+  return [...contextLines, 'User request:', userRequest, ...instructionLines].join('\n');
+}
+
+/**
+ * TEXT GENERATOR
+ * ==============
+ * 
+ * Sends a prompt to whichever server the settings (or active profile)
+ * point at and returns the answer.
+ * 
+ * When streaming is enabled, tokens are passed to `options.onToken`
+ * while the server is still generating. The request is aborted when
+ * `options.signal` fires or the server stays silent for too long.
+ * 
+ * @param prompt - The complete prompt to send to the AI
+ * @param config - Overrides for the current `jarnox.*` settings
+ * @param options - Streaming callbacks and abort signal
+ * @returns Promise that resolves to the AI's response text
+ * @throws RequestCancelledError if the caller aborted the request
+ * @throws Error if the API call fails or times out
+ */
+export async function generateText(
+  prompt: string,
+  config: Partial<LLMConfig> = {},
+  options: GenerationOptions = {}
+): Promise<string> {
+  // Merge per-call overrides with the live settings (re-read after every settings change)
+  const finalConfig = { ...getLLMConfig(), ...config };
+  return createProvider(finalConfig).generate(prompt, options);
+}
+
+/**
+ * FILL-IN-THE-MIDDLE GENERATOR
+ * ============================
+ * 
+ * Asks the configured server for the code that belongs between `prefix`
+ * and `suffix` (used by inline completions).
+ * 
+ * @param prefix - Text before the cursor
+ * @param suffix - Text after the cursor
+ * @param config - Overrides for the current `jarnox.*` settings
+ * @param options - Streaming callbacks and abort signal
+ * @returns Promise that resolves to the text to insert at the cursor
+ * @throws RequestCancelledError if the caller aborted the request
+ */
+export async function generateInfill(
+  prefix: string,
+  suffix: string,
+  config: Partial<LLMConfig> = {},
+  options: GenerationOptions = {}
+): Promise<string> {
+  const finalConfig = { ...getLLMConfig(), ...config };
+  return createProvider(finalConfig).infill(prefix, suffix, options);
+}
+
+/**
+ * EMBEDDING GENERATOR
+ * ===================
+ * 
+ * Asks the Ollama server at `jarnox.baseUrl` for the embedding of a text
+ * (used by the workspace index). Embeddings always use Ollama's API, so
+ * they need an Ollama server whatever `jarnox.provider` says.
+ * 
+ * @param text - Text to embed
+ * @param model - Embedding model (like 'nomic-embed-text')
+ * @param options - Abort signal
+ * @returns The embedding vector
+ */
+export async function generateEmbedding(
+  text: string,
+  model: string,
+  options: GenerationOptions = {}
+): Promise<number[]> {
+  return new OllamaProvider({ ...getLLMConfig(), provider: 'ollama' }).embed(text, model, options);
 }
 
 /**
  * OLLAMA API CALLER
  * =================
  * 
- * This is the main function that sends your request to the AI model
- * and gets back a response. It handles all the network communication
- * and error checking.
+ * Sends a prompt straight to an Ollama server, whatever provider is
+ * configured. Kept for callers that were written before providers
+ * existed; new code should use generateText().
  * 
  * @param prompt - The complete prompt to send to the AI
- * @param config - Configuration settings (or uses defaults)
+ * @param config - Overrides for the current `jarnox.*` settings
+ * @param options - Streaming callbacks and abort signal
  * @returns Promise that resolves to the AI's response text
- * @throws Error if the API call fails
  */
 export async function callOllamaAPI(
   prompt: string, 
-  config: Partial<LLMConfig> = {}
+  config: Partial<LLMConfig> = {},
+  options: GenerationOptions = {}
 ): Promise<string> {
+  const finalConfig = { ...getLLMConfig(), ...config, provider: 'ollama' as const };
+  return new OllamaProvider(finalConfig).generate(prompt, options);
+}
+
+/**
+ * MODEL SIZE FORMATTER
+ * ====================
+ * 
+ * Turns a byte count into a short human-readable size.
+ * 
+ * @param bytes - Size in bytes
+ * @returns Text like '4.7 GB' or '850 MB'
+ */
+export function formatModelSize(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes <= 0) {
+    return '';
+  }
   
-  // Merge user config with defaults
-  const finalConfig = { ...DEFAULT_LLM_CONFIG, ...config };
-  
-  // Prepare the data to send to the AI server
-  const requestPayload = {
-    model: finalConfig.modelName,
-    prompt: prompt,
-    temperature: finalConfig.temperature,
-    max_tokens: finalConfig.maxTokens,
-    stream: finalConfig.stream,
-  };
-
-  console.log('Sending request to Ollama:', {
-    url: `${finalConfig.baseUrl}/api/generate`,
-    model: finalConfig.modelName,
-    promptLength: prompt.length
-  });
-
-  try {
-    // Send the HTTP request to the Ollama server
-    const response = await fetch(`${finalConfig.baseUrl}/api/generate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(requestPayload),
-    });
-
-    // Check if the HTTP request was successful
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    // Get the response text from the server
-    const responseText = await response.text();
-    
-    // Try to parse as a single JSON response first
-    try {
-      const jsonResponse = JSON.parse(responseText) as any;
-      if (typeof jsonResponse?.response === 'string') {
-        return jsonResponse.response;
-      }
-    } catch (parseError) {
-      // If single JSON parsing fails, try NDJSON format
-      console.log('Single JSON parse failed, trying NDJSON format...');
-    }
-
-    // Handle NDJSON format (multiple JSON objects, one per line)
-    const lines = responseText.split(/\r?\n/).filter(line => line.trim() !== '');
-    if (lines.length > 1) {
-      const combinedResponse = lines
-        .map((line) => {
-          try { 
-            return (JSON.parse(line) as any).response || ''; 
-          } catch { 
-            return ''; 
-          }
-        })
-        .join('');
-      
-      if (combinedResponse) {
-        return combinedResponse;
-      }
-    }
-
-    // If we can't parse the response, throw an error
-    throw new Error(`Unexpected response format from server: ${responseText.slice(0, 200)}...`);
-
-  } catch (error) {
-    console.error('Error calling Ollama API:', error);
-    
-    // Provide helpful error messages
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error(`Cannot connect to Ollama server at ${finalConfig.baseUrl}. Is the server running?`);
-    }
-    
-    throw error;
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
   }
+  
+  const rounded = value >= 100 || unitIndex === 0 ? Math.round(value).toString() : value.toFixed(1);
+  return `${rounded} ${units[unitIndex]}`;
+}
+
+/**
+ * MODEL LABEL FORMATTER
+ * =====================
+ * 
+ * Builds the text shown for a model in the sidebar dropdown.
+ * 
+ * @param model - Model details
+ * @returns Text like 'qwen2.5-coder:7b · 4.4 GB · qwen2 · 7.6B · Q4_K_M'
+ */
+export function formatModelLabel(model: ModelInfo): string {
+  return [
+    model.name,
+    formatModelSize(model.size),
+    model.family,
+    model.parameterSize,
+    model.quantization
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * AVAILABLE MODEL LISTER
+ * ======================
+ * 
+ * Asks the configured server which models it can run
+ * (`/api/tags` for Ollama, `/v1/models` for the others).
+ * 
+ * @param config - Overrides for the current `jarnox.*` settings
+ * @returns Available models sorted by name
+ * @throws Error if the server cannot be reached or answers with an error
+ */
+export async function listAvailableModels(config: Partial<LLMConfig> = {}): Promise<ModelInfo[]> {
+  const finalConfig = { ...getLLMConfig(), ...config };
+  return createProvider(finalConfig).listModels();
 }
 
 /**
@@ -194,19 +317,47 @@ export async function callOllamaAPI(
  * 
  * @param userRequest - What the user typed
  * @param modelName - Which AI model to use (optional, uses default)
+ * @param options - Streaming callbacks and abort signal passed through to the API call
+ * @param extras - Editor context and other prompt additions
  * @returns Promise that resolves to the AI's response
  */
 export async function generateResponseForUser(
   userRequest: string, 
-  modelName?: string
+  modelName?: string,
+  options: GenerationOptions = {},
+  extras: PromptExtras = {}
 ): Promise<string> {
   
   // Build the detailed prompt for the AI
-  const fullPrompt = buildPromptForModel(userRequest);
+  const fullPrompt = buildPromptForModel(userRequest, extras);
   
   // Prepare config with custom model name if provided
   const config = modelName ? { modelName } : {};
   
   // Send to AI and return response
-  return callOllamaAPI(fullPrompt, config);
-}
\ No newline at end of file
+  return generateText(fullPrompt, config, options);
+}
+
+/**
+ * CHAT RESPONSE GENERATOR
+ * =======================
+ * 
+ * Sends a whole conversation (system prompt, earlier turns and the new
+ * request) and returns the model's reply.
+ * 
+ * @param messages - The conversation, oldest first
+ * @param modelName - Which AI model to use (optional, uses default)
+ * @param options - Streaming callbacks and abort signal
+ * @param overrides - Other settings to change for this request (like the temperature)
+ * @returns Promise that resolves to the AI's reply
+ * @throws RequestCancelledError if the caller aborted the request
+ */
+export async function generateChatResponse(
+  messages: ChatMessage[],
+  modelName?: string,
+  options: GenerationOptions = {},
+  overrides: Partial<LLMConfig> = {}
+): Promise<string> {
+  const config = { ...getLLMConfig(), ...(modelName ? { modelName } : {}), ...overrides };
+  return createProvider(config).chat(messages, options);
+}
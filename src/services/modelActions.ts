@@ -8,10 +8,39 @@
  * When the AI wants to perform file operations instead of just generating code,
  * it sends back a JSON object with instructions. This module processes those
  * instructions and performs the actual file operations in VS Code.
+ * 
+ * File changes are never written straight away: each one is shown as a diff
+ * first, and only content the user accepts is written to disk. In-place
+ * edits (ranges and patches) are applied to the open document so they can
+ * be undone with Ctrl+Z, and renames and deletes go through a
+ * WorkspaceEdit for the same reason.
+ * 
+ * Every action is checked against the fields its type needs. A reply that
+ * looks like an action but is broken (invalid JSON, a missing field) is
+ * sent back to the model to be fixed, instead of being pasted into the
+ * editor as code (see repairModelActions()).
+ * 
+ * Every path is checked against the file action policy before anything
+ * is shown or written (see fileActionPolicy.ts): paths outside the
+ * workspace, protected paths such as `.git` or `.env`, links leading
+ * elsewhere and oversized writes are refused with the reason.
  */
 
 import * as vscode from 'vscode';
-import { stripComments, unwrapCodeFence, insertTextAtCursors } from '../utils/textProcessor';
+import { cleanGeneratedCode, insertTextAtCursors, type CommentHandling } from '../utils/textProcessor';
+import { confirmFileChange } from './diffPreview';
+import { readSetting } from './configService';
+import {
+  documentSnapshot,
+  fileSnapshot,
+  renameSnapshot,
+  restoreSnapshots,
+  type ChangeSnapshot
+} from './changeSnapshots';
+import { parseUnifiedDiff, applyPatchHunks, PatchError, type FilePatch } from '../utils/patchApplier';
+import { checkActionTarget, loadFileActionPolicy } from './fileActionPolicy';
+import { findFolderIndex, splitFolderPrefix } from '../utils/folderPaths';
+import { normalizeActionPath } from '../utils/pathPolicy';
 
 /**
  * MODEL ACTION TYPES
@@ -21,80 +50,468 @@ import { stripComments, unwrapCodeFence, insertTextAtCursors } from '../utils/te
  * - create_file: Make a new file with specific content
  * - append_file: Add content to the end of an existing file
  * - insert_code: Put code at the current cursor position in the editor
+ * - replace_selection: Replace the selected text in the editor
+ * - replace_range: Replace a line/column range or an exact piece of text
+ *   ("anchor") in a file, or in the current editor when there is no path
+ * - rename_file: Move a file to newPath
+ * - delete_file: Delete a file
+ * - apply_patch: Apply a unified diff (like `git diff` output)
+ * 
+ * Line and column numbers are 1-based. Without columns, replace_range
+ * replaces whole lines startLine..endLine (the final line break is kept).
+ * endColumn points just past the last replaced character.
+ * 
+ * In a multi-root workspace, paths name their folder with a prefix
+ * ("api:src/index.ts") or the workspace field (see utils/folderPaths.ts).
  */
 export type ModelAction = {
-  action: 'create_file' | 'append_file' | 'insert_code';
-  path?: string;    // File path (required for create_file and append_file)
-  content?: string; // The text/code content to write or insert
+  action:
+    | 'create_file'
+    | 'append_file'
+    | 'insert_code'
+    | 'replace_selection'
+    | 'replace_range'
+    | 'rename_file'
+    | 'delete_file'
+    | 'apply_patch';
+  path?: string;        // File path (required for file actions, optional for replace_range)
+  content?: string;     // The text/code content to write or insert
+  newPath?: string;     // rename_file: where the file should end up
+  startLine?: number;   // replace_range: first line to replace
+  startColumn?: number; // replace_range: first character to replace
+  endLine?: number;     // replace_range: last line to replace (defaults to startLine)
+  endColumn?: number;   // replace_range: character after the last one replaced
+  anchor?: string;      // replace_range: exact text to replace instead of a line range
+  patch?: string;       // apply_patch: the unified diff
+  workspace?: string;   // Name of the workspace folder the paths are in (multi-root workspaces)
 };
 
 /**
- * ACTION PARSER
+ * ACTION RESULT
  * =============
  * 
- * This function looks at the AI's response and tries to find a JSON object
- * that contains action instructions. The AI might send back regular text
- * with a JSON object embedded somewhere in it.
+ * What happened when an action was executed:
+ * - applied: the change was made; `snapshots` record the state before it
+ * - skipped: the user rejected the change, nothing was modified
+ * - failed: the action could not run (no editor, bad path, ...)
+ */
+export interface ActionResult {
+  status: 'applied' | 'skipped' | 'failed';
+  message?: string;
+  snapshots: ChangeSnapshot[];
+}
+
+/** Action names the model is allowed to use */
+const VALID_ACTIONS: ModelAction['action'][] = [
+  'create_file',
+  'append_file',
+  'insert_code',
+  'replace_selection',
+  'replace_range',
+  'rename_file',
+  'delete_file',
+  'apply_patch'
+];
+
+/** ModelAction fields that hold text */
+const STRING_FIELDS = ['path', 'content', 'newPath', 'anchor', 'patch', 'workspace'] as const;
+
+/** ModelAction fields that hold 1-based line or column numbers */
+const POSITION_FIELDS = ['startLine', 'startColumn', 'endLine', 'endColumn'] as const;
+
+/** Finds text that was meant to be an action (or a plan of actions) */
+const ACTION_KEY_PATTERN = /[{,]\s*"actions?"\s*:/;
+
+/**
+ * ACTION PARSE RESULT
+ * ===================
  * 
- * @param responseText - The complete response from the AI model
- * @returns A parsed action object, or null if no valid action found
+ * What inspectModelActions() found in a reply.
  */
-export function parseModelAction(responseText: string): ModelAction | null {
-  // Clean up the input text
-  const cleanText = (responseText || '').trim();
-  if (!cleanText) return null;
+export interface ActionParseResult {
+  /** Valid actions, in the order they should run */
+  actions: ModelAction[];
+  
+  /** Why action-like parts of the reply were rejected (empty when none were) */
+  problems: string[];
+}
+
+/**
+ * ACTION CHECK RESULT
+ * ===================
+ * 
+ * toModelAction() returns an action, a problem, or neither (the value
+ * does not try to be an action at all).
+ */
+interface ActionCheck {
+  action?: ModelAction;
+  problem?: string;
+}
+
+/**
+ * ACTION VALIDATOR
+ * ================
+ * 
+ * Checks that a parsed JSON value is an action we support, with the right
+ * fields of the right types, and copies only the fields we know about.
+ * 
+ * @param value - Any parsed JSON value
+ * @param requireAction - Treat a value without "action" as a broken action
+ *   (entries of an "actions" list must all be actions)
+ * @returns The validated action, or what is wrong with it
+ */
+function toModelAction(value: unknown, requireAction = false): ActionCheck {
+  const parsedObject = value as Record<string, unknown> | null;
   
-  // Look for JSON object boundaries in the text
-  const startBrace = cleanText.indexOf('{');
-  const endBrace = cleanText.lastIndexOf('}');
+  // Check if it has the required 'action' field
+  if (typeof parsedObject !== 'object' || parsedObject === null || Array.isArray(parsedObject)) {
+    return requireAction ? { problem: 'expected an object like {"action": ...}' } : {};
+  }
+  if (typeof parsedObject.action !== 'string') {
+    return requireAction || 'action' in parsedObject ? { problem: '"action" must be the name of an action' } : {};
+  }
   
-  // If no braces found, this isn't a JSON action
-  if (startBrace === -1 || endBrace === -1 || endBrace <= startBrace) {
-    return null;
+  // Validate that the action type is supported
+  const actionType = parsedObject.action as ModelAction['action'];
+  if (!VALID_ACTIONS.includes(actionType)) {
+    console.log(`Unsupported action type: ${actionType}`);
+    return { problem: `unsupported action "${actionType}" (use one of: ${VALID_ACTIONS.join(', ')})` };
   }
   
-  // Extract the potential JSON part
-  const jsonCandidate = cleanText.slice(startBrace, endBrace + 1);
+  // Build the validated action object
+  const action: ModelAction = { action: actionType };
   
-  try {
-    // Try to parse as JSON
-    const parsedObject = JSON.parse(jsonCandidate);
-    
-    // Check if it has the required 'action' field
-    if (typeof parsedObject?.action !== 'string') {
-      return null;
+  // Add optional fields if present, rejecting values of the wrong type
+  for (const field of STRING_FIELDS) {
+    const value = parsedObject[field];
+    if (typeof value === 'string') {
+      action[field] = value;
+    } else if (value !== undefined && value !== null) {
+      return { problem: `${actionType}: "${field}" must be a string` };
     }
-    
-    // Validate that the action type is supported
-    const actionType = parsedObject.action as string;
-    const validActions = ['create_file', 'append_file', 'insert_code'];
-    
-    if (!validActions.includes(actionType)) {
-      console.log(`Unsupported action type: ${actionType}`);
-      return null;
+  }
+  
+  for (const field of POSITION_FIELDS) {
+    const value = parsedObject[field];
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 1) {
+      action[field] = value;
+    } else if (value !== undefined && value !== null) {
+      return { problem: `${actionType}: "${field}" must be a whole number of 1 or more` };
+    }
+  }
+  
+  const problem = findActionProblem(action);
+  if (problem) {
+    console.log(`Invalid ${actionType} action: ${problem}`);
+    return { problem: `${actionType}: ${problem}` };
+  }
+  
+  return { action };
+}
+
+/**
+ * ACTION FIELD CHECKER
+ * ====================
+ * 
+ * Checks that an action has the fields its type needs.
+ * 
+ * @param action - Action with its known fields copied over
+ * @returns What is wrong, or undefined when the action can run
+ */
+function findActionProblem(action: ModelAction): string | undefined {
+  switch (action.action) {
+    case 'create_file':
+      return !action.path ? 'path is required' : undefined;
+      
+    case 'append_file':
+      if (!action.path) {
+        return 'path is required';
+      }
+      return action.content === undefined ? 'content is required' : undefined;
+      
+    case 'insert_code':
+    case 'replace_selection':
+      return action.content === undefined ? 'content is required' : undefined;
+      
+    case 'replace_range':
+      if (action.content === undefined) {
+        return 'content is required';
+      }
+      if (action.anchor) {
+        return undefined;
+      }
+      if (action.startLine === undefined) {
+        return 'either anchor or startLine is required';
+      }
+      if ((action.endLine ?? action.startLine) < action.startLine) {
+        return 'endLine is before startLine';
+      }
+      return undefined;
+      
+    case 'rename_file':
+      return !action.path || !action.newPath ? 'path and newPath are required' : undefined;
+      
+    case 'delete_file':
+      return !action.path ? 'path is required' : undefined;
+      
+    case 'apply_patch':
+      if (!action.patch) {
+        return 'patch is required';
+      }
+      try {
+        parseUnifiedDiff(action.patch);
+        return undefined;
+      } catch (error) {
+        return error instanceof Error ? error.message : 'patch could not be read';
+      }
+      
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * JSON VALUE SCANNER
+ * ==================
+ * 
+ * Finds every top-level JSON object or array embedded in a piece of text.
+ * Brackets are matched while skipping over string literals, so braces
+ * inside file content do not confuse the scanner.
+ * 
+ * @param text - Text that may contain JSON values between other words
+ * @returns The parsed values, in the order they appear
+ */
+export function extractJsonValues(text: string): unknown[] {
+  const values: unknown[] = [];
+  let index = 0;
+  
+  while (index < text.length) {
+    const char = text[index];
+    if (char !== '{' && char !== '[') {
+      index++;
+      continue;
     }
     
-    // Build the validated action object
-    const action: ModelAction = { 
-      action: actionType as ModelAction['action'] 
-    };
+    const end = findClosingBracket(text, index);
+    if (end !== -1) {
+      try {
+        values.push(JSON.parse(text.slice(index, end + 1)));
+        index = end + 1;
+        continue;
+      } catch (parseError) {
+        // Not valid JSON (for example "[note]" in prose), keep scanning
+      }
+    }
+    index++;
+  }
+  
+  return values;
+}
+
+/**
+ * CLOSING BRACKET FINDER
+ * ======================
+ * 
+ * @param text - Text to scan
+ * @param start - Index of an opening `{` or `[`
+ * @returns Index of the matching closing bracket, or -1 if it is never closed
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
     
-    // Add optional fields if present
-    if (typeof parsedObject.path === 'string') {
-      action.path = parsedObject.path;
+    if (inString) {
+      if (char === '\\') {
+        i++; // Skip the escaped character
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
     }
     
-    if (typeof parsedObject.content === 'string') {
-      action.content = parsedObject.content;
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
     }
+  }
+  
+  return -1;
+}
+
+/**
+ * ACTION INSPECTOR
+ * ================
+ * 
+ * Finds every action in the AI's response, and every part of it that was
+ * meant to be an action but cannot run. The model may answer with:
+ * - a single action object: {"action": ...}
+ * - a plan object: {"actions": [{"action": ...}, ...]}
+ * - a JSON array of actions: [{"action": ...}, ...]
+ * - several action objects one after another
+ * 
+ * JSON without an "action" key (a package.json snippet in a code answer)
+ * is neither an action nor a problem. Text with an "action" key that is
+ * not valid JSON is a problem.
+ * 
+ * @param responseText - The complete response from the AI model
+ * @param requireAction - Count a reply without any action as a problem
+ *   (for replies that must be file actions)
+ * @returns The valid actions in the order they should run, and the problems
+ */
+export function inspectModelActions(responseText: string, requireAction = false): ActionParseResult {
+  const cleanText = (responseText || '').trim();
+  const result: ActionParseResult = { actions: [], problems: [] };
+  if (!cleanText) {
+    return requireAction ? { ...result, problems: ['the reply is empty; it must be JSON file actions'] } : result;
+  }
+  
+  for (const value of extractJsonValues(cleanText)) {
+    const plan = (value as { actions?: unknown })?.actions;
+    const isList = Array.isArray(value) || Array.isArray(plan);
+    const candidates = Array.isArray(value) ? value : Array.isArray(plan) ? plan : [value];
     
-    return action;
+    // A bare array is only a plan if it holds at least one action
+    if (Array.isArray(value) && !value.some((entry) => typeof entry?.action === 'string')) {
+      continue;
+    }
     
-  } catch (parseError) {
-    // JSON parsing failed, so this isn't a valid action
-    console.log('Failed to parse JSON from model response:', parseError);
-    return null;
+    for (const candidate of candidates) {
+      const check = toModelAction(candidate, isList);
+      if (check.action) {
+        result.actions.push(check.action);
+      } else if (check.problem) {
+        result.problems.push(check.problem);
+      }
+    }
+  }
+  
+  if (result.actions.length === 0 && result.problems.length === 0) {
+    const brokenJson = describeBrokenActionJson(cleanText);
+    if (brokenJson) {
+      result.problems.push(brokenJson);
+    } else if (requireAction) {
+      result.problems.push('the reply contains no action; it must be JSON file actions');
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * BROKEN JSON DESCRIBER
+ * =====================
+ * 
+ * @param text - A reply in which no JSON value could be read as an action
+ * @returns Why the JSON around the first "action" key is not valid, or
+ *   undefined when the reply does not try to be an action
+ */
+function describeBrokenActionJson(text: string): string | undefined {
+  const key = ACTION_KEY_PATTERN.exec(text);
+  const start = key ? text.lastIndexOf('{', key.index) : -1;
+  if (start === -1) {
+    return undefined;
+  }
+  
+  const end = findClosingBracket(text, start);
+  if (end === -1) {
+    return 'the JSON is incomplete (it was cut off, or a closing bracket is missing)';
+  }
+  try {
+    JSON.parse(text.slice(start, end + 1));
+    return undefined;
+  } catch (error) {
+    return `the JSON is not valid: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * MULTI-ACTION PARSER
+ * ===================
+ * 
+ * @param responseText - The complete response from the AI model
+ * @returns The valid actions in the order they should run (entries that
+ *   are not valid actions are dropped; empty if none found)
+ */
+export function parseModelActions(responseText: string): ModelAction[] {
+  return inspectModelActions(responseText).actions;
+}
+
+/**
+ * REPAIR REQUEST BUILDER
+ * ======================
+ * 
+ * @param problems - What was wrong with the model's last reply
+ * @returns The message asking the model to send its actions again
+ */
+export function buildRepairRequest(problems: string[]): string {
+  return [
+    'Your reply could not be used as file actions:',
+    ...problems.map((problem) => `- ${problem}`),
+    '',
+    'Reply again with only the corrected JSON and nothing else: a single action object, or {"actions": [...]} for several steps.',
+    'If you meant to insert code at the cursor, use {"action": "insert_code", "content": "..."}.'
+  ].join('\n');
+}
+
+/**
+ * ACTION REPAIR LOOP
+ * ==================
+ * 
+ * Checks the model's reply and, while it holds broken actions, sends the
+ * problems back and asks for a corrected reply, up to `maxAttempts` times.
+ * 
+ * @param response - The model's reply
+ * @param requestRepair - Sends the repair request (with the reply it is
+ *   about) to the model and returns the new reply
+ * @param maxAttempts - Most repair requests to send (0 = never)
+ * @param requireAction - The reply must hold at least one action (File
+ *   Action mode), so plain text is sent back too
+ * @returns The last reply, what was found in it, and how many repair
+ *   requests were sent
+ */
+export async function repairModelActions(
+  response: string,
+  requestRepair: (repairRequest: string, previousResponse: string) => Promise<string>,
+  maxAttempts: number,
+  requireAction = false
+): Promise<ActionParseResult & { response: string; attempts: number }> {
+  let parsed = inspectModelActions(response, requireAction);
+  let attempts = 0;
+  
+  while (parsed.problems.length > 0 && attempts < maxAttempts) {
+    attempts++;
+    console.log(`Asking the model to fix its actions (attempt ${attempts} of ${maxAttempts}):`, parsed.problems);
+    response = await requestRepair(buildRepairRequest(parsed.problems), response);
+    parsed = inspectModelActions(response, requireAction);
   }
+  
+  return { ...parsed, response, attempts };
+}
+
+/**
+ * ACTION PARSER
+ * =============
+ * 
+ * This function looks at the AI's response and tries to find a JSON object
+ * that contains action instructions. The AI might send back regular text
+ * with a JSON object embedded somewhere in it.
+ * 
+ * Use parseModelActions() when the response may contain a whole plan.
+ * 
+ * @param responseText - The complete response from the AI model
+ * @returns The first valid action, or null if no valid action found
+ */
+export function parseModelAction(responseText: string): ModelAction | null {
+  return parseModelActions(responseText)[0] ?? null;
 }
 
 /**
@@ -105,19 +522,33 @@ export function parseModelAction(responseText: string): ModelAction | null {
  * It handles file creation, file appending, and code insertion.
  * 
  * @param action - The action to perform (from parseModelAction)
+ * @returns Whether the change was made, and how to undo it
  * @throws Error if the action cannot be completed
  */
-export async function executeModelAction(action: ModelAction): Promise<void> {
+export async function executeModelAction(action: ModelAction): Promise<ActionResult> {
   console.log('Executing model action:', action);
   
-  // Handle code insertion (no file path needed)
-  if (action.action === 'insert_code') {
-    await handleCodeInsertion(action.content);
-    return;
+  switch (action.action) {
+    // Editor actions (no file path needed)
+    case 'insert_code':
+      return handleCodeInsertion(action.content);
+    case 'replace_selection':
+      return handleSelectionReplacement(action.content ?? '');
+      
+    // In-place edits, renames and deletes
+    case 'replace_range':
+      return handleRangeReplacement(action);
+    case 'rename_file':
+      return handleRename(action);
+    case 'delete_file':
+      return handleDelete(action);
+    case 'apply_patch':
+      return handlePatch(action);
+      
+    // For file operations, we need a workspace and a path
+    default:
+      return handleFileOperation(action);
   }
-  
-  // For file operations, we need a workspace and a path
-  await handleFileOperation(action);
 }
 
 /**
@@ -129,30 +560,39 @@ export async function executeModelAction(action: ModelAction): Promise<void> {
  * currently working on.
  * 
  * @param content - The code content to insert
+ * @returns The outcome, with a snapshot of the document before insertion
  */
-async function handleCodeInsertion(content?: string): Promise<void> {
+async function handleCodeInsertion(content?: string): Promise<ActionResult> {
   // Check if there's an active editor open
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
-    vscode.window.showInformationMessage(
-      'Please open a file in the editor to insert code.'
-    );
-    return;
+    const message = 'Please open a file in the editor to insert code.';
+    vscode.window.showInformationMessage(message);
+    return { status: 'failed', message, snapshots: [] };
   }
   
   // Clean up the content and insert it
   const codeToInsert = content ?? '';
-  const cleanCode = stripComments(unwrapCodeFence(codeToInsert));
+  const cleanCode = cleanGeneratedCode(
+    codeToInsert,
+    editor.document.languageId,
+    readSetting<CommentHandling>('commentHandling', 'strip')
+  );
   
   if (!cleanCode) {
-    vscode.window.showWarningMessage('No code content to insert.');
-    return;
+    const message = 'No code content to insert.';
+    vscode.window.showWarningMessage(message);
+    return { status: 'failed', message, snapshots: [] };
   }
   
-  await insertTextAtCursors(editor, cleanCode);
+  const snapshot = documentSnapshot(editor.document);
+  await insertTextAtCursors(editor, cleanCode, {
+    format: readSetting<boolean>('formatOnInsert', false)
+  });
   vscode.window.showInformationMessage(
     `Inserted ${cleanCode.length} characters of code.`
   );
+  return { status: 'applied', snapshots: [snapshot] };
 }
 
 /**
@@ -160,40 +600,42 @@ async function handleCodeInsertion(content?: string): Promise<void> {
  * ======================
  * 
  * Handles creating new files or appending to existing files.
- * This includes creating any necessary parent directories.
+ * The proposed result is shown as a diff and only written once the user
+ * accepts it. Parent directories are created at that point too.
  * 
  * @param action - The file action to perform
+ * @returns The outcome, with a snapshot of the file before it was written
  */
-async function handleFileOperation(action: ModelAction): Promise<void> {
-  // Make sure we have a workspace open
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    vscode.window.showWarningMessage(
-      'No workspace folder is open. Cannot perform file operations. Please open a folder first.'
-    );
-    return;
+async function handleFileOperation(action: ModelAction): Promise<ActionResult> {
+  const target = await resolveWorkspacePath(action.path, action.workspace);
+  if ('status' in target) {
+    return target;
   }
+  const { workspaceRoot, sanitizedPath, pathSegments, uri: targetFileUri } = target;
   
-  // Make sure we have a file path
-  if (!action.path) {
-    vscode.window.showWarningMessage(
-      'No file path specified for file operation.'
-    );
-    return;
+  // Work out what the file would look like after the action
+  const existingContent = await readFileIfExists(targetFileUri);
+  const proposedContent = action.action === 'append_file'
+    ? buildAppendedContent(existingContent ?? '', action.content ?? '')
+    : action.content ?? '';
+  const sizeProblem = loadFileActionPolicy().checkWrite(proposedContent);
+  if (sizeProblem) {
+    return refuseAction(`Refused ${action.action} for ${sanitizedPath}: ${sizeProblem}.`);
   }
   
-  // Get the workspace root and build the full file path
-  const workspaceRoot = workspaceFolders[0].uri;
-  const sanitizedPath = sanitizeFilePath(action.path);
-  const pathSegments = sanitizedPath.split(/[\/\\]+/).filter(Boolean);
-  const targetFileUri = vscode.Uri.joinPath(workspaceRoot, ...pathSegments);
+  // Show the diff and wait for Accept / Edit / Reject
+  const approvedContent = await confirmFileChange({
+    targetUri: targetFileUri,
+    currentContent: existingContent,
+    proposedContent,
+    actionLabel: action.action
+  });
   
-  // Security check: make sure the file is within the workspace
-  if (!isPathWithinWorkspace(targetFileUri, workspaceRoot)) {
-    vscode.window.showErrorMessage(
-      'Refused to create file outside the workspace for security reasons.'
+  if (approvedContent === undefined) {
+    vscode.window.showInformationMessage(
+      `Skipped ${action.action} for ${sanitizedPath}. Nothing was written.`
     );
-    return;
+    return { status: 'skipped', snapshots: [] };
   }
   
   // Create parent directories if needed
@@ -204,11 +646,14 @@ async function handleFileOperation(action: ModelAction): Promise<void> {
   }
   
   // Perform the actual file operation
-  if (action.action === 'create_file') {
-    await createNewFile(targetFileUri, action.content ?? '');
-  } else if (action.action === 'append_file') {
-    await appendToFile(targetFileUri, action.content ?? '');
-  }
+  await writeFileContent(targetFileUri, approvedContent);
+  
+  const fileName = targetFileUri.path.split('/').pop();
+  vscode.window.showInformationMessage(
+    action.action === 'append_file' && existingContent !== undefined
+      ? `Appended content to: ${fileName}`
+      : `${existingContent === undefined ? 'Created' : 'Updated'} file: ${fileName}`
+  );
   
   // Open the file in the editor so the user can see the result
   try {
@@ -218,94 +663,630 @@ async function handleFileOperation(action: ModelAction): Promise<void> {
     console.log('Could not open created file in editor:', error);
     // Not a critical error, just log it
   }
+  
+  return { status: 'applied', snapshots: [fileSnapshot(targetFileUri, existingContent)] };
 }
 
 /**
- * FILE PATH SANITIZER
- * ===================
+ * WORKSPACE PATH
+ * ==============
+ * 
+ * A path from the model, resolved against the workspace.
+ */
+interface WorkspacePath {
+  workspaceRoot: vscode.Uri;
+  folderName: string;
+  sanitizedPath: string;
+  pathSegments: string[];
+  uri: vscode.Uri;
+}
+
+/**
+ * WORKSPACE PATH RESOLVER
+ * =======================
  * 
- * Cleans up file paths to remove dangerous characters and ensure
- * they follow a safe format.
+ * Turns a relative path from the model into a file URI inside a
+ * workspace folder: the one named by a `folder:` prefix on the path or by
+ * the action's workspace field, otherwise the only folder. When several
+ * folders are open and none is named, the user picks one (see
+ * chooseWorkspaceFolder()). Shows a warning and returns a failed result
+ * when there is no workspace, no path or no folder with the given name,
+ * and an error with the reason when the file action policy refuses the
+ * path.
  * 
- * @param path - The raw file path from the AI
- * @returns A cleaned, safe file path
+ * @param rawPath - Path as written by the model
+ * @param folderName - Folder from the action's workspace field
+ * @returns The resolved path, or a failed (or, when no folder is picked,
+ *   skipped) ActionResult
  */
-function sanitizeFilePath(path: string): string {
-  // Remove leading slashes and backslashes
-  return path.replace(/^([/\\])+/, '');
+async function resolveWorkspacePath(
+  rawPath: string | undefined,
+  folderName?: string
+): Promise<WorkspacePath | ActionResult> {
+  // Make sure we have a workspace open
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    return failAction('No workspace folder is open. Cannot perform file operations. Please open a folder first.');
+  }
+  
+  // Make sure we have a file path
+  if (!rawPath) {
+    return failAction('No file path specified for file operation.');
+  }
+  
+  // Find the workspace folder the path belongs to
+  const { folder: prefixFolder, path } = splitFolderPrefix(rawPath);
+  const requestedFolder = prefixFolder ?? folderName?.trim();
+  let folder: vscode.WorkspaceFolder | undefined;
+  if (requestedFolder) {
+    folder = workspaceFolders[findFolderIndex(requestedFolder, workspaceFolders.map((candidate) => candidate.name))];
+    if (!folder) {
+      return failAction(
+        `There is no workspace folder named "${requestedFolder}" (open folders: ${workspaceFolders.map((candidate) => candidate.name).join(', ')}).`
+      );
+    }
+  } else {
+    folder = workspaceFolders.length === 1 ? workspaceFolders[0] : await chooseWorkspaceFolder(path, workspaceFolders);
+    if (!folder) {
+      vscode.window.showInformationMessage(`No workspace folder picked for ${path}. Nothing was changed.`);
+      return { status: 'skipped', snapshots: [] };
+    }
+  }
+  
+  // Security check: normalize the path and apply the file action policy
+  const workspaceRoot = folder.uri;
+  const checked = await checkActionTarget(workspaceRoot, path);
+  if (checked.path === undefined) {
+    return refuseAction(`Refused to use the path "${rawPath}": ${checked.reason}.`);
+  }
+  
+  const sanitizedPath = checked.path;
+  const pathSegments = sanitizedPath.split('/');
+  const uri = vscode.Uri.joinPath(workspaceRoot, ...pathSegments);
+  return { workspaceRoot, folderName: folder.name, sanitizedPath, pathSegments, uri };
 }
 
 /**
- * WORKSPACE SECURITY CHECK
+ * WORKSPACE FOLDER CHOOSER
  * ========================
  * 
- * Makes sure a file path is within the workspace folder and not trying
- * to access files outside of it (which could be a security risk).
+ * Picks the folder for a path that does not name one, in a multi-root
+ * workspace. If the file exists in exactly one folder, that folder is
+ * used; otherwise the user picks one from a quick pick.
  * 
- * @param filePath - The full URI of the target file
- * @param workspaceRoot - The workspace root URI
- * @returns true if the file is safely within the workspace
+ * @param path - Path relative to the folder
+ * @param folders - The open workspace folders
+ * @returns The chosen folder, or undefined if the user cancelled
  */
-function isPathWithinWorkspace(filePath: vscode.Uri, workspaceRoot: vscode.Uri): boolean {
-  const workspaceRootPath = workspaceRoot.path.endsWith('/') 
-    ? workspaceRoot.path 
-    : workspaceRoot.path + '/';
+async function chooseWorkspaceFolder(
+  path: string,
+  folders: readonly vscode.WorkspaceFolder[]
+): Promise<vscode.WorkspaceFolder | undefined> {
+  const normalized = normalizeActionPath(path).path;
+  if (normalized === undefined) {
+    // The path policy refuses it with the reason
+    return folders[0];
+  }
   
-  return filePath.path.startsWith(workspaceRootPath);
+  const segments = normalized.split('/');
+  const existing: vscode.WorkspaceFolder[] = [];
+  for (const folder of folders) {
+    if (await pathExists(vscode.Uri.joinPath(folder.uri, ...segments))) {
+      existing.push(folder);
+    }
+  }
+  if (existing.length === 1) {
+    return existing[0];
+  }
+  
+  const candidates = existing.length > 1 ? existing : folders;
+  const picked = await vscode.window.showQuickPick(
+    candidates.map((folder) => ({ label: folder.name, description: folder.uri.fsPath, folder })),
+    {
+      placeHolder: `Which workspace folder is ${normalized} in?`,
+      ignoreFocusOut: true
+    }
+  );
+  return picked?.folder;
 }
 
 /**
- * NEW FILE CREATOR
- * ================
+ * REFUSAL HELPER
+ * ==============
  * 
- * Creates a brand new file with the specified content.
- * If a file already exists at that location, it will be overwritten.
+ * Shows an error for an action the file action policy does not allow.
  * 
- * @param fileUri - Where to create the file
- * @param content - What to put in the file
+ * @param message - What was refused, and why
+ * @returns A failed ActionResult
  */
-async function createNewFile(fileUri: vscode.Uri, content: string): Promise<void> {
-  const fileData = new TextEncoder().encode(content);
-  await vscode.workspace.fs.writeFile(fileUri, fileData);
+function refuseAction(message: string): ActionResult {
+  console.log(message);
+  vscode.window.showErrorMessage(message);
+  return { status: 'failed', message, snapshots: [] };
+}
+
+/**
+ * FAILURE HELPER
+ * ==============
+ * 
+ * Shows a warning and builds the matching failed result.
+ * 
+ * @param message - What went wrong
+ * @returns A failed ActionResult
+ */
+function failAction(message: string): ActionResult {
+  vscode.window.showWarningMessage(message);
+  return { status: 'failed', message, snapshots: [] };
+}
+
+/**
+ * SELECTION REPLACEMENT HANDLER
+ * =============================
+ * 
+ * Replaces every non-empty selection in the active editor with the
+ * model's code, as one undoable edit.
+ * 
+ * @param content - Replacement code
+ * @returns The outcome, with a snapshot of the document before the edit
+ */
+async function handleSelectionReplacement(content: string): Promise<ActionResult> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return failAction('Please open a file in the editor to replace a selection.');
+  }
+  
+  const selections = editor.selections.filter((selection) => !selection.isEmpty);
+  if (selections.length === 0) {
+    return failAction('Select the code to replace first.');
+  }
+  
+  const replacement = cleanGeneratedCode(
+    content,
+    editor.document.languageId,
+    readSetting<CommentHandling>('commentHandling', 'strip')
+  );
+  const snapshot = documentSnapshot(editor.document);
+  const replaced = await insertTextAtCursors(editor, replacement, {
+    selections,
+    format: readSetting<boolean>('formatOnInsert', false)
+  });
+  if (replaced.length === 0) {
+    return failAction('The editor did not accept the replacement.');
+  }
   
   vscode.window.showInformationMessage(
-    `Created file: ${fileUri.path.split('/').pop()}`
+    `Replaced ${selections.length} selection${selections.length === 1 ? '' : 's'}.`
   );
+  return { status: 'applied', snapshots: [snapshot] };
 }
 
 /**
- * FILE APPENDER
+ * RANGE LOCATOR
  * =============
  * 
- * Adds content to the end of an existing file. If the file doesn't exist,
- * it creates a new one. It's smart about adding newlines so content doesn't
- * get squished together.
+ * Works out which part of a text a replace_range action refers to,
+ * either by anchor text (which must appear exactly once) or by
+ * 1-based line and column numbers.
  * 
- * @param fileUri - Which file to append to
- * @param content - What to add to the file
+ * @param text - Full document text
+ * @param action - The replace_range action
+ * @returns Start and end offsets of the text to replace
+ * @throws Error describing why the range does not fit the text
  */
-async function appendToFile(fileUri: vscode.Uri, content: string): Promise<void> {
-  let existingContent = '';
+export function locateReplaceRange(text: string, action: ModelAction): { start: number; end: number } {
+  if (action.anchor) {
+    // Models write \n, but the document may use \r\n
+    const anchor = text.includes('\r\n') ? action.anchor.replace(/\r?\n/g, '\r\n') : action.anchor;
+    const first = text.indexOf(anchor);
+    if (first === -1) {
+      throw new Error('The anchor text was not found in the file.');
+    }
+    let count = 0;
+    for (let at = first; at !== -1; at = text.indexOf(anchor, at + 1)) {
+      count++;
+    }
+    if (count > 1) {
+      throw new Error(`The anchor text appears ${count} times; it must match exactly one place.`);
+    }
+    return { start: first, end: first + anchor.length };
+  }
   
-  // Try to read the existing file content
+  const lines = text.split('\n');
+  const startLine = action.startLine ?? 1;
+  const endLine = action.endLine ?? startLine;
+  if (endLine > lines.length) {
+    throw new Error(`Line ${endLine} is past the end of the file (${lines.length} lines).`);
+  }
+  
+  const lineStart = (line: number) => lines.slice(0, line - 1).reduce((sum, current) => sum + current.length + 1, 0);
+  const lineLength = (line: number) => lines[line - 1].replace(/\r$/, '').length;
+  const column = (line: number, value: number | undefined, fallback: number) =>
+    value === undefined ? fallback : Math.min(value - 1, lineLength(line));
+  
+  const start = lineStart(startLine) + column(startLine, action.startColumn, 0);
+  const end = lineStart(endLine) + column(endLine, action.endColumn, lineLength(endLine));
+  if (end < start) {
+    throw new Error('The end of the range is before its start.');
+  }
+  return { start, end };
+}
+
+/**
+ * RANGE REPLACEMENT HANDLER
+ * =========================
+ * 
+ * Replaces part of a file (or of the active editor when no path is given)
+ * after showing the change as a diff.
+ * 
+ * @param action - The replace_range action
+ * @returns The outcome, with a snapshot of the document before the edit
+ */
+async function handleRangeReplacement(action: ModelAction): Promise<ActionResult> {
+  let document: vscode.TextDocument;
+  if (action.path) {
+    const target = await resolveWorkspacePath(action.path, action.workspace);
+    if ('status' in target) {
+      return target;
+    }
+    try {
+      document = await vscode.workspace.openTextDocument(target.uri);
+    } catch (error) {
+      return failAction(`Cannot replace text in ${target.sanitizedPath}: the file does not exist.`);
+    }
+  } else {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return failAction('Please open a file in the editor, or give a path, to replace a range.');
+    }
+    document = editor.document;
+  }
+  
+  const currentText = document.getText();
+  let range: { start: number; end: number };
   try {
-    const existingData = await vscode.workspace.fs.readFile(fileUri);
-    existingContent = new TextDecoder().decode(existingData);
+    range = locateReplaceRange(currentText, action);
   } catch (error) {
-    // File doesn't exist yet, which is fine
-    console.log('File does not exist yet, will create new one');
+    return failAction(`Cannot replace range: ${error instanceof Error ? error.message : String(error)}`);
   }
   
-  // Combine existing content with new content, adding newline if needed
-  const needsNewline = existingContent !== '' && !existingContent.endsWith('\n');
-  const combinedContent = existingContent + (needsNewline ? '\n' : '') + content;
+  const eol = currentText.includes('\r\n') ? '\r\n' : '\n';
+  const replacement = (action.content ?? '').replace(/\r?\n/g, eol);
+  const proposedText = currentText.slice(0, range.start) + replacement + currentText.slice(range.end);
   
-  // Write the combined content back to the file
-  const fileData = new TextEncoder().encode(combinedContent);
-  await vscode.workspace.fs.writeFile(fileUri, fileData);
+  return reviewDocumentChange(document, proposedText, action.action);
+}
+
+/**
+ * DOCUMENT CHANGE REVIEWER
+ * ========================
+ * 
+ * Shows a proposed new text for an existing document as a diff and, once
+ * accepted, applies it to the document as a single undoable edit. The
+ * file is saved afterwards unless it already had unsaved changes.
+ * 
+ * @param document - Document to change
+ * @param proposedText - Full text the document would have
+ * @param actionLabel - Action name shown in the diff title
+ * @returns The outcome, with a snapshot of the document before the edit
+ */
+async function reviewDocumentChange(
+  document: vscode.TextDocument,
+  proposedText: string,
+  actionLabel: string
+): Promise<ActionResult> {
+  const displayPath = vscode.workspace.asRelativePath(document.uri);
+  const currentText = document.getText();
+  if (proposedText === currentText) {
+    vscode.window.showInformationMessage(`${displayPath} already matches the proposed change.`);
+    return { status: 'skipped', snapshots: [] };
+  }
+  const sizeProblem = loadFileActionPolicy().checkWrite(proposedText);
+  if (sizeProblem) {
+    return refuseAction(`Refused ${actionLabel} for ${displayPath}: ${sizeProblem}.`);
+  }
   
-  const fileName = fileUri.path.split('/').pop();
-  vscode.window.showInformationMessage(
-    `Appended content to: ${fileName}`
+  const approvedText = await confirmFileChange({
+    targetUri: document.uri,
+    currentContent: currentText,
+    proposedContent: proposedText,
+    actionLabel
+  });
+  if (approvedText === undefined) {
+    vscode.window.showInformationMessage(`Skipped ${actionLabel} for ${displayPath}. Nothing was changed.`);
+    return { status: 'skipped', snapshots: [] };
+  }
+  
+  const snapshot = documentSnapshot(document);
+  const wasDirty = document.isDirty;
+  if (!(await vscode.workspace.applyEdit(buildMinimalEdit(document, approvedText)))) {
+    return failAction(`Could not apply the change to ${displayPath}.`);
+  }
+  if (!wasDirty && !document.isUntitled) {
+    await document.save();
+  }
+  
+  vscode.window.showInformationMessage(`Updated ${displayPath} (${actionLabel}).`);
+  return { status: 'applied', snapshots: [snapshot] };
+}
+
+/**
+ * MINIMAL EDIT BUILDER
+ * ====================
+ * 
+ * Builds an edit that only touches the part of the document that
+ * actually changes, so cursors and folded regions elsewhere stay put.
+ * 
+ * @param document - Document being changed
+ * @param newText - Full text the document should have
+ * @returns WorkspaceEdit replacing just the changed middle section
+ */
+function buildMinimalEdit(document: vscode.TextDocument, newText: string): vscode.WorkspaceEdit {
+  const oldText = document.getText();
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(
+    document.uri,
+    new vscode.Range(document.positionAt(prefix), document.positionAt(oldText.length - suffix)),
+    newText.slice(prefix, newText.length - suffix)
+  );
+  return edit;
+}
+
+/**
+ * RENAME HANDLER
+ * ==============
+ * 
+ * Moves a file to a new path inside the workspace after a confirmation.
+ * The move is a WorkspaceEdit, so open editors follow the file.
+ * 
+ * @param action - The rename_file action
+ * @returns The outcome, with a snapshot that moves the file back
+ */
+async function handleRename(action: ModelAction): Promise<ActionResult> {
+  const source = await resolveWorkspacePath(action.path, action.workspace);
+  if ('status' in source) {
+    return source;
+  }
+  const destination = await resolveWorkspacePath(action.newPath, action.workspace ?? source.folderName);
+  if ('status' in destination) {
+    return destination;
+  }
+  
+  if (!(await pathExists(source.uri))) {
+    return failAction(`Cannot rename ${source.sanitizedPath}: the file does not exist.`);
+  }
+  if (await pathExists(destination.uri)) {
+    return failAction(`Cannot rename to ${destination.sanitizedPath}: a file with that name already exists.`);
+  }
+  
+  const choice = await vscode.window.showWarningMessage(
+    `Rename ${source.sanitizedPath} to ${destination.sanitizedPath}?`,
+    { modal: true },
+    'Rename'
+  );
+  if (choice !== 'Rename') {
+    return { status: 'skipped', snapshots: [] };
+  }
+  
+  if (destination.pathSegments.length > 1) {
+    await vscode.workspace.fs.createDirectory(
+      vscode.Uri.joinPath(destination.workspaceRoot, ...destination.pathSegments.slice(0, -1))
+    );
+  }
+  
+  const edit = new vscode.WorkspaceEdit();
+  edit.renameFile(source.uri, destination.uri, { overwrite: false });
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    return failAction(`Could not rename ${source.sanitizedPath}.`);
+  }
+  
+  vscode.window.showInformationMessage(`Renamed ${source.sanitizedPath} to ${destination.sanitizedPath}.`);
+  return { status: 'applied', snapshots: [renameSnapshot(source.uri, destination.uri)] };
+}
+
+/**
+ * DELETE HANDLER
+ * ==============
+ * 
+ * Deletes one file after a confirmation, through a WorkspaceEdit.
+ * Folders are never deleted.
+ * 
+ * @param action - The delete_file action
+ * @returns The outcome, with a snapshot that recreates the file
+ */
+async function handleDelete(action: ModelAction): Promise<ActionResult> {
+  const target = await resolveWorkspacePath(action.path, action.workspace);
+  if ('status' in target) {
+    return target;
+  }
+  
+  try {
+    const stat = await vscode.workspace.fs.stat(target.uri);
+    if (stat.type & vscode.FileType.Directory) {
+      return failAction(`Refused to delete ${target.sanitizedPath}: it is a folder.`);
+    }
+  } catch (error) {
+    return failAction(`Cannot delete ${target.sanitizedPath}: the file does not exist.`);
+  }
+  
+  const choice = await vscode.window.showWarningMessage(
+    `Delete ${target.sanitizedPath}?`,
+    { modal: true },
+    'Delete'
   );
-}
\ No newline at end of file
+  if (choice !== 'Delete') {
+    return { status: 'skipped', snapshots: [] };
+  }
+  
+  const previousContent = await readFileIfExists(target.uri);
+  const edit = new vscode.WorkspaceEdit();
+  edit.deleteFile(target.uri, { ignoreIfNotExists: false });
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    return failAction(`Could not delete ${target.sanitizedPath}.`);
+  }
+  
+  vscode.window.showInformationMessage(`Deleted ${target.sanitizedPath}.`);
+  return { status: 'applied', snapshots: [fileSnapshot(target.uri, previousContent)] };
+}
+
+/**
+ * PATCH HANDLER
+ * =============
+ * 
+ * Applies a unified diff. Each file in the patch is reviewed on its own;
+ * files the patch creates or deletes go through the create and delete
+ * handlers. If one file cannot be patched, files already changed by this
+ * patch are restored so the patch is all-or-nothing.
+ * 
+ * @param action - The apply_patch action
+ * @returns The combined outcome for every file in the patch
+ */
+async function handlePatch(action: ModelAction): Promise<ActionResult> {
+  let filePatches: FilePatch[];
+  try {
+    filePatches = parseUnifiedDiff(action.patch ?? '');
+  } catch (error) {
+    return failAction(`Cannot apply patch: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  const snapshots: ChangeSnapshot[] = [];
+  for (const filePatch of filePatches) {
+    const result = await applyFilePatch(filePatch, action.path, action.workspace);
+    if (result.status === 'failed') {
+      await restoreSnapshots(snapshots);
+      return { ...result, snapshots: [] };
+    }
+    snapshots.push(...result.snapshots);
+  }
+  
+  return { status: snapshots.length > 0 ? 'applied' : 'skipped', snapshots };
+}
+
+/**
+ * FILE PATCH APPLIER
+ * ==================
+ * 
+ * @param filePatch - One file's part of the patch
+ * @param fallbackPath - Path from the action, used when the patch has no headers
+ * @param folderName - Workspace folder from the action
+ * @returns The outcome for this file
+ */
+async function applyFilePatch(filePatch: FilePatch, fallbackPath?: string, folderName?: string): Promise<ActionResult> {
+  const hasHeaders = filePatch.oldPath !== undefined || filePatch.newPath !== undefined;
+  
+  if (hasHeaders && filePatch.newPath === undefined) {
+    return handleDelete({ action: 'delete_file', path: filePatch.oldPath, workspace: folderName });
+  }
+  if (hasHeaders && filePatch.oldPath !== undefined && filePatch.oldPath !== filePatch.newPath) {
+    return failAction('Patches that rename files are not supported; use rename_file instead.');
+  }
+  
+  const target = await resolveWorkspacePath(filePatch.newPath ?? fallbackPath, folderName);
+  if ('status' in target) {
+    return target;
+  }
+  
+  let document: vscode.TextDocument | undefined;
+  try {
+    document = await vscode.workspace.openTextDocument(target.uri);
+  } catch (error) {
+    document = undefined;
+  }
+  
+  let patchedText: string;
+  try {
+    patchedText = applyPatchHunks(document?.getText() ?? '', filePatch.hunks);
+  } catch (error) {
+    if (error instanceof PatchError) {
+      return failAction(`Cannot apply patch to ${target.sanitizedPath}: ${error.message}`);
+    }
+    throw error;
+  }
+  
+  if (!document) {
+    return handleFileOperation({
+      action: 'create_file',
+      path: target.sanitizedPath,
+      workspace: target.folderName,
+      content: patchedText
+    });
+  }
+  return reviewDocumentChange(document, patchedText, 'apply_patch');
+}
+
+/**
+ * PATH EXISTENCE CHECK
+ * ====================
+ * 
+ * @param uri - File or folder to look for
+ * @returns true if something exists at that path
+ */
+async function pathExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * FILE READER
+ * ===========
+ * 
+ * Reads a file's text, or reports that it does not exist.
+ * 
+ * @param fileUri - File to read
+ * @returns The file content, or undefined if there is no such file
+ */
+async function readFileIfExists(fileUri: vscode.Uri): Promise<string | undefined> {
+  try {
+    const existingData = await vscode.workspace.fs.readFile(fileUri);
+    return new TextDecoder().decode(existingData);
+  } catch (error) {
+    // File doesn't exist yet, which is fine
+    return undefined;
+  }
+}
+
+/**
+ * APPENDED CONTENT BUILDER
+ * ========================
+ * 
+ * Works out a file's content after appending. It's smart about adding
+ * newlines so content doesn't get squished together.
+ * 
+ * @param existingContent - Current file content ('' for a new file)
+ * @param content - What to add to the file
+ * @returns The combined content
+ */
+export function buildAppendedContent(existingContent: string, content: string): string {
+  const needsNewline = existingContent !== '' && !existingContent.endsWith('\n');
+  return existingContent + (needsNewline ? '\n' : '') + content;
+}
+
+/**
+ * FILE WRITER
+ * ===========
+ * 
+ * Writes approved content to disk, replacing whatever was there.
+ * 
+ * @param fileUri - Where to write
+ * @param content - The full new file content
+ */
+async function writeFileContent(fileUri: vscode.Uri, content: string): Promise<void> {
+  const fileData = new TextEncoder().encode(content);
+  await vscode.workspace.fs.writeFile(fileUri, fileData);
+}
@@ -0,0 +1,177 @@
+/**
+ * OUTPUT ROUTING MODULE
+ * =====================
+ *
+ * Decides what happens to the model's answer to a sidebar prompt. There
+ * are three routes:
+ * - code:   insert the answer at the cursor
+ * - action: run the answer as JSON file actions
+ * - chat:   only show the answer in the chat
+ *
+ * The output mode picked in the sidebar (Insert Code, File Action, Chat)
+ * fixes the route before the request is sent, and the system prompt asks
+ * for that kind of answer only. In Auto mode the model picks the route:
+ * its reply starts with a route line such as `ROUTE: code`, which is read
+ * before anything else. The route therefore never depends on braces that
+ * happen to appear in generated code.
+ *
+ * Every decision comes with a reason, shown in the sidebar log.
+ */
+
+import { buildSystemPrompt } from './llmService';
+
+/** Where an answer goes */
+export type OutputRoute = 'code' | 'action' | 'chat';
+
+/** The output mode picked in the sidebar: a fixed route, or Auto */
+export type OutputIntent = 'auto' | OutputRoute;
+
+/** Every output mode, in the order shown in the sidebar */
+export const OUTPUT_INTENTS: readonly OutputIntent[] = ['auto', 'code', 'action', 'chat'];
+
+/** Names of the routes as shown in the sidebar */
+export const ROUTE_LABELS: Record<OutputRoute, string> = {
+  code: 'Insert Code',
+  action: 'File Action',
+  chat: 'Chat'
+};
+
+/** The route line that starts a reply in Auto mode */
+const ROUTE_LINE_PATTERN = /^\s*ROUTE:\s*(code|action|chat)[ \t]*(?:\r?\n|$)/i;
+
+/** A reply in one JSON code fence */
+const JSON_FENCE_PATTERN = /^```(?:json)?[ \t]*\r?\n([\s\S]*?)\r?\n?```$/;
+
+/**
+ * ROUTE DECISION
+ * ==============
+ */
+export interface RouteDecision {
+  /** Where the answer goes */
+  route: OutputRoute;
+
+  /** The answer without its route line */
+  body: string;
+
+  /** Why this route was chosen */
+  reason: string;
+}
+
+/**
+ * INTENT CHECKER
+ * ==============
+ *
+ * @param value - Value received from the webview or saved state
+ * @returns true if the value is an output mode
+ */
+export function isOutputIntent(value: unknown): value is OutputIntent {
+  return OUTPUT_INTENTS.includes(value as OutputIntent);
+}
+
+/**
+ * ROUTED SYSTEM PROMPT BUILDER
+ * ============================
+ *
+ * @param intent - The output mode of the request
+ * @returns The system message asking for the kind of answer the mode handles
+ */
+export function buildRoutedSystemPrompt(intent: OutputIntent): string {
+  switch (intent) {
+    case 'code':
+      return 'You are an expert programmer working in VS Code. Reply with ONLY the code to insert at the cursor (you may use one fenced code block). No JSON actions, no explanations.';
+    case 'chat':
+      return 'You are an expert programmer helping a colleague in VS Code. Answer in Markdown. Your answer is only shown in the chat; nothing is inserted into the editor.';
+    case 'action':
+      return [
+        buildSystemPrompt(),
+        '',
+        'The user asked for file actions: reply ONLY with JSON actions, never with plain code.',
+        'To put code into the current editor, use {"action":"insert_code","content":"..."}.'
+      ].join('\n');
+    default:
+      return [
+        buildSystemPrompt(),
+        '',
+        'Start your reply with a route line that says what the reply is, then a line break and the reply itself:',
+        '- "ROUTE: action" before JSON file actions',
+        '- "ROUTE: code" before code to insert at the cursor',
+        '- "ROUTE: chat" before an answer that is only meant to be read (explanations, questions, advice; Markdown is fine)',
+        'Never write anything before the route line.'
+      ].join('\n');
+  }
+}
+
+/**
+ * ROUTE RESOLVER
+ * ==============
+ *
+ * Decides the route of a reply. A fixed output mode always wins. In Auto
+ * mode the route line decides; a reply without one is treated as file
+ * actions only if the whole reply is action JSON, and as code otherwise.
+ *
+ * @param intent - The output mode of the request
+ * @param response - The model's reply
+ * @returns The route, the reply without its route line, and the reason
+ */
+export function resolveRoute(intent: OutputIntent, response: string): RouteDecision {
+  const routeLine = ROUTE_LINE_PATTERN.exec(response);
+  const body = routeLine ? response.slice(routeLine[0].length) : response;
+
+  if (intent !== 'auto') {
+    return { route: intent, body, reason: `${ROUTE_LABELS[intent]} mode is selected` };
+  }
+  if (routeLine) {
+    const route = routeLine[1].toLowerCase() as OutputRoute;
+    return { route, body, reason: `the model labelled its reply "ROUTE: ${route}"` };
+  }
+  if (isActionJson(body)) {
+    return { route: 'action', body, reason: 'the reply has no route line and consists of action JSON' };
+  }
+  return { route: 'code', body, reason: 'the reply has no route line and is not action JSON' };
+}
+
+/**
+ * ACTION JSON CHECK
+ * =================
+ *
+ * @param text - A reply without a route line
+ * @returns true if the whole reply (optionally in one JSON fence) is a
+ *   JSON object or array with an "action" or "actions" key, even if the
+ *   JSON itself is broken (the repair loop deals with that)
+ */
+function isActionJson(text: string): boolean {
+  const trimmed = text.trim();
+  const json = (JSON_FENCE_PATTERN.exec(trimmed)?.[1] ?? trimmed).trim();
+  return /^[[{]/.test(json) && /"actions?"\s*:/.test(json);
+}
+
+/**
+ * ROUTE LINE FILTER
+ * =================
+ *
+ * Wraps a token callback so a leading route line never reaches it (used
+ * for the ghost text streamed into the editor). Tokens are held back
+ * until the first line is complete.
+ *
+ * @param onToken - Receives the streamed text without the route line
+ * @returns Callback to pass the raw tokens to
+ */
+export function skipRouteLine(onToken: (token: string) => void): (token: string) => void {
+  let pending: string | undefined = '';
+  return (token) => {
+    if (pending === undefined) {
+      onToken(token);
+      return;
+    }
+    pending += token;
+    const text = pending.trimStart();
+    if (!text || (!text.includes('\n') && text.length < 40)) {
+      return;
+    }
+    const rest = ROUTE_LINE_PATTERN.test(pending) ? pending.replace(ROUTE_LINE_PATTERN, '') : pending;
+    pending = undefined;
+    if (rest) {
+      onToken(rest);
+    }
+  };
+}
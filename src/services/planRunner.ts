@@ -0,0 +1,136 @@
+/**
+ * PLAN RUNNER MODULE
+ * ==================
+ * 
+ * Runs a multi-step plan from the AI (several ModelActions in one
+ * response) as a single unit of work.
+ * 
+ * How it works:
+ * 1. Steps run one after another, in the order the model listed them
+ * 2. Every change records a snapshot of what was there before
+ * 3. A step the user rejects in the diff preview is skipped, not fatal
+ * 4. If a step fails, every change already made by the plan is rolled
+ *    back, so the workspace is never left half-updated
+ */
+
+import { executeModelAction, type ModelAction } from './modelActions';
+import { restoreSnapshots, type ChangeSnapshot } from './changeSnapshots';
+import { splitFolderPrefix } from '../utils/folderPaths';
+
+/**
+ * STEP STATUS
+ * ===========
+ * 
+ * Where a step is in its life:
+ * pending → running → applied | skipped | failed, and applied → rolledBack
+ * when a later step fails.
+ */
+export type PlanStepStatus = 'pending' | 'running' | 'applied' | 'skipped' | 'failed' | 'rolledBack';
+
+/**
+ * PLAN RESULT
+ * ===========
+ * 
+ * Summary of a finished plan run.
+ */
+export interface PlanResult {
+  /** True when every enabled step was applied or skipped */
+  succeeded: boolean;
+  
+  /** Number of steps whose changes are still in place */
+  appliedCount: number;
+  
+  /** Index of the step that failed (only when succeeded is false) */
+  failedStep?: number;
+  
+  /** Why the failed step failed */
+  error?: string;
+  
+  /** Snapshots that could not be restored during rollback */
+  rollbackFailures: number;
+  
+  /** Snapshots of every change that was kept, oldest first */
+  snapshots: ChangeSnapshot[];
+}
+
+/**
+ * PLAN STEP SUMMARY
+ * =================
+ * 
+ * Builds the one-line description of a step shown in the plan view.
+ * 
+ * @param action - The step's action
+ * @returns Text like 'create_file src/app.ts (12 lines)', 'rename_file a.ts → b.ts'
+ *   or, with a workspace folder, 'delete_file api:src/old.ts'
+ */
+export function describePlanStep(action: ModelAction): string {
+  const body = action.content ?? action.patch;
+  const lineCount = body ? body.split('\n').length : 0;
+  const folder = action.workspace && action.path && !splitFolderPrefix(action.path).folder ? `${action.workspace}:` : '';
+  const target = action.path ? ` ${folder}${action.path}` : '';
+  const destination = action.newPath ? ` → ${action.newPath}` : '';
+  const size = lineCount ? ` (${lineCount} line${lineCount === 1 ? '' : 's'})` : '';
+  return `${action.action}${target}${destination}${size}`;
+}
+
+/**
+ * PLAN RUNNER
+ * ===========
+ * 
+ * Executes the given steps in order with rollback on failure.
+ * 
+ * @param actions - Steps to run, in order (already filtered to the enabled ones)
+ * @param onStepStatus - Called whenever a step changes status; `index` is the position in `actions`
+ * @returns What happened
+ */
+export async function runPlan(
+  actions: ModelAction[],
+  onStepStatus: (index: number, status: PlanStepStatus) => void = () => {}
+): Promise<PlanResult> {
+  const applied: Array<{ index: number; snapshots: ChangeSnapshot[] }> = [];
+  
+  for (let index = 0; index < actions.length; index++) {
+    onStepStatus(index, 'running');
+    
+    let error: string | undefined;
+    try {
+      const result = await executeModelAction(actions[index]);
+      if (result.status === 'applied') {
+        applied.push({ index, snapshots: result.snapshots });
+        onStepStatus(index, 'applied');
+        continue;
+      }
+      if (result.status === 'skipped') {
+        onStepStatus(index, 'skipped');
+        continue;
+      }
+      error = result.message || 'Step could not be completed';
+    } catch (stepError) {
+      error = stepError instanceof Error ? stepError.message : String(stepError);
+    }
+    
+    // A step failed: undo everything the plan changed so far
+    console.log(`Plan step ${index + 1} failed, rolling back ${applied.length} step(s):`, error);
+    onStepStatus(index, 'failed');
+    const rollbackFailures = await restoreSnapshots(applied.flatMap((step) => step.snapshots));
+    for (const step of applied) {
+      onStepStatus(step.index, 'rolledBack');
+    }
+    
+    return {
+      succeeded: false,
+      appliedCount: 0,
+      failedStep: index,
+      error,
+      rollbackFailures,
+      snapshots: []
+    };
+  }
+  
+  return {
+    succeeded: true,
+    appliedCount: applied.length,
+    rollbackFailures: 0,
+    snapshots: applied.flatMap((step) => step.snapshots)
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * PROJECT INSTRUCTIONS MODULE
+ * ===========================
+ *
+ * Lets a team write down its conventions once ("use pnpm", "prefer zod",
+ * "tests live in __tests__") in `.jarnox/instructions.md`. The file of
+ * every workspace folder is added to the system prompt of each request,
+ * so everyone's prompts follow the same rules.
+ *
+ * Settings:
+ * - jarnox.instructionsFile: where the file is, relative to each workspace
+ *   folder ('' turns the feature off)
+ * - jarnox.instructionsMaxTokens: most tokens the instructions may add;
+ *   longer instructions are cut off at a line break
+ *
+ * The files are re-read whenever they change, and the sidebar shows which
+ * instructions are active.
+ */
+
+import * as vscode from 'vscode';
+import { readSetting } from './configService';
+import { estimateTokens } from './contextBuilder';
+
+/** Default location of the instructions, relative to a workspace folder */
+export const DEFAULT_INSTRUCTIONS_FILE = '.jarnox/instructions.md';
+
+/**
+ * INSTRUCTION SOURCE
+ * ==================
+ *
+ * The instructions file of one workspace folder.
+ */
+export interface InstructionSource {
+  /** Workspace-relative path of the file, shown in the sidebar */
+  path: string;
+
+  /** Contents of the file */
+  text: string;
+}
+
+/**
+ * ACTIVE INSTRUCTIONS
+ * ===================
+ *
+ * What is added to the system prompt.
+ */
+export interface ActiveInstructions {
+  /** The combined instructions as sent to the model */
+  text: string;
+
+  /** Files the instructions come from */
+  files: string[];
+
+  /** Approximate token count of `text` */
+  tokens: number;
+
+  /** Whether the instructions were cut to fit jarnox.instructionsMaxTokens */
+  truncated: boolean;
+}
+
+/**
+ * INSTRUCTION COMBINER
+ * ====================
+ *
+ * Joins the instruction files (each introduced by its path when there is
+ * more than one) and cuts the result to the token budget. The cut is
+ * made at a line break, so no rule is sent half-written.
+ *
+ * @param sources - Instruction files, in workspace folder order
+ * @param maxTokens - Token budget (0 = no limit)
+ * @returns The instructions to send, or undefined if all files are empty
+ */
+export function combineInstructions(sources: InstructionSource[], maxTokens: number): ActiveInstructions | undefined {
+  const filled = sources.filter((source) => source.text.trim());
+  if (filled.length === 0) {
+    return undefined;
+  }
+
+  let text = filled.length === 1
+    ? filled[0].text.trim()
+    : filled.map((source) => `From ${source.path}:\n${source.text.trim()}`).join('\n\n');
+
+  // estimateTokens counts about four characters per token
+  const maxChars = maxTokens * 4;
+  const truncated = maxTokens > 0 && text.length > maxChars;
+  if (truncated) {
+    const lastBreak = text.lastIndexOf('\n', maxChars);
+    text = `${text.slice(0, lastBreak > 0 ? lastBreak : maxChars).trimEnd()}\n... (cut off to fit the instructions budget)`;
+  }
+
+  return { text, files: filled.map((source) => source.path), tokens: estimateTokens(text), truncated };
+}
+
+/**
+ * PROJECT INSTRUCTIONS CLASS
+ * ==========================
+ *
+ * Keeps the instructions of the open workspace folders loaded.
+ */
+export class ProjectInstructions {
+
+  /** The instructions in use, if any file has some */
+  private active?: ActiveInstructions;
+
+  /** Watchers for the instruction files of the current workspace folders */
+  private fileWatchers: vscode.Disposable[] = [];
+
+  /**
+   * CONSTRUCTOR
+   * ===========
+   *
+   * @param onChange - Called after the instructions were (re)loaded
+   */
+  constructor(private readonly onChange: () => void = () => {}) {}
+
+  /**
+   * ACTIVE INSTRUCTIONS
+   * ===================
+   *
+   * @returns The instructions added to the system prompt, or undefined
+   *   when there are none
+   */
+  public current(): ActiveInstructions | undefined {
+    return this.active;
+  }
+
+  /**
+   * PROMPT TEXT
+   * ===========
+   *
+   * @returns The text to add to the system prompt ('' when there is none)
+   */
+  public text(): string {
+    return this.active?.text ?? '';
+  }
+
+  /**
+   * INSTRUCTION FILE LOCATOR
+   * ========================
+   *
+   * @returns The instruction file location in every workspace folder
+   *   (none when jarnox.instructionsFile is empty)
+   */
+  public fileUris(): vscode.Uri[] {
+    const relativePath = readSetting<string>('instructionsFile', DEFAULT_INSTRUCTIONS_FILE).trim();
+    if (!relativePath) {
+      return [];
+    }
+    return (vscode.workspace.workspaceFolders ?? []).map((folder) => vscode.Uri.joinPath(folder.uri, relativePath));
+  }
+
+  /**
+   * INSTRUCTIONS LOADER
+   * ===================
+   *
+   * Reads the instruction files again. Missing files are skipped.
+   */
+  public async reload(): Promise<void> {
+    const sources: InstructionSource[] = [];
+    for (const uri of this.fileUris()) {
+      try {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        sources.push({ path: vscode.workspace.asRelativePath(uri), text });
+      } catch {
+        // No instructions in this folder
+      }
+    }
+
+    this.active = combineInstructions(sources, readSetting<number>('instructionsMaxTokens', 1000));
+    if (this.active) {
+      console.log(`Project instructions: ~${this.active.tokens} tokens from ${this.active.files.join(', ')}`);
+    }
+    this.onChange();
+  }
+
+  /**
+   * INSTRUCTIONS WATCHER
+   * ====================
+   *
+   * Loads the instructions now and again whenever a file changes, the
+   * settings change or workspace folders are added or removed.
+   *
+   * @returns Disposable that stops watching
+   */
+  public watch(): vscode.Disposable {
+    const reload = () => {
+      this.reload().catch((error) => console.error('Failed to load project instructions:', error));
+    };
+    const rewatch = () => {
+      this.fileWatchers.forEach((watcher) => watcher.dispose());
+      this.fileWatchers = this.fileUris().flatMap((uri) => {
+        const fileName = uri.path.slice(uri.path.lastIndexOf('/') + 1);
+        const watcher = vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(vscode.Uri.joinPath(uri, '..'), fileName)
+        );
+        return [watcher, watcher.onDidCreate(reload), watcher.onDidChange(reload), watcher.onDidDelete(reload)];
+      });
+      reload();
+    };
+
+    const listeners = [
+      vscode.workspace.onDidChangeWorkspaceFolders(rewatch),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('jarnox.instructionsFile')) {
+          rewatch();
+        } else if (event.affectsConfiguration('jarnox.instructionsMaxTokens')) {
+          reload();
+        }
+      })
+    ];
+    rewatch();
+
+    return new vscode.Disposable(() => {
+      listeners.forEach((listener) => listener.dispose());
+      this.fileWatchers.forEach((watcher) => watcher.dispose());
+      this.fileWatchers = [];
+    });
+  }
+}
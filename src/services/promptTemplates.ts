@@ -0,0 +1,220 @@
+/**
+ * PROMPT TEMPLATES MODULE
+ * =======================
+ *
+ * Purpose-built prompts for the editor commands (Explain Selection,
+ * Refactor Selection, Generate Docstring, Generate Unit Tests and Fix
+ * This Error).
+ *
+ * The sidebar prompt lets the model choose between code and JSON file
+ * actions. These commands already know what should happen to the answer
+ * (replace the code, create a test file, show an explanation), so each
+ * template asks for exactly one kind of reply and says which ModelAction
+ * the answer is turned into.
+ */
+
+import type { ChatMessage } from './providers';
+import type { ModelAction } from './modelActions';
+import { appendProjectInstructions } from './llmService';
+
+/** The tasks offered by the editor commands */
+export type EditorTask = 'explain' | 'refactor' | 'document' | 'test' | 'fix';
+
+/**
+ * TASK INPUT
+ * ==========
+ *
+ * What the editor command collected for one request.
+ */
+export interface TaskInput {
+  /** VS Code language id of the file, like 'typescript' */
+  languageId: string;
+
+  /** Workspace-relative path of the file */
+  filePath: string;
+
+  /** The code the task is about */
+  code: string;
+
+  /** 1-based line where `code` starts */
+  startLine: number;
+
+  /** Extra wishes typed by the user (refactor) */
+  instructions?: string;
+
+  /** Error messages reported for the code (fix) */
+  diagnostics?: string[];
+
+  /** Lines just before and after `code`, sent as context only (fix) */
+  surroundingCode?: { before: string; after: string };
+
+  /** Where the tests will be written (test) */
+  testFilePath?: string;
+}
+
+/**
+ * PROMPT TEMPLATE
+ * ===============
+ */
+export interface PromptTemplate {
+  /** Name shown in progress notifications */
+  title: string;
+
+  /** Start of the history entry for an applied answer, followed by the file path */
+  historyLabel: string;
+
+  /** How the answer is used: shown, or applied through this ModelAction */
+  action: 'show' | Extract<ModelAction['action'], 'replace_range' | 'create_file'>;
+
+  /** System message describing the reply format */
+  system: string;
+
+  /** Builds the user message for one request */
+  buildRequest(input: TaskInput): string;
+}
+
+/** Reply rule shared by the templates whose answer replaces the code */
+const CODE_ONLY = 'Reply with ONLY the complete replacement code in one fenced code block. No explanations before or after it.';
+
+/**
+ * CODE BLOCK FORMATTER
+ * ====================
+ *
+ * @param input - Task input
+ * @returns The code as a fenced block, introduced by its location
+ */
+function codeBlock(input: TaskInput): string {
+  const lineCount = input.code.split('\n').length;
+  return [
+    `File: ${input.filePath} (lines ${input.startLine}-${input.startLine + lineCount - 1}, language: ${input.languageId})`,
+    '```' + input.languageId,
+    input.code,
+    '```'
+  ].join('\n');
+}
+
+/**
+ * SURROUNDING CONTEXT FORMATTER
+ * =============================
+ *
+ * @param input - Task input
+ * @returns Lines showing the code around the block (none if there is none),
+ *   marked as context so the model does not include it in its answer
+ */
+function surroundingContext(input: TaskInput): string[] {
+  const { before = '', after = '' } = input.surroundingCode ?? {};
+  if (!before.trim() && !after.trim()) {
+    return [];
+  }
+  const fence = '```' + input.languageId;
+  return [
+    '',
+    'For context only (do NOT include it in your reply), the code around it:',
+    ...(before.trim() ? ['Before:', fence, before, '```'] : []),
+    ...(after.trim() ? ['After:', fence, after, '```'] : [])
+  ];
+}
+
+/** The template for each editor task */
+export const PROMPT_TEMPLATES: Record<EditorTask, PromptTemplate> = {
+  explain: {
+    title: 'Explaining selection',
+    historyLabel: 'Explained',
+    action: 'show',
+    system: 'You are an experienced programmer explaining code to a colleague. Reply in Markdown: start with a one-sentence summary, then explain the important steps, and point out anything surprising or risky.',
+    buildRequest: (input) => `Explain this code:\n\n${codeBlock(input)}`
+  },
+  refactor: {
+    title: 'Refactoring selection',
+    historyLabel: 'Refactored code in',
+    action: 'replace_range',
+    system: `You are an expert programmer refactoring code. Keep the behaviour and the public names the same unless asked otherwise, and keep the original indentation style. ${CODE_ONLY}`,
+    buildRequest: (input) => [
+      `Refactor this code${input.instructions ? `: ${input.instructions}` : ' to make it clearer and simpler'}.`,
+      '',
+      codeBlock(input)
+    ].join('\n')
+  },
+  document: {
+    title: 'Generating docstring',
+    historyLabel: 'Added docstring in',
+    action: 'replace_range',
+    system: `You are an expert programmer writing documentation comments. Add the idiomatic documentation comment for the language (JSDoc, Python docstring, Javadoc, /// comments, ...) describing purpose, parameters, return value and errors. Do not change the code itself. ${CODE_ONLY}`,
+    buildRequest: (input) => `Add a documentation comment to this code:\n\n${codeBlock(input)}`
+  },
+  test: {
+    title: 'Generating unit tests',
+    historyLabel: 'Generated tests for',
+    action: 'create_file',
+    system: 'You are an expert programmer writing unit tests. Use the test framework that is most common for the language (or the one the code already uses), cover normal cases, edge cases and errors, and import the code under test with a correct relative path. Reply with ONLY the complete test file in one fenced code block.',
+    buildRequest: (input) => [
+      `Write unit tests for this code. The tests will be saved as ${input.testFilePath ?? 'a new test file'}.`,
+      '',
+      codeBlock(input)
+    ].join('\n')
+  },
+  fix: {
+    title: 'Fixing error',
+    historyLabel: 'Fixed error in',
+    action: 'replace_range',
+    system: `You are an expert programmer fixing a bug. Make the smallest change that fixes the reported problems and keep everything else as it is. ${CODE_ONLY}`,
+    buildRequest: (input) => [
+      'Fix the following problems:',
+      ...(input.diagnostics?.length ? input.diagnostics.map((message) => `- ${message}`) : ['- (no error message; fix the obvious bug)']),
+      '',
+      codeBlock(input),
+      ...surroundingContext(input)
+    ].join('\n')
+  }
+};
+
+/**
+ * TASK MESSAGE BUILDER
+ * ====================
+ *
+ * @param task - Which editor task to run
+ * @param input - Code and details collected by the command
+ * @param projectInstructions - The team's conventions, added to the system message
+ * @returns System and user messages for LLMProvider.chat()
+ */
+export function buildTaskMessages(task: EditorTask, input: TaskInput, projectInstructions?: string): ChatMessage[] {
+  const template = PROMPT_TEMPLATES[task];
+  return [
+    { role: 'system', content: appendProjectInstructions(template.system, projectInstructions) },
+    { role: 'user', content: template.buildRequest(input) }
+  ];
+}
+
+/**
+ * TEST FILE PATH SUGGESTER
+ * ========================
+ *
+ * Picks where tests for a file go, following each language's usual
+ * naming: `test_x.py`, `x_test.go`, `XTest.java`, and `x.test.ts` for
+ * JavaScript, TypeScript and everything else.
+ *
+ * @param filePath - Workspace-relative path of the code under test
+ * @param languageId - Language of that file
+ * @returns Workspace-relative path for the test file
+ */
+export function suggestTestFilePath(filePath: string, languageId: string): string {
+  const slash = filePath.lastIndexOf('/');
+  const directory = slash === -1 ? '' : filePath.slice(0, slash + 1);
+  const fileName = filePath.slice(slash + 1);
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+
+  switch (languageId) {
+    case 'python':
+      return `${directory}test_${base}${extension}`;
+    case 'go':
+      return `${directory}${base}_test${extension}`;
+    case 'java':
+    case 'kotlin':
+    case 'csharp':
+      return `${directory}${base}Test${extension}`;
+    default:
+      return `${directory}${base}.test${extension}`;
+  }
+}
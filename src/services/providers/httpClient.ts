@@ -0,0 +1,265 @@
+/**
+ * PROVIDER HTTP CLIENT
+ * ====================
+ * 
+ * The network plumbing every provider shares:
+ * - Sending JSON requests with fetch()
+ * - Cancelling requests through an AbortSignal
+ * - Giving up when the server stays silent for too long
+ * - Reading streamed responses line by line as they arrive
+ * - Turning low-level network failures into readable error messages
+ */
+
+import type { GenerationOptions } from './types';
+
+/**
+ * CANCELLATION ERROR
+ * ==================
+ * 
+ * Thrown when a request is stopped by the caller's AbortSignal.
+ * Callers catch this to tell "the user stopped it" apart from real
+ * failures, so they can skip error popups and never apply a partial answer.
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = 'Generation was cancelled.') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * CANCELLATION CHECK
+ * ==================
+ * 
+ * @param error - Anything caught from a request
+ * @returns true if the error means the user cancelled the request
+ */
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof RequestCancelledError;
+}
+
+/**
+ * HTTP REQUEST DESCRIPTION
+ * ========================
+ */
+export interface HttpRequest {
+  /** Full URL to call */
+  url: string;
+  
+  /** HTTP method (defaults to GET, or POST when a body is given) */
+  method?: 'GET' | 'POST';
+  
+  /** JSON body to send */
+  body?: unknown;
+  
+  /** Extra headers (for example Authorization) */
+  headers?: Record<string, string>;
+  
+  /** Seconds of silence before giving up (0 = wait forever) */
+  timeoutSeconds: number;
+  
+  /** Name of the server used in error messages (like 'Ollama server') */
+  serverLabel: string;
+}
+
+/**
+ * URL JOINER
+ * ==========
+ * 
+ * Appends an API path to a base URL. OpenAI-compatible servers are often
+ * configured as `http://host:8000/v1`, so a `/v1/...` path does not add
+ * a second `/v1`.
+ * 
+ * @param baseUrl - Server URL from the settings
+ * @param path - API path starting with '/'
+ * @returns The full URL
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  const trimmedBase = baseUrl.replace(/\/+$/, '');
+  if (trimmedBase.endsWith('/v1') && path.startsWith('/v1/')) {
+    return trimmedBase + path.slice(3);
+  }
+  return trimmedBase + path;
+}
+
+/**
+ * HTTP REQUEST SENDER
+ * ===================
+ * 
+ * Sends a request and hands the response to `handleResponse`.
+ * 
+ * The request is aborted when `options.signal` fires or when no data
+ * arrives for `timeoutSeconds`. The timer restarts every time
+ * `handleResponse` reports activity, so long streams are not cut off.
+ * 
+ * @param request - What to send and where
+ * @param options - Abort signal from the caller
+ * @param handleResponse - Reads the successful response
+ * @returns Whatever handleResponse returns
+ * @throws RequestCancelledError if the caller aborted the request
+ * @throws Error for timeouts, connection failures and HTTP errors
+ */
+export async function sendHttpRequest<T>(
+  request: HttpRequest,
+  options: GenerationOptions,
+  handleResponse: (response: Response, onActivity: () => void) => Promise<T>
+): Promise<T> {
+  
+  // One controller aborts the fetch for both caller cancellation and timeouts
+  const controller = new AbortController();
+  const abortFromCaller = () => controller.abort();
+  if (options.signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+  options.signal?.addEventListener('abort', abortFromCaller);
+  
+  let timedOut = false;
+  let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+  const restartTimeout = () => {
+    if (timeoutHandle) {
+      clearTimeout(timeoutHandle);
+    }
+    if (request.timeoutSeconds > 0) {
+      timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, request.timeoutSeconds * 1000);
+    }
+  };
+  restartTimeout();
+  
+  const origin = safeOrigin(request.url);
+  
+  try {
+    const hasBody = request.body !== undefined;
+    const response = await fetch(request.url, {
+      method: request.method ?? (hasBody ? 'POST' : 'GET'),
+      headers: {
+        ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+        ...request.headers
+      },
+      body: hasBody ? JSON.stringify(request.body) : undefined,
+      signal: controller.signal,
+    });
+    
+    // Check if the HTTP request was successful
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      throw new Error(`HTTP error! status: ${response.status}${errorBody ? ` - ${errorBody.slice(0, 200)}` : ''}`);
+    }
+    
+    return await handleResponse(response, restartTimeout);
+    
+  } catch (error) {
+    // Stopped on purpose: report it as a cancellation, not a failure
+    if (options.signal?.aborted) {
+      console.log(`Request to ${origin} cancelled by the user`);
+      throw new RequestCancelledError();
+    }
+    if (timedOut) {
+      throw new Error(`Request timed out after ${request.timeoutSeconds} seconds without a response from ${origin}.`);
+    }
+    
+    console.error(`Error calling ${request.serverLabel}:`, error);
+    
+    // Provide helpful error messages
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error(`Cannot connect to ${request.serverLabel} at ${origin}. Is the server running?`);
+    }
+    
+    throw error;
+  } finally {
+    if (timeoutHandle) {
+      clearTimeout(timeoutHandle);
+    }
+    options.signal?.removeEventListener('abort', abortFromCaller);
+    // Release the connection if the response was not read to the end
+    controller.abort();
+  }
+}
+
+/**
+ * STREAM LINE READER
+ * ==================
+ * 
+ * Reads a response body chunk by chunk as it arrives over the network and
+ * calls `onLine` for every complete line. Works for both NDJSON (Ollama)
+ * and server-sent events (OpenAI-compatible servers, llama.cpp).
+ * 
+ * @param body - The response body stream from fetch()
+ * @param onLine - Called per line; return true to stop reading early
+ * @param onActivity - Called whenever data arrives (used to restart the timeout)
+ */
+export async function readLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => boolean | void,
+  onActivity?: () => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pendingText = '';
+  
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      onActivity?.();
+      
+      pendingText += decoder.decode(value, { stream: true });
+      
+      // Process every complete line; keep the unfinished tail for later
+      let newlineIndex = pendingText.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = pendingText.slice(0, newlineIndex).replace(/\r$/, '');
+        pendingText = pendingText.slice(newlineIndex + 1);
+        if (onLine(line) === true) {
+          await reader.cancel().catch(() => undefined);
+          return;
+        }
+        newlineIndex = pendingText.indexOf('\n');
+      }
+    }
+    
+    // The last line may not end with a newline
+    pendingText += decoder.decode();
+    if (pendingText.trim()) {
+      onLine(pendingText);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * SERVER-SENT EVENT PARSER
+ * ========================
+ * 
+ * Extracts the payload from one SSE line (`data: {...}`).
+ * 
+ * @param line - One line of an event stream
+ * @returns The JSON text after `data:`, '[DONE]', or undefined for other lines
+ */
+export function parseSseData(line: string): string | undefined {
+  const trimmedLine = line.trim();
+  if (!trimmedLine.startsWith('data:')) {
+    return undefined;
+  }
+  return trimmedLine.slice(5).trim();
+}
+
+/**
+ * ORIGIN EXTRACTOR
+ * ================
+ * 
+ * @param url - Any URL
+ * @returns Just the scheme, host and port, for error messages
+ */
+function safeOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * PROVIDER FACTORY
+ * ================
+ * 
+ * Picks the right LLMProvider implementation for a configuration.
+ * The `provider` field comes from `jarnox.provider` or the active profile.
+ */
+
+import type { LLMConfig } from '../configService';
+import type { LLMProvider } from './types';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAICompatibleProvider } from './openAIProvider';
+import { LlamaCppProvider } from './llamaCppProvider';
+
+export * from './types';
+export { RequestCancelledError, isCancellationError } from './httpClient';
+export { OllamaProvider } from './ollamaProvider';
+export { OpenAICompatibleProvider } from './openAIProvider';
+export { LlamaCppProvider } from './llamaCppProvider';
+
+/**
+ * PROVIDER CREATOR
+ * ================
+ * 
+ * @param config - Fully resolved configuration
+ * @returns A provider that talks to the configured kind of server
+ */
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'llamacpp':
+      return new LlamaCppProvider(config);
+    case 'ollama':
+    default:
+      return new OllamaProvider(config);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * LLAMA.CPP PROVIDER
+ * ==================
+ * 
+ * Talks to the HTTP server that ships with llama.cpp (`llama-server`):
+ * - POST /completion for completions (server-sent events when streaming)
+ * - POST /infill for fill-in-the-middle completions (same format)
+ * - GET  /v1/models to read which model file is loaded
+ * 
+ * A llama.cpp server runs exactly one model, so the model name from the
+ * settings is only used for display. Conversations are sent to
+ * /completion as a plain-text transcript.
+ */
+
+import type { LLMConfig } from '../configService';
+import type { ChatMessage, GenerationOptions, LLMProvider, ModelInfo } from './types';
+import { parseOpenAIModels } from './openAIProvider';
+import { joinUrl, parseSseData, readLines, sendHttpRequest } from './httpClient';
+
+/**
+ * STREAM CHUNK PARSER
+ * ===================
+ * 
+ * @param data - JSON text after `data:` in the event stream
+ * @returns The new text and whether the server has finished
+ */
+export function parseLlamaCppChunk(data: string): { token: string; done: boolean } {
+  try {
+    const chunk = JSON.parse(data) as any;
+    return {
+      token: typeof chunk?.content === 'string' ? chunk.content : '',
+      done: chunk?.stop === true
+    };
+  } catch {
+    console.log('Skipping malformed stream chunk:', data.slice(0, 100));
+    return { token: '', done: false };
+  }
+}
+
+/**
+ * CHAT TRANSCRIPT FORMATTER
+ * =========================
+ * 
+ * Flattens a conversation into one prompt for servers without a chat
+ * endpoint. The prompt ends with "Assistant:" so the model writes the
+ * next reply.
+ * 
+ * @param messages - Conversation, oldest first
+ * @returns A single prompt containing every turn
+ */
+export function formatChatTranscript(messages: ChatMessage[]): string {
+  const labels = { system: 'System', user: 'User', assistant: 'Assistant' };
+  const turns = messages.map((message) => `${labels[message.role]}: ${message.content}`);
+  return [...turns, 'Assistant:'].join('\n\n');
+}
+
+/**
+ * LLAMA.CPP PROVIDER CLASS
+ * ========================
+ */
+export class LlamaCppProvider implements LLMProvider {
+  public readonly id = 'llamacpp' as const;
+  
+  /**
+   * @param config - Fully resolved configuration for this request
+   */
+  constructor(private readonly config: LLMConfig) {}
+  
+  /**
+   * GENERATE
+   * ========
+   * 
+   * Sends the prompt to /completion (`n_predict` is llama.cpp's name for max tokens).
+   */
+  public async generate(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    console.log('Sending request to llama.cpp server:', {
+      stream: this.config.stream,
+      promptLength: prompt.length
+    });
+    return this.post('/completion', { prompt }, options);
+  }
+  
+  /**
+   * INFILL
+   * ======
+   * 
+   * Sends the code around the cursor to /infill, which builds the loaded
+   * model's fill-in-the-middle prompt.
+   */
+  public async infill(prefix: string, suffix: string, options: GenerationOptions = {}): Promise<string> {
+    console.log('Sending infill request to llama.cpp server:', {
+      prefixLength: prefix.length,
+      suffixLength: suffix.length
+    });
+    return this.post('/infill', { input_prefix: prefix, input_suffix: suffix }, options);
+  }
+  
+  /**
+   * REQUEST SENDER
+   * ==============
+   * 
+   * Posts to a completion endpoint and reads the answer, streamed or not.
+   * 
+   * @param path - '/completion' or '/infill'
+   * @param payload - The prompt, or the prefix and suffix, for that endpoint
+   * @param options - Streaming callback and abort signal
+   * @returns The generated text
+   */
+  private async post(path: string, payload: object, options: GenerationOptions): Promise<string> {
+    const { config } = this;
+    
+    return sendHttpRequest({
+      url: joinUrl(config.baseUrl, path),
+      body: {
+        ...payload,
+        temperature: config.temperature,
+        n_predict: config.maxTokens,
+        stream: config.stream
+      },
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+      timeoutSeconds: config.requestTimeout,
+      serverLabel: 'llama.cpp server'
+    }, options, async (response, onActivity) => {
+      
+      if (config.stream && response.body) {
+        let fullResponse = '';
+        await readLines(response.body, (line) => {
+          const data = parseSseData(line);
+          if (!data) {
+            return false;
+          }
+          const { token, done } = parseLlamaCppChunk(data);
+          if (token) {
+            fullResponse += token;
+            options.onToken?.(token);
+          }
+          return done;
+        }, onActivity);
+        return fullResponse;
+      }
+      
+      const data = await response.json() as any;
+      if (typeof data?.content !== 'string') {
+        throw new Error(`Unexpected response format from server: ${JSON.stringify(data).slice(0, 200)}...`);
+      }
+      options.onToken?.(data.content);
+      return data.content;
+    });
+  }
+  
+  /**
+   * CHAT
+   * ====
+   * 
+   * Sends the conversation as a transcript through generate().
+   */
+  public async chat(messages: ChatMessage[], options: GenerationOptions = {}): Promise<string> {
+    return this.generate(formatChatTranscript(messages), options);
+  }
+  
+  /**
+   * LIST MODELS
+   * ===========
+   * 
+   * Reads the loaded model from the OpenAI-style /v1/models endpoint.
+   */
+  public async listModels(): Promise<ModelInfo[]> {
+    return sendHttpRequest({
+      url: joinUrl(this.config.baseUrl, '/v1/models'),
+      timeoutSeconds: 10,
+      serverLabel: 'llama.cpp server'
+    }, {}, async (response) => parseOpenAIModels(await response.json()));
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * OLLAMA PROVIDER
+ * ===============
+ * 
+ * Talks to an Ollama server through its native API:
+ * - POST /api/generate for completions (NDJSON when streaming)
+ * - POST /api/chat for conversations (same streaming format); both take
+ *   `format: "json"` to constrain the reply to JSON
+ * - POST /api/generate with `suffix` for fill-in-the-middle completions
+ * - GET  /api/tags to list installed models
+ * - POST /api/embeddings to turn text into a vector (workspace retrieval)
+ */
+
+import type { LLMConfig } from '../configService';
+import type { ChatMessage, GenerationOptions, LLMProvider, ModelInfo } from './types';
+import { joinUrl, readLines, sendHttpRequest } from './httpClient';
+
+/**
+ * STREAM LINE PARSER
+ * ==================
+ * 
+ * Ollama streams its answer as NDJSON: one JSON object per line, each
+ * carrying the next piece of text in `response` (/api/generate) or
+ * `message.content` (/api/chat). The last object has `done: true`.
+ * If the server hits a problem it sends `{"error": "..."}`.
+ * 
+ * @param line - One line of the NDJSON stream
+ * @returns The text in the line, whether the stream is finished, and any error
+ */
+export function parseOllamaStreamLine(line: string): { token: string; done: boolean; error?: string } {
+  const trimmedLine = line.trim();
+  if (!trimmedLine) {
+    return { token: '', done: false };
+  }
+  
+  try {
+    const chunk = JSON.parse(trimmedLine) as any;
+    const token = typeof chunk?.response === 'string' ? chunk.response : chunk?.message?.content;
+    return {
+      token: typeof token === 'string' ? token : '',
+      done: chunk?.done === true,
+      error: typeof chunk?.error === 'string' ? chunk.error : undefined
+    };
+  } catch {
+    // A malformed line should not kill the whole generation
+    console.log('Skipping malformed stream line:', trimmedLine.slice(0, 100));
+    return { token: '', done: false };
+  }
+}
+
+/**
+ * BUFFERED RESPONSE PARSER
+ * ========================
+ * 
+ * Turns a complete (non-streamed) response body into text. Handles both
+ * a single JSON object and NDJSON from servers that stream anyway.
+ * 
+ * @param responseText - The complete response body
+ * @returns The AI's response text
+ * @throws Error if the format is not recognised
+ */
+export function parseOllamaResponse(responseText: string): string {
+  // Try to parse as a single JSON response first
+  try {
+    const jsonResponse = JSON.parse(responseText) as any;
+    if (typeof jsonResponse?.response === 'string') {
+      return jsonResponse.response;
+    }
+    if (typeof jsonResponse?.message?.content === 'string') {
+      return jsonResponse.message.content;
+    }
+    if (typeof jsonResponse?.error === 'string') {
+      throw new Error(`Ollama error: ${jsonResponse.error}`);
+    }
+  } catch (parseError) {
+    if (parseError instanceof Error && parseError.message.startsWith('Ollama error')) {
+      throw parseError;
+    }
+    // If single JSON parsing fails, try NDJSON format
+    console.log('Single JSON parse failed, trying NDJSON format...');
+  }
+
+  // Handle NDJSON format (multiple JSON objects, one per line)
+  const lines = responseText.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length > 1) {
+    const combinedResponse = lines
+      .map((line) => parseOllamaStreamLine(line).token)
+      .join('');
+    
+    if (combinedResponse) {
+      return combinedResponse;
+    }
+  }
+
+  // If we can't parse the response, throw an error
+  throw new Error(`Unexpected response format from server: ${responseText.slice(0, 200)}...`);
+}
+
+/**
+ * TAGS RESPONSE PARSER
+ * ====================
+ * 
+ * Converts the JSON returned by `/api/tags` into a sorted model list.
+ * Entries without a name are skipped.
+ * 
+ * @param data - Parsed JSON body from `/api/tags`
+ * @returns Installed models sorted by name
+ */
+export function parseOllamaTags(data: any): ModelInfo[] {
+  const entries: any[] = Array.isArray(data?.models) ? data.models : [];
+  
+  return entries
+    .filter((entry) => typeof entry?.name === 'string' && entry.name)
+    .map((entry) => ({
+      name: entry.name as string,
+      size: typeof entry.size === 'number' ? entry.size : 0,
+      family: typeof entry.details?.family === 'string' ? entry.details.family : undefined,
+      parameterSize: typeof entry.details?.parameter_size === 'string' ? entry.details.parameter_size : undefined,
+      quantization: typeof entry.details?.quantization_level === 'string' ? entry.details.quantization_level : undefined
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * EMBEDDING RESPONSE PARSER
+ * =========================
+ * 
+ * @param data - Parsed JSON body from `/api/embeddings`
+ * @returns The embedding vector
+ * @throws Error if the body holds no vector (for example an error message)
+ */
+export function parseOllamaEmbedding(data: any): number[] {
+  const embedding = data?.embedding;
+  if (Array.isArray(embedding) && embedding.length > 0 && embedding.every((value) => typeof value === 'number')) {
+    return embedding;
+  }
+  throw new Error(`Ollama error: ${typeof data?.error === 'string' ? data.error : 'no embedding in the response'}`);
+}
+
+/**
+ * OLLAMA PROVIDER CLASS
+ * =====================
+ */
+export class OllamaProvider implements LLMProvider {
+  public readonly id = 'ollama' as const;
+  
+  /**
+   * @param config - Fully resolved configuration for this request
+   */
+  constructor(private readonly config: LLMConfig) {}
+  
+  /**
+   * GENERATE
+   * ========
+   * 
+   * Sends the prompt to /api/generate. Sampling settings go in `options`,
+   * where Ollama expects them (`num_predict` is Ollama's name for max tokens).
+   */
+  public async generate(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    console.log('Sending request to Ollama:', {
+      model: this.config.modelName,
+      stream: this.config.stream,
+      promptLength: prompt.length
+    });
+    return this.post('/api/generate', { prompt }, options);
+  }
+  
+  /**
+   * CHAT
+   * ====
+   * 
+   * Sends the conversation to /api/chat, which applies the model's own
+   * chat template to the messages.
+   */
+  public async chat(messages: ChatMessage[], options: GenerationOptions = {}): Promise<string> {
+    console.log('Sending chat to Ollama:', {
+      model: this.config.modelName,
+      stream: this.config.stream,
+      messageCount: messages.length
+    });
+    return this.post('/api/chat', { messages }, options);
+  }
+  
+  /**
+   * INFILL
+   * ======
+   * 
+   * Sends the code before the cursor as the prompt and the code after it
+   * as `suffix`; Ollama builds the model's fill-in-the-middle prompt.
+   */
+  public async infill(prefix: string, suffix: string, options: GenerationOptions = {}): Promise<string> {
+    console.log('Sending infill request to Ollama:', {
+      model: this.config.modelName,
+      prefixLength: prefix.length,
+      suffixLength: suffix.length
+    });
+    return this.post('/api/generate', { prompt: prefix, suffix }, options);
+  }
+  
+  /**
+   * REQUEST SENDER
+   * ==============
+   * 
+   * Posts to a generation endpoint and reads the answer, streamed or not.
+   * 
+   * @param path - '/api/generate' or '/api/chat'
+   * @param payload - The prompt (and suffix) or messages for that endpoint
+   * @param options - Streaming callback and abort signal
+   * @returns The generated text
+   */
+  private async post(path: string, payload: object, options: GenerationOptions): Promise<string> {
+    const { config } = this;
+    
+    return sendHttpRequest({
+      url: joinUrl(config.baseUrl, path),
+      body: {
+        model: config.modelName,
+        ...payload,
+        stream: config.stream,
+        ...(options.json ? { format: 'json' } : {}),
+        options: {
+          temperature: config.temperature,
+          num_predict: config.maxTokens
+        }
+      },
+      timeoutSeconds: config.requestTimeout,
+      serverLabel: 'Ollama server'
+    }, options, async (response, onActivity) => {
+      
+      // Read tokens as they arrive when streaming
+      if (config.stream && response.body) {
+        let fullResponse = '';
+        await readLines(response.body, (line) => {
+          const { token, done, error } = parseOllamaStreamLine(line);
+          if (error) {
+            throw new Error(`Ollama error: ${error}`);
+          }
+          if (token) {
+            fullResponse += token;
+            options.onToken?.(token);
+          }
+          return done;
+        }, onActivity);
+        return fullResponse;
+      }
+      
+      // Otherwise wait for the whole body
+      const fullResponse = parseOllamaResponse(await response.text());
+      options.onToken?.(fullResponse);
+      return fullResponse;
+    });
+  }
+  
+  /**
+   * EMBED
+   * =====
+   * 
+   * Turns a text into a vector with /api/embeddings. Texts with similar
+   * meaning get vectors pointing in similar directions.
+   * 
+   * @param text - Text to embed
+   * @param model - Embedding model (like 'nomic-embed-text')
+   * @param options - Abort signal
+   * @returns The embedding vector
+   */
+  public async embed(text: string, model: string, options: GenerationOptions = {}): Promise<number[]> {
+    return sendHttpRequest({
+      url: joinUrl(this.config.baseUrl, '/api/embeddings'),
+      body: { model, prompt: text },
+      timeoutSeconds: this.config.requestTimeout,
+      serverLabel: 'Ollama server'
+    }, options, async (response) => parseOllamaEmbedding(await response.json()));
+  }
+  
+  /**
+   * LIST MODELS
+   * ===========
+   * 
+   * Reads the installed models from /api/tags.
+   */
+  public async listModels(): Promise<ModelInfo[]> {
+    return sendHttpRequest({
+      url: joinUrl(this.config.baseUrl, '/api/tags'),
+      timeoutSeconds: 10,
+      serverLabel: 'Ollama server'
+    }, {}, async (response) => parseOllamaTags(await response.json()));
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * OPENAI-COMPATIBLE PROVIDER
+ * ==========================
+ * 
+ * Talks to any server that implements the OpenAI chat API, such as vLLM,
+ * LM Studio, LocalAI or OpenAI itself:
+ * - POST /v1/chat/completions for completions (server-sent events when streaming)
+ * - POST /v1/completions with `suffix` for fill-in-the-middle completions
+ * - GET  /v1/models to list the served models
+ * 
+ * The base URL may be given with or without the trailing `/v1`.
+ */
+
+import type { LLMConfig } from '../configService';
+import type { ChatMessage, GenerationOptions, LLMProvider, ModelInfo } from './types';
+import { joinUrl, parseSseData, readLines, sendHttpRequest } from './httpClient';
+
+/**
+ * STREAM CHUNK PARSER
+ * ===================
+ * 
+ * Reads the text from one streamed chunk: `choices[0].delta.content` for
+ * chat completions, `choices[0].text` for plain completions.
+ * 
+ * @param data - JSON text after `data:` in the event stream
+ * @returns The new text (may be empty)
+ * @throws Error if the chunk reports a server error
+ */
+export function parseOpenAIStreamChunk(data: string): string {
+  try {
+    const chunk = JSON.parse(data) as any;
+    if (chunk?.error) {
+      throw new Error(`Server error: ${chunk.error.message ?? JSON.stringify(chunk.error)}`);
+    }
+    const content = chunk?.choices?.[0]?.delta?.content ?? chunk?.choices?.[0]?.text;
+    return typeof content === 'string' ? content : '';
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Server error')) {
+      throw error;
+    }
+    console.log('Skipping malformed stream chunk:', data.slice(0, 100));
+    return '';
+  }
+}
+
+/**
+ * COMPLETION RESPONSE PARSER
+ * ==========================
+ * 
+ * @param data - Parsed JSON body of a non-streamed chat or plain completion
+ * @returns The assistant's message text (or the completion text)
+ * @throws Error if the body has no message
+ */
+export function parseOpenAIResponse(data: any): string {
+  const content = data?.choices?.[0]?.message?.content ?? data?.choices?.[0]?.text;
+  if (typeof content === 'string') {
+    return content;
+  }
+  throw new Error(`Unexpected response format from server: ${JSON.stringify(data).slice(0, 200)}...`);
+}
+
+/**
+ * MODELS RESPONSE PARSER
+ * ======================
+ * 
+ * @param data - Parsed JSON body from `/v1/models`
+ * @returns Served models sorted by name
+ */
+export function parseOpenAIModels(data: any): ModelInfo[] {
+  const entries: any[] = Array.isArray(data?.data) ? data.data : [];
+  
+  return entries
+    .filter((entry) => typeof entry?.id === 'string' && entry.id)
+    .map((entry) => ({
+      name: entry.id as string,
+      size: 0,
+      family: typeof entry.owned_by === 'string' ? entry.owned_by : undefined
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * OPENAI-COMPATIBLE PROVIDER CLASS
+ * ================================
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly id = 'openai' as const;
+  
+  /**
+   * @param config - Fully resolved configuration for this request
+   */
+  constructor(private readonly config: LLMConfig) {}
+  
+  /**
+   * GENERATE
+   * ========
+   * 
+   * Sends the prompt as a single user message to /v1/chat/completions.
+   */
+  public async generate(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    return this.chat([{ role: 'user', content: prompt }], options);
+  }
+  
+  /**
+   * CHAT
+   * ====
+   * 
+   * Sends the conversation to /v1/chat/completions.
+   */
+  public async chat(messages: ChatMessage[], options: GenerationOptions = {}): Promise<string> {
+    console.log('Sending request to OpenAI-compatible server:', {
+      model: this.config.modelName,
+      stream: this.config.stream,
+      messageCount: messages.length
+    });
+    return this.post('/v1/chat/completions', { messages }, options);
+  }
+  
+  /**
+   * INFILL
+   * ======
+   * 
+   * Sends the code around the cursor to /v1/completions as `prompt` and
+   * `suffix` (supported by vLLM, LocalAI and other servers running code
+   * models).
+   */
+  public async infill(prefix: string, suffix: string, options: GenerationOptions = {}): Promise<string> {
+    console.log('Sending infill request to OpenAI-compatible server:', {
+      model: this.config.modelName,
+      prefixLength: prefix.length,
+      suffixLength: suffix.length
+    });
+    return this.post('/v1/completions', { prompt: prefix, suffix }, options);
+  }
+  
+  /**
+   * REQUEST SENDER
+   * ==============
+   * 
+   * Posts to a completion endpoint and reads the answer, streamed or not.
+   * 
+   * @param path - '/v1/chat/completions' or '/v1/completions'
+   * @param payload - The messages, or the prompt and suffix, for that endpoint
+   * @param options - Streaming callback and abort signal
+   * @returns The generated text
+   */
+  private async post(path: string, payload: object, options: GenerationOptions): Promise<string> {
+    const { config } = this;
+    
+    return sendHttpRequest({
+      url: joinUrl(config.baseUrl, path),
+      body: {
+        model: config.modelName,
+        ...payload,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        stream: config.stream
+      },
+      headers: this.authHeaders(),
+      timeoutSeconds: config.requestTimeout,
+      serverLabel: 'OpenAI-compatible server'
+    }, options, async (response, onActivity) => {
+      
+      // Server-sent events: one `data: {...}` line per chunk, ending with `data: [DONE]`
+      if (config.stream && response.body) {
+        let fullResponse = '';
+        await readLines(response.body, (line) => {
+          const data = parseSseData(line);
+          if (data === undefined || data === '') {
+            return false;
+          }
+          if (data === '[DONE]') {
+            return true;
+          }
+          const token = parseOpenAIStreamChunk(data);
+          if (token) {
+            fullResponse += token;
+            options.onToken?.(token);
+          }
+          return false;
+        }, onActivity);
+        return fullResponse;
+      }
+      
+      const fullResponse = parseOpenAIResponse(await response.json());
+      options.onToken?.(fullResponse);
+      return fullResponse;
+    });
+  }
+  
+  /**
+   * LIST MODELS
+   * ===========
+   * 
+   * Reads the served models from /v1/models.
+   */
+  public async listModels(): Promise<ModelInfo[]> {
+    return sendHttpRequest({
+      url: joinUrl(this.config.baseUrl, '/v1/models'),
+      headers: this.authHeaders(),
+      timeoutSeconds: 10,
+      serverLabel: 'OpenAI-compatible server'
+    }, {}, async (response) => parseOpenAIModels(await response.json()));
+  }
+  
+  /**
+   * AUTH HEADERS
+   * ============
+   * 
+   * @returns An Authorization header when an API key is configured
+   */
+  private authHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+}
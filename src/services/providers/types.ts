@@ -0,0 +1,127 @@
+/**
+ * LLM PROVIDER TYPES
+ * ==================
+ * 
+ * Shared types for talking to different kinds of model servers.
+ * Every server type (Ollama, OpenAI-compatible servers such as vLLM or
+ * LM Studio, llama.cpp) implements the same LLMProvider interface, so the
+ * rest of the extension never needs to know which one is in use.
+ */
+
+/** Identifiers for the supported server types (used in `jarnox.provider`) */
+export type ProviderId = 'ollama' | 'openai' | 'llamacpp';
+
+/** Every provider id, in the order shown in settings */
+export const PROVIDER_IDS: ProviderId[] = ['ollama', 'openai', 'llamacpp'];
+
+/**
+ * GENERATION OPTIONS
+ * ==================
+ * 
+ * Extra hooks a caller can pass along with a request.
+ */
+export interface GenerationOptions {
+  /**
+   * Called with each piece of text as soon as the server sends it.
+   * When streaming is off, it is called once with the complete response.
+   */
+  onToken?: (token: string) => void;
+  
+  /**
+   * Aborts the request when signalled (for example by a Stop button or
+   * the cancel button on a progress notification).
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * Asks for a reply that is one JSON value. Ollama constrains the model
+   * with `format: "json"`; other servers rely on the prompt asking for JSON.
+   */
+  json?: boolean;
+}
+
+/** Who wrote a chat message */
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+/**
+ * CHAT MESSAGE
+ * ============
+ * 
+ * One turn of a conversation, in the shape chat APIs expect.
+ */
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+/**
+ * MODEL INFO
+ * ==========
+ * 
+ * Details about one model available on the server. Only `name` is
+ * guaranteed; the other fields are filled in when the server reports them.
+ */
+export interface ModelInfo {
+  /** Model name to send in requests (like 'llama3.2:latest') */
+  name: string;
+  
+  /** Size on disk in bytes (0 when unknown) */
+  size: number;
+  
+  /** Model family (like 'llama' or 'qwen2') */
+  family?: string;
+  
+  /** Parameter count as text (like '7.6B') */
+  parameterSize?: string;
+  
+  /** Quantization level (like 'Q4_K_M') */
+  quantization?: string;
+}
+
+/**
+ * LLM PROVIDER INTERFACE
+ * ======================
+ * 
+ * What every model server integration must be able to do.
+ */
+export interface LLMProvider {
+  /** Which kind of server this provider talks to */
+  readonly id: ProviderId;
+  
+  /**
+   * Sends a prompt and returns the complete answer.
+   * 
+   * @param prompt - The complete prompt to send
+   * @param options - Streaming callback and abort signal
+   * @returns The generated text
+   */
+  generate(prompt: string, options?: GenerationOptions): Promise<string>;
+  
+  /**
+   * Sends a whole conversation and returns the assistant's next reply.
+   * 
+   * @param messages - System instructions and earlier turns, oldest first
+   * @param options - Streaming callback and abort signal
+   * @returns The reply text
+   */
+  chat(messages: ChatMessage[], options?: GenerationOptions): Promise<string>;
+  
+  /**
+   * Fills in the middle: generates the text that belongs between the code
+   * before the cursor and the code after it. Needs a model trained for
+   * fill-in-the-middle (like qwen2.5-coder or codellama:code).
+   * 
+   * @param prefix - Text before the cursor
+   * @param suffix - Text after the cursor
+   * @param options - Streaming callback and abort signal
+   * @returns The text to insert at the cursor
+   */
+  infill(prefix: string, suffix: string, options?: GenerationOptions): Promise<string>;
+  
+  /**
+   * Lists the models the server can run.
+   * 
+   * @returns Available models sorted by name
+   */
+  listModels(): Promise<ModelInfo[]>;
+}
@@ -0,0 +1,553 @@
+/**
+ * WORKSPACE INDEX MODULE
+ * ======================
+ *
+ * Lets `@workspace` prompts see the code that matters for the request,
+ * so the model uses the project's real functions instead of inventing
+ * them.
+ *
+ * How it works:
+ * 1. The first `@workspace` prompt reads the workspace's text files
+ *    (skipping whatever `.gitignore` and `jarnox.retrieval.exclude`
+ *    ignore), splits them into chunks of about 40 lines and indexes the
+ *    chunks with BM25 (utils/bm25.ts)
+ * 2. File watchers keep the index up to date: changed files are indexed
+ *    again, deleted files are dropped
+ * 3. A search returns the best matching chunks. With
+ *    `jarnox.retrieval.embeddingModel` set, the best keyword matches are
+ *    re-ranked by meaning using Ollama's `/api/embeddings`
+ *
+ * Everything stays on this machine (and the configured Ollama server).
+ */
+
+import * as vscode from 'vscode';
+import { readSetting } from './configService';
+import { RequestCancelledError, generateEmbedding, isCancellationError } from './llmService';
+import { Bm25Index } from '../utils/bm25';
+import { chunkText, type TextChunk } from '../utils/chunker';
+import { IgnoreMatcher } from '../utils/ignoreMatcher';
+
+/** Largest file indexed, in bytes (bigger files are usually generated) */
+const MAX_FILE_BYTES = 256 * 1024;
+
+/** Folders never indexed, whatever .gitignore says */
+const ALWAYS_EXCLUDED = '{**/node_modules/**,**/.git/**}';
+
+/** Keyword matches re-ranked when embeddings are used */
+const RERANK_CANDIDATES = 30;
+
+/** Milliseconds to wait after a file change before indexing it again */
+const UPDATE_DELAY_MS = 500;
+
+/**
+ * RETRIEVED CHUNK
+ * ===============
+ */
+export interface RetrievedChunk extends TextChunk {
+  /** Relevance (higher is better; only comparable within one search) */
+  score: number;
+}
+
+/**
+ * SEARCH OPTIONS
+ * ==============
+ */
+export interface SearchOptions {
+  /** Re-rank with embeddings when an embedding model is configured */
+  useEmbeddings?: boolean;
+
+  /**
+   * Aborts the embedding requests, and stops waiting for the index to be
+   * built (the build itself goes on, for the next search)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * CITATION FORMATTER
+ * ==================
+ *
+ * @param chunk - A retrieved chunk
+ * @returns How the chunk is cited, like 'src/auth.ts:12-48'
+ */
+export function formatCitation(chunk: TextChunk): string {
+  return `${chunk.path}:${chunk.startLine}-${chunk.endLine}`;
+}
+
+/**
+ * COSINE SIMILARITY
+ * =================
+ *
+ * @param a - First vector
+ * @param b - Second vector (same length)
+ * @returns How closely the vectors point the same way, from -1 to 1
+ *   (0 for empty or mismatched vectors)
+ */
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * OVERLAP FILTER
+ * ==============
+ *
+ * Drops chunks that overlap a better chunk of the same file, so the
+ * prompt does not carry the same lines twice.
+ *
+ * @param ranked - Chunks, best first
+ * @param limit - Most chunks to keep
+ * @returns The best chunks that do not overlap each other
+ */
+export function selectDistinctChunks<T extends TextChunk>(ranked: readonly T[], limit: number): T[] {
+  const selected: T[] = [];
+  for (const chunk of ranked) {
+    if (selected.length >= limit) {
+      break;
+    }
+    const overlaps = selected.some((other) =>
+      other.path === chunk.path && other.startLine <= chunk.endLine && chunk.startLine <= other.endLine
+    );
+    if (!overlaps) {
+      selected.push(chunk);
+    }
+  }
+  return selected;
+}
+
+/**
+ * ABORTABLE WAIT
+ * ==============
+ *
+ * @param promise - Work to wait for
+ * @param signal - Stops the wait (the work itself is not stopped)
+ * @returns The result of the work
+ * @throws RequestCancelledError if the signal aborts first
+ */
+function waitUnlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestCancelledError());
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * WORKSPACE INDEX CLASS
+ * =====================
+ */
+export class WorkspaceIndex {
+
+  /** Keyword index over all chunks */
+  private readonly bm25 = new Bm25Index();
+
+  /** Chunks by id */
+  private readonly chunks = new Map<string, TextChunk>();
+
+  /** Chunk ids of every indexed file, by file URI */
+  private readonly fileChunkIds = new Map<string, string[]>();
+
+  /** Embeddings computed so far, by chunk id */
+  private readonly embeddings = new Map<string, number[]>();
+
+  /** Ignore rules of every workspace folder, by folder URI */
+  private matchers = new Map<string, IgnoreMatcher>();
+
+  /** The running or finished initial build */
+  private building?: Promise<void>;
+
+  /**
+   * Raised by invalidate(). A build or update started under an older
+   * generation stops without writing, so it cannot mix files read with
+   * the old folders or ignore rules into the new index.
+   */
+  private generation = 0;
+
+  /** Files waiting to be indexed again after a change */
+  private readonly pendingUpdates = new Map<string, vscode.Uri>();
+
+  /** Timer that processes pendingUpdates */
+  private updateTimer?: ReturnType<typeof setTimeout>;
+
+  /** Whether the "embeddings failed" message was logged already */
+  private embeddingFailureLogged = false;
+
+  /** Number of chunks in the index */
+  public get chunkCount(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * SEARCHER
+   * ========
+   *
+   * Builds the index on first use, then returns the chunks that best match
+   * the query.
+   *
+   * @param query - The user's request
+   * @param limit - Most chunks to return
+   * @param options - Whether to use embeddings, and an abort signal
+   * @returns The best chunks, best first, without overlapping lines
+   * @throws RequestCancelledError if the signal aborted the search
+   */
+  public async search(query: string, limit: number, options: SearchOptions = {}): Promise<RetrievedChunk[]> {
+    await waitUnlessAborted(this.ensureBuilt(), options.signal);
+    const embeddingModel = readSetting<string>('retrieval.embeddingModel', '').trim();
+    const rerank = Boolean(options.useEmbeddings && embeddingModel);
+    const hits = this.bm25.search(query, rerank ? RERANK_CANDIDATES : limit * 3);
+    if (hits.length === 0) {
+      return [];
+    }
+
+    let ranked = hits.map((hit) => ({ ...this.chunks.get(hit.id)!, score: hit.score }));
+    if (rerank) {
+      try {
+        const queryVector = await generateEmbedding(query, embeddingModel, { signal: options.signal });
+        const bestKeywordScore = hits[0].score;
+        for (const [index, hit] of hits.entries()) {
+          const vector = await this.embeddingFor(hit.id, ranked[index], embeddingModel, options.signal);
+          // Half keyword match, half meaning
+          ranked[index].score = 0.5 * (hit.score / bestKeywordScore) + 0.5 * cosineSimilarity(queryVector, vector);
+        }
+        ranked = ranked.sort((a, b) => b.score - a.score);
+      } catch (error) {
+        if (isCancellationError(error)) {
+          throw error;
+        }
+        if (!this.embeddingFailureLogged) {
+          this.embeddingFailureLogged = true;
+          console.log('Workspace index: embeddings failed, using keyword search only:', error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    return selectDistinctChunks(ranked, limit);
+  }
+
+  /**
+   * BUILD STARTER
+   * =============
+   *
+   * Waits again when the index is invalidated during the build, since the
+   * stopped build left only part of the files indexed.
+   *
+   * @returns Resolves once the initial index is built
+   */
+  public async ensureBuilt(): Promise<void> {
+    let generation: number;
+    do {
+      generation = this.generation;
+      if (!this.building) {
+        const building: Promise<void> = this.build().catch((error) => {
+          // Let the next search try again (unless a newer build took over)
+          if (this.building === building) {
+            this.building = undefined;
+          }
+          throw error;
+        });
+        this.building = building;
+      }
+      await this.building;
+    } while (generation !== this.generation);
+  }
+
+  /**
+   * INDEX RESETTER
+   * ==============
+   *
+   * Forgets the index; the next search builds it again. Used when the
+   * ignore rules or the retrieval settings change.
+   */
+  public invalidate(): void {
+    this.generation++;
+    for (const id of this.chunks.keys()) {
+      this.bm25.remove(id);
+    }
+    this.chunks.clear();
+    this.fileChunkIds.clear();
+    this.embeddings.clear();
+    this.pendingUpdates.clear();
+    this.building = undefined;
+    this.embeddingFailureLogged = false;
+  }
+
+  /**
+   * FILE WATCHER
+   * ============
+   *
+   * Keeps the index in step with the workspace once it has been built.
+   *
+   * @returns Disposable that stops watching
+   */
+  public watch(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    const onFileChange = (uri: vscode.Uri) => {
+      if (uri.path.endsWith('/.gitignore')) {
+        this.invalidate();
+      } else if (this.building) {
+        this.scheduleUpdate(uri);
+      }
+    };
+
+    const disposables = [
+      watcher,
+      watcher.onDidCreate(onFileChange),
+      watcher.onDidChange(onFileChange),
+      watcher.onDidDelete(onFileChange),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('jarnox.retrieval')) {
+          this.invalidate();
+        }
+      })
+    ];
+    return new vscode.Disposable(() => {
+      clearTimeout(this.updateTimer);
+      disposables.forEach((disposable) => disposable.dispose());
+    });
+  }
+
+  /**
+   * INDEX BUILDER
+   * =============
+   *
+   * Reads and indexes every file that is not ignored, up to
+   * `jarnox.retrieval.maxFiles` files.
+   */
+  private async build(): Promise<void> {
+    const started = Date.now();
+    const generation = this.generation;
+    const matchers = await this.loadIgnoreRules();
+    if (generation !== this.generation) {
+      return;
+    }
+    this.matchers = matchers;
+
+    const maxFiles = readSetting<number>('retrieval.maxFiles', 5000);
+    const files = (await vscode.workspace.findFiles('**/*', ALWAYS_EXCLUDED))
+      .filter((uri) => this.isIndexable(uri))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    if (files.length > maxFiles) {
+      console.log(`Workspace index: ${files.length} files found, indexing the first ${maxFiles} (jarnox.retrieval.maxFiles)`);
+    }
+
+    for (const uri of files.slice(0, maxFiles)) {
+      if (generation !== this.generation) {
+        console.log('Workspace index: build stopped, the index was reset');
+        return;
+      }
+      await this.indexFile(uri, generation);
+    }
+    console.log(`Workspace index: ${this.chunks.size} chunks from ${this.fileChunkIds.size} files in ${Date.now() - started} ms`);
+  }
+
+  /**
+   * IGNORE RULE LOADER
+   * ==================
+   *
+   * Reads the `.gitignore` files of every workspace folder, parents before
+   * subfolders, and adds `jarnox.retrieval.exclude`.
+   *
+   * @returns Ignore rules by workspace folder URI
+   */
+  private async loadIgnoreRules(): Promise<Map<string, IgnoreMatcher>> {
+    const matchers = new Map<string, IgnoreMatcher>();
+    const exclude = readSetting<string[]>('retrieval.exclude', []);
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const matcher = new IgnoreMatcher();
+      matcher.add(['.git/', 'node_modules/']);
+      const gitignores = (await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, '**/.gitignore'),
+        ALWAYS_EXCLUDED
+      )).sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+      for (const uri of gitignores) {
+        try {
+          const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+          const directory = this.folderRelativePath(folder, uri).replace(/\/?\.gitignore$/, '');
+          matcher.add(text, directory);
+        } catch (error) {
+          console.log(`Workspace index: could not read ${uri.fsPath}:`, error instanceof Error ? error.message : error);
+        }
+      }
+      matcher.add(exclude);
+      matchers.set(folder.uri.toString(), matcher);
+    }
+    return matchers;
+  }
+
+  /**
+   * INDEXABLE CHECK
+   * ===============
+   *
+   * @param uri - File to check
+   * @returns true if the file is in a workspace folder and not ignored
+   */
+  private isIndexable(uri: vscode.Uri): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const matcher = folder && this.matchers.get(folder.uri.toString());
+    return Boolean(matcher && !matcher.ignores(this.folderRelativePath(folder, uri)));
+  }
+
+  /**
+   * FILE INDEXER
+   * ============
+   *
+   * (Re)indexes one file. Files that are too large, binary or gone are
+   * removed from the index instead.
+   *
+   * @param uri - File to index
+   * @param generation - Index generation the caller started under
+   */
+  private async indexFile(uri: vscode.Uri, generation: number): Promise<void> {
+    let text: string | undefined;
+    let gone = false;
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.type === vscode.FileType.File && stat.size <= MAX_FILE_BYTES) {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+      }
+    } catch {
+      gone = true;
+    }
+    if (generation !== this.generation) {
+      // The index was reset while the file was read
+      return;
+    }
+
+    // Gone: it may have been a folder, so drop what was inside too
+    this.removeFile(uri, gone);
+    if (text === undefined || text.includes('\u0000')) {
+      return;
+    }
+
+    const key = uri.toString();
+    const ids: string[] = [];
+    for (const chunk of chunkText(vscode.workspace.asRelativePath(uri), text)) {
+      const id = `${key}#${chunk.startLine}`;
+      this.chunks.set(id, chunk);
+      // The path is indexed too, so "the auth middleware" finds src/auth/middleware.ts
+      this.bm25.add(id, `${chunk.path}\n${chunk.text}`);
+      ids.push(id);
+    }
+    if (ids.length > 0) {
+      this.fileChunkIds.set(key, ids);
+    }
+  }
+
+  /**
+   * FILE REMOVER
+   * ============
+   *
+   * @param uri - File whose chunks are dropped
+   * @param withChildren - Also drop every file below the path (for a deleted folder)
+   */
+  private removeFile(uri: vscode.Uri, withChildren = false): void {
+    const key = uri.toString();
+    const keys = withChildren
+      ? [...this.fileChunkIds.keys()].filter((candidate) => candidate === key || candidate.startsWith(key + '/'))
+      : [key].filter((candidate) => this.fileChunkIds.has(candidate));
+    for (const fileKey of keys) {
+      for (const id of this.fileChunkIds.get(fileKey)!) {
+        this.bm25.remove(id);
+        this.chunks.delete(id);
+        this.embeddings.delete(id);
+      }
+      this.fileChunkIds.delete(fileKey);
+    }
+  }
+
+  /**
+   * UPDATE SCHEDULER
+   * ================
+   *
+   * Collects changed files and indexes them after a short pause, so a
+   * branch switch or a formatter run does not index a file many times.
+   *
+   * @param uri - File that was created, changed or deleted
+   */
+  private scheduleUpdate(uri: vscode.Uri): void {
+    this.pendingUpdates.set(uri.toString(), uri);
+    clearTimeout(this.updateTimer);
+    this.updateTimer = setTimeout(() => {
+      this.flushUpdates().catch((error) => console.error('Workspace index update failed:', error));
+    }, UPDATE_DELAY_MS);
+  }
+
+  /**
+   * UPDATE PROCESSOR
+   * ================
+   *
+   * Indexes the changed files again once the initial build is done.
+   */
+  private async flushUpdates(): Promise<void> {
+    await this.building;
+    const generation = this.generation;
+    const uris = [...this.pendingUpdates.values()];
+    this.pendingUpdates.clear();
+    for (const uri of uris) {
+      if (generation !== this.generation) {
+        return;
+      }
+      if (this.isIndexable(uri)) {
+        await this.indexFile(uri, generation);
+      } else {
+        this.removeFile(uri, true);
+      }
+    }
+  }
+
+  /**
+   * CHUNK EMBEDDER
+   * ==============
+   *
+   * @param id - Id of the chunk
+   * @param chunk - The chunk to embed
+   * @param model - Embedding model
+   * @param signal - Aborts the request
+   * @returns The chunk's embedding (computed once, then cached until the file changes)
+   */
+  private async embeddingFor(id: string, chunk: TextChunk, model: string, signal?: AbortSignal): Promise<number[]> {
+    let vector = this.embeddings.get(id);
+    if (!vector) {
+      const generation = this.generation;
+      vector = await generateEmbedding(`${chunk.path}\n${chunk.text}`, model, { signal });
+      if (generation === this.generation) {
+        this.embeddings.set(id, vector);
+      }
+    }
+    return vector;
+  }
+
+  /**
+   * FOLDER-RELATIVE PATH
+   * ====================
+   *
+   * @param folder - Workspace folder holding the file
+   * @param uri - File inside it
+   * @returns The file's path relative to the folder, with forward slashes
+   */
+  private folderRelativePath(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+    return uri.path.slice(folder.uri.path.replace(/\/$/, '').length + 1);
+  }
+}
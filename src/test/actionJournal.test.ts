@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { ActionJournal, MAX_JOURNAL_ENTRIES } from '../services/actionJournal';
+
+/** In-memory stand-in for the extension's workspaceState */
+function createMemento(): any {
+  const values = new Map<string, unknown>();
+  return {
+    get: (key: string, fallback?: unknown) => (values.has(key) ? values.get(key) : fallback),
+    update: async (key: string, value: unknown) => { values.set(key, value); },
+    keys: () => [...values.keys()],
+  };
+}
+
+/** Minimal Uri-like object; the journal only calls toString() when recording */
+function uri(path: string): any {
+  return { toString: () => 'file://' + path };
+}
+
+describe('Action journal', () => {
+  it('records entries newest first and skips changes without snapshots', async () => {
+    let changes = 0;
+    const journal = new ActionJournal(createMemento(), () => changes++);
+
+    await journal.record('first', [{ kind: 'file', uri: uri('/a.ts'), previousContent: undefined }]);
+    await journal.record('nothing', []);
+    await journal.record('second', [{ kind: 'document', uri: uri('/b.ts'), previousText: 'old', wasDirty: false }]);
+
+    const entries = journal.entries();
+    expect(entries.map((entry) => entry.label)).to.deep.equal(['second', 'first']);
+    expect(entries[1].snapshots[0]).to.deep.equal({ kind: 'file', uri: 'file:///a.ts', previousContent: null });
+    expect(entries[0].snapshots[0]).to.deep.equal({ kind: 'document', uri: 'file:///b.ts', previousText: 'old', wasDirty: false });
+    expect(changes).to.equal(2);
+  });
+
+  it('keeps only the most recent entries', async () => {
+    const journal = new ActionJournal(createMemento());
+    for (let i = 0; i < MAX_JOURNAL_ENTRIES + 5; i++) {
+      await journal.record('change ' + i, [{ kind: 'document', uri: uri('/a.ts'), previousText: String(i), wasDirty: false }]);
+    }
+    const entries = journal.entries();
+    expect(entries).to.have.length(MAX_JOURNAL_ENTRIES);
+    expect(entries[0].label).to.equal('change ' + (MAX_JOURNAL_ENTRIES + 4));
+  });
+
+  it('finds newer changes to the same files, including renames', async () => {
+    const journal = new ActionJournal(createMemento());
+    await journal.record('create a', [{ kind: 'file', uri: uri('/a.ts'), previousContent: undefined }]);
+    await journal.record('edit b', [{ kind: 'document', uri: uri('/b.ts'), previousText: '', wasDirty: false }]);
+    await journal.record('move a', [{ kind: 'rename', uri: uri('/c.ts'), previousUri: uri('/a.ts') }]);
+
+    const [move, editB, createA] = journal.entries();
+    expect(journal.findLaterChanges(createA.id)).to.deep.equal(['file:///a.ts']);
+    expect(journal.findLaterChanges(editB.id)).to.deep.equal([]);
+    expect(journal.findLaterChanges(move.id)).to.deep.equal([]);
+  });
+
+  it('reports a newer file at the old path of a rename', async () => {
+    const journal = new ActionJournal(createMemento());
+    await journal.record('move a', [{ kind: 'rename', uri: uri('/c.ts'), previousUri: uri('/a.ts') }]);
+    await journal.record('create a again', [{ kind: 'file', uri: uri('/a.ts'), previousContent: undefined }]);
+
+    const [, move] = journal.entries();
+    expect(journal.findLaterChanges(move.id)).to.deep.equal(['file:///a.ts']);
+  });
+});
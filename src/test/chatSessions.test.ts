@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import {
+  ChatSessionStore,
+  DEFAULT_SESSION_TITLE,
+  MAX_CHAT_SESSIONS,
+  buildChatMessages,
+  deriveSessionTitle,
+} from '../services/chatSessions';
+import { buildPromptForModel, buildSystemPrompt, buildUserMessage } from '../services/llmService';
+
+/** In-memory stand-in for the extension's workspaceState */
+function createMemento(): any {
+  const values = new Map<string, unknown>();
+  return {
+    get: (key: string, fallback?: unknown) => (values.has(key) ? values.get(key) : fallback),
+    update: async (key: string, value: unknown) => { values.set(key, value); },
+    keys: () => [...values.keys()],
+  };
+}
+
+describe('Chat sessions', () => {
+  it('names sessions after the first line of the request', () => {
+    expect(deriveSessionTitle('  add a   login form\nwith validation')).to.equal('add a login form');
+    expect(deriveSessionTitle('')).to.equal(DEFAULT_SESSION_TITLE);
+    const long = deriveSessionTitle('x'.repeat(100));
+    expect(long).to.have.length(40);
+    expect(long.endsWith('…')).to.equal(true);
+  });
+
+  it('sends the system prompt, recent history starting with a user turn, then the request', () => {
+    const history = [
+      { role: 'user' as const, content: 'q1' },
+      { role: 'assistant' as const, content: 'a1' },
+      { role: 'user' as const, content: 'q2' },
+      { role: 'assistant' as const, content: 'a2' },
+    ];
+
+    expect(buildChatMessages('sys', history, 'q3').map((m) => m.content))
+      .to.deep.equal(['sys', 'q1', 'a1', 'q2', 'a2', 'q3']);
+    // Cutting at three messages would start with an assistant reply, so it is dropped
+    expect(buildChatMessages('sys', history, 'q3', 3).map((m) => m.content))
+      .to.deep.equal(['sys', 'q2', 'a2', 'q3']);
+    expect(buildChatMessages('sys', history, 'q3', 0).map((m) => m.role))
+      .to.deep.equal(['system', 'user']);
+  });
+
+  it('splits the single-shot prompt into system and user parts', () => {
+    const extras = { context: '### Active file\nsrc/a.ts' };
+    expect(buildPromptForModel('do it', extras))
+      .to.equal(buildSystemPrompt() + '\n\n' + buildUserMessage('do it', extras));
+    expect(buildUserMessage('do it')).to.equal('User request:\ndo it');
+  });
+
+  it('creates, records turns, renames and deletes sessions', async () => {
+    let changes = 0;
+    const store = new ChatSessionStore(createMemento(), () => changes++);
+    expect(store.activeSession()).to.equal(undefined);
+
+    const first = await store.ensureActiveSession();
+    expect(store.activeSession()?.id).to.equal(first.id);
+    expect(await store.ensureActiveSession()).to.deep.equal(first);
+
+    await store.appendTurn(first.id, 'write a parser', 'ok');
+    const stored = store.get(first.id)!;
+    expect(stored.title).to.equal('write a parser');
+    expect(stored.messages).to.deep.equal([
+      { role: 'user', content: 'write a parser' },
+      { role: 'assistant', content: 'ok' },
+    ]);
+
+    await store.rename(first.id, '  Parser work ');
+    await store.rename(first.id, '   ');
+    await store.appendTurn(first.id, 'now add tests', 'done');
+    expect(store.get(first.id)!.title).to.equal('Parser work');
+
+    const second = await store.create();
+    expect(store.activeSession()?.id).to.equal(second.id);
+    await store.delete(second.id);
+    expect(store.activeSession()?.id).to.equal(first.id);
+    expect(await store.setActive('missing')).to.equal(false);
+    expect(changes).to.equal(6);
+  });
+
+  it('keeps only the most recently used sessions', async () => {
+    const store = new ChatSessionStore(createMemento());
+    for (let i = 0; i < MAX_CHAT_SESSIONS + 3; i++) {
+      await store.create();
+    }
+    expect(store.sessions()).to.have.length(MAX_CHAT_SESSIONS);
+  });
+});
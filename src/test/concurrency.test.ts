@@ -0,0 +1,41 @@
+import { expect } from 'chai';
+
+import { runWithConcurrency } from '../utils/concurrency';
+
+describe('runWithConcurrency', () => {
+  it('never runs more jobs than the limit and keeps results in item order', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const progress: number[] = [];
+
+    const results = await runWithConcurrency(
+      [30, 10, 20, 5, 15],
+      2,
+      async (delay, index) => {
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return index * 10;
+      },
+      (done) => progress.push(done)
+    );
+
+    expect(mostRunning).to.equal(2);
+    expect(results.map((result) => (result as PromiseFulfilledResult<number>).value)).to.deep.equal([0, 10, 20, 30, 40]);
+    expect(progress).to.deep.equal([1, 2, 3, 4, 5]);
+  });
+
+  it('keeps going after a failure and reports it in place', async () => {
+    const results = await runWithConcurrency(['a', 'bad', 'c'], 0, async (item) => {
+      if (item === 'bad') {
+        throw new Error('server error');
+      }
+      return item.toUpperCase();
+    });
+
+    expect(results.map((result) => result.status)).to.deep.equal(['fulfilled', 'rejected', 'fulfilled']);
+    expect((results[1] as PromiseRejectedResult).reason.message).to.equal('server error');
+    expect(await runWithConcurrency([], 4, async () => 1)).to.deep.equal([]);
+  });
+});
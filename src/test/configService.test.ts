@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+// configService only touches the vscode API inside functions, so an empty stub is enough
+mock('vscode', {});
+
+import { applyProfile, normalizeBaseUrl, DEFAULT_LLM_CONFIG } from '../services/configService';
+
+describe('Configuration service', () => {
+  describe('applyProfile', () => {
+    it('returns a copy of the base config when no profile is given', () => {
+      const out = applyProfile(DEFAULT_LLM_CONFIG);
+      expect(out).to.deep.equal(DEFAULT_LLM_CONFIG);
+      expect(out).to.not.equal(DEFAULT_LLM_CONFIG);
+    });
+
+    it('maps profile fields onto the config', () => {
+      const out = applyProfile(DEFAULT_LLM_CONFIG, {
+        provider: 'openai',
+        baseUrl: 'http://localhost:11434',
+        apiKey: 'secret',
+        model: 'qwen2.5-coder:7b',
+        temperature: 0.1,
+        maxTokens: 2048,
+        stream: false,
+        requestTimeout: 30,
+      });
+      expect(out).to.deep.equal({
+        provider: 'openai',
+        baseUrl: 'http://localhost:11434',
+        apiKey: 'secret',
+        modelName: 'qwen2.5-coder:7b',
+        temperature: 0.1,
+        maxTokens: 2048,
+        stream: false,
+        requestTimeout: 30,
+      });
+    });
+
+    it('ignores fields with the wrong type or empty strings', () => {
+      const out = applyProfile(DEFAULT_LLM_CONFIG, {
+        provider: 'bard' as any,
+        baseUrl: '  ',
+        model: 42 as any,
+        temperature: '0.2' as any,
+      });
+      expect(out).to.deep.equal(DEFAULT_LLM_CONFIG);
+    });
+  });
+
+  describe('normalizeBaseUrl', () => {
+    it('removes trailing slashes and whitespace', () => {
+      expect(normalizeBaseUrl(' http://localhost:11434/// ')).to.equal('http://localhost:11434');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import {
+  parseMentions,
+  estimateTokens,
+  computeCursorWindows,
+  formatContextSections,
+} from '../services/contextBuilder';
+import { buildPromptForModel } from '../services/llmService';
+
+describe('Context builder', () => {
+  describe('parseMentions', () => {
+    it('finds mentions and replaces them with plain words', () => {
+      const parsed = parseMentions('@selection: explain this, then compare with @file:src/util.ts. Also list @workspace.');
+      expect([...parsed.kinds].sort()).to.deep.equal(['selection', 'workspace']);
+      expect(parsed.filePaths).to.deep.equal(['src/util.ts']);
+      expect(parsed.request).to.equal('the selected code: explain this, then compare with src/util.ts. Also list the workspace.');
+    });
+
+    it('keeps a folder prefix in @file paths', () => {
+      expect(parseMentions('compare @file:api:src/util.ts with @file:web:src/util.ts').filePaths)
+        .to.deep.equal(['api:src/util.ts', 'web:src/util.ts']);
+    });
+
+    it('ignores e-mail addresses and unknown mentions', () => {
+      const parsed = parseMentions('mail me@file.com about @everyone');
+      expect(parsed.kinds.size).to.equal(0);
+      expect(parsed.request).to.equal('mail me@file.com about @everyone');
+    });
+  });
+
+  describe('computeCursorWindows', () => {
+    it('clamps to the document and merges overlapping windows', () => {
+      expect(computeCursorWindows([2, 5, 40], 3, 42)).to.deep.equal([
+        { start: 0, end: 8 },
+        { start: 37, end: 41 },
+      ]);
+      expect(computeCursorWindows([0], 0, 1)).to.deep.equal([{ start: 0, end: 0 }]);
+      expect(computeCursorWindows([0], 5, 0)).to.deep.equal([]);
+    });
+  });
+
+  it('estimates tokens and formats sections for the prompt', () => {
+    expect(estimateTokens('')).to.equal(0);
+    expect(estimateTokens('12345678')).to.equal(2);
+
+    const context = formatContextSections([
+      { title: 'Active file', body: 'src/a.ts (language: typescript)' },
+      { title: 'Selection (lines 1-1)', body: 'const a = 1;' },
+    ]);
+    expect(context).to.equal('### Active file\nsrc/a.ts (language: typescript)\n\n### Selection (lines 1-1)\nconst a = 1;');
+
+    const prompt = buildPromptForModel('rename a', { context });
+    expect(prompt).to.contain(`${context}\n\nUser request:\nrename a`);
+    expect(buildPromptForModel('rename a')).to.not.contain('Context from the editor');
+  });
+});
@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import {
+  buildTemplateSystemPrompt,
+  parsePromptTemplate,
+  parseSlashCommand,
+  renderPromptTemplate,
+  templateConfigOverrides,
+  templateNameFromFile
+} from '../services/customPrompts';
+import { buildSystemPrompt } from '../services/llmService';
+
+describe('Custom prompt templates', () => {
+  const variables = { selection: 'x = 1', language: 'python', file: 'app.py', input: '' };
+
+  it('reads model, temperature and output from the front matter', () => {
+    const text = [
+      '---',
+      'description: "Write a docstring"',
+      'model: qwen2.5-coder:7b',
+      'temperature: 0.2',
+      'output: code',
+      '---',
+      'Document this {{language}} code:',
+      '{{selection}}'
+    ].join('\n');
+
+    const { template, problems } = parsePromptTemplate('docstring', text, '.jarnox/prompts/docstring.md');
+
+    expect(problems).to.deep.equal([]);
+    expect(template).to.deep.include({
+      name: 'docstring',
+      description: 'Write a docstring',
+      model: 'qwen2.5-coder:7b',
+      temperature: 0.2,
+      output: 'code',
+      body: 'Document this {{language}} code:\n{{selection}}'
+    });
+    expect(templateConfigOverrides(template)).to.deep.equal({ modelName: 'qwen2.5-coder:7b', temperature: 0.2 });
+  });
+
+  it('reports invalid front matter and falls back to the defaults', () => {
+    const text = '---\noutput: diff\ntemperature: hot\ncolour: blue\n---\nReview {{file}} please';
+
+    const { template, problems } = parsePromptTemplate('review', text, 'review.md');
+
+    expect(template.output).to.equal('action');
+    expect(template.temperature).to.equal(undefined);
+    expect(template.description).to.equal('Review … please');
+    expect(problems).to.have.length(3);
+    expect(parsePromptTemplate('plain', 'Just a prompt', 'plain.md').template.body).to.equal('Just a prompt');
+  });
+
+  it('fills in variables and appends the input when the template has no {{input}}', () => {
+    expect(renderPromptTemplate('Fix {{ file }} ({{language}}): {{input}}', { ...variables, input: 'the loop' }))
+      .to.equal('Fix app.py (python): the loop');
+    expect(renderPromptTemplate('Explain {{selection}} {{unknown}}', { ...variables, input: 'briefly' }))
+      .to.equal('Explain x = 1 {{unknown}}\n\nbriefly');
+    expect(renderPromptTemplate('Explain {{selection}}', variables)).to.equal('Explain x = 1');
+  });
+
+  it('parses slash commands and derives command names from file names', () => {
+    expect(parseSlashCommand('/Docstring  make it short ')).to.deep.equal({ name: 'docstring', input: 'make it short' });
+    expect(parseSlashCommand('/tests')).to.deep.equal({ name: 'tests', input: '' });
+    expect(parseSlashCommand('/usr/bin is missing')).to.equal(undefined);
+    expect(parseSlashCommand('add a /help command')).to.equal(undefined);
+
+    expect(templateNameFromFile('Add-Tests.md')).to.equal('add-tests');
+    expect(templateNameFromFile('notes.txt')).to.equal(undefined);
+    expect(templateNameFromFile('my prompt.md')).to.equal(undefined);
+  });
+
+  it('picks the system prompt from the output mode', () => {
+    expect(buildTemplateSystemPrompt('action')).to.equal(buildSystemPrompt());
+    expect(buildTemplateSystemPrompt('code')).to.contain('ONLY the code');
+    expect(buildTemplateSystemPrompt('chat')).to.contain('only shown in the chat');
+  });
+});
@@ -0,0 +1,29 @@
+import { expect } from 'chai';
+
+import { describeWorkspaceFolders, findFolderIndex, splitFolderPrefix } from '../utils/folderPaths';
+
+describe('Folder paths', () => {
+  it('reads a folder prefix but leaves drive letters to the path policy', () => {
+    expect(splitFolderPrefix('api:src/index.ts')).to.deep.equal({ folder: 'api', path: 'src/index.ts' });
+    expect(splitFolderPrefix(' web app:README.md')).to.deep.equal({ folder: 'web app', path: 'README.md' });
+    expect(splitFolderPrefix('src/index.ts')).to.deep.equal({ path: 'src/index.ts' });
+    expect(splitFolderPrefix('C:\\Windows\\win.ini')).to.deep.equal({ path: 'C:\\Windows\\win.ini' });
+    expect(splitFolderPrefix('C:/Windows/win.ini')).to.deep.equal({ path: 'C:/Windows/win.ini' });
+    expect(splitFolderPrefix('src/a:b.ts')).to.deep.equal({ path: 'src/a:b.ts' });
+  });
+
+  it('matches folder names exactly first, then ignoring case when that is unambiguous', () => {
+    expect(findFolderIndex('api', ['web', 'api'])).to.equal(1);
+    expect(findFolderIndex('API', ['web', 'api'])).to.equal(1);
+    expect(findFolderIndex('Api', ['api', 'API'])).to.equal(-1);
+    expect(findFolderIndex('API', ['api', 'API'])).to.equal(1);
+    expect(findFolderIndex('docs', ['web', 'api'])).to.equal(-1);
+  });
+
+  it('lists the folders and how to name them in actions', () => {
+    expect(describeWorkspaceFolders(['web', 'api'])).to.equal(
+      '- web\n- api\n\nSeveral folders are open. File action paths are relative to one of them: ' +
+      'start the path with the folder name and a colon ("web:src/index.ts") or add "workspace": "web" to the action.'
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import {
+  CompletionCache,
+  cleanInlineCompletion,
+  isLanguageEnabled,
+} from '../ui/inlineCompletionProvider';
+
+describe('Inline completions', () => {
+  it('filters languages with * and !id entries', () => {
+    expect(isLanguageEnabled('python', ['*'])).to.equal(true);
+    expect(isLanguageEnabled('markdown', ['*', '!markdown'])).to.equal(false);
+    expect(isLanguageEnabled('go', ['typescript', 'python'])).to.equal(false);
+    expect(isLanguageEnabled('python', ['typescript', 'python'])).to.equal(true);
+  });
+
+  it('removes fences and code repeated from after the cursor', () => {
+    expect(cleanInlineCompletion(' a, b)', ');')).to.equal(' a, b');
+    expect(cleanInlineCompletion('```ts\nreturn x;\n```', '')).to.equal('return x;');
+    expect(cleanInlineCompletion('  total += x;\n\n', '\n}')).to.equal('  total += x;');
+    expect(cleanInlineCompletion(')', ')')).to.equal('');
+  });
+
+  it('keeps a closing bracket the completion opened itself', () => {
+    expect(cleanInlineCompletion('JSON.stringify(x)', ')')).to.equal('JSON.stringify(x)');
+    expect(cleanInlineCompletion('items[0]', '];')).to.equal('items[0]');
+    expect(cleanInlineCompletion('{ a: 1 }', '}')).to.equal('{ a: 1 }');
+    expect(cleanInlineCompletion('value;', ';')).to.equal('value;');
+    expect(cleanInlineCompletion('JSON.stringify(x));', ');')).to.equal('JSON.stringify(x)');
+  });
+
+  it('keys the cache by document version and drops the least recently used entry', () => {
+    const cache = new CompletionCache(2);
+    const first = CompletionCache.key('file:///a.ts', 1, 10);
+    cache.set(first, 'one');
+    cache.set(CompletionCache.key('file:///a.ts', 1, 20), 'two');
+    expect(cache.get(first)).to.equal('one');
+    cache.set(CompletionCache.key('file:///a.ts', 2, 10), 'three');
+
+    expect(cache.get(first)).to.equal('one');
+    expect(cache.get(CompletionCache.key('file:///a.ts', 1, 20))).to.equal(undefined);
+    cache.clear();
+    expect(cache.get(first)).to.equal(undefined);
+  });
+});
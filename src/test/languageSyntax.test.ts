@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { getLanguageSyntax, tokenizeSource } from '../utils/languageSyntax';
+import {
+  cleanGeneratedCode,
+  convertExplanationsToComments,
+  getCommentPrefix,
+  getCommentSuffix,
+  stripComments,
+  wrapAsComment,
+} from '../utils/textProcessor';
+
+describe('Language-aware comment handling', () => {
+  describe('tokenizeSource', () => {
+    it('keeps comment markers inside strings and regex literals as code', () => {
+      const source = 'const url = "http://x.io"; // link\nconst re = /\\/\\*+/g; /* c */';
+      const segments = tokenizeSource(source, getLanguageSyntax('typescript')!);
+
+      expect(segments.map((s) => s.text).join('')).to.equal(source);
+      expect(segments.filter((s) => s.kind === 'comment').map((s) => s.text)).to.deep.equal(['// link', '/* c */']);
+      expect(segments.filter((s) => s.kind === 'string').map((s) => s.text)).to.deep.equal(['"http://x.io"', '/\\/\\*+/g']);
+    });
+
+    it('treats a slash after an operand as division', () => {
+      const segments = tokenizeSource('const half = total / 2; // note', getLanguageSyntax('javascript')!);
+      expect(segments.filter((s) => s.kind === 'string')).to.deep.equal([]);
+      expect(segments[segments.length - 1]).to.deep.equal({ kind: 'comment', text: '// note' });
+    });
+  });
+
+  describe('stripComments with a language id', () => {
+    it('leaves C preprocessor lines and CSS selectors alone', () => {
+      expect(stripComments('#include <stdio.h>\n// note\nint main() { return 0; }', 'c'))
+        .to.equal('#include <stdio.h>\nint main() { return 0; }');
+      expect(stripComments('#main { color: red; } /* theme */', 'css')).to.equal('#main { color: red; }');
+    });
+
+    it('removes hash comments but not strings, docstrings or the shebang', () => {
+      const input = [
+        '#!/usr/bin/env python',
+        '# helper',
+        'def tag(x):',
+        '    """Return a #tag."""',
+        '    return "#" + x  # prefix',
+      ].join('\n');
+      expect(stripComments(input, 'python')).to.equal([
+        '#!/usr/bin/env python',
+        'def tag(x):',
+        '    """Return a #tag."""',
+        '    return "#" + x',
+      ].join('\n'));
+      expect(stripComments('echo ${#items[@]} # count', 'shellscript')).to.equal('echo ${#items[@]}');
+    });
+
+    it('keeps one blank line between blocks and drops lines that only held comments', () => {
+      const input = [
+        '/**',
+        ' * Adds numbers.',
+        ' */',
+        'function add(a, b) {',
+        '  return a + b;',
+        '}',
+        '',
+        '',
+        '// Subtracts numbers.',
+        'function sub(a, b) {',
+        '  return a - b;',
+        '}',
+        '',
+      ].join('\n');
+      expect(stripComments(input, 'javascript')).to.equal([
+        'function add(a, b) {',
+        '  return a + b;',
+        '}',
+        '',
+        'function sub(a, b) {',
+        '  return a - b;',
+        '}',
+      ].join('\n'));
+    });
+
+    it('does not remove anything from unknown languages', () => {
+      expect(stripComments('# Title\n\n\n// not a comment here', 'plaintext')).to.equal('# Title\n\n// not a comment here');
+    });
+  });
+
+  describe('comment handling modes', () => {
+    const response = [
+      'Here is the helper:',
+      '```python',
+      'def double(x):',
+      '    # twice',
+      '    return x * 2',
+      '```',
+      'It works for floats too.',
+    ].join('\n');
+
+    it('strips, keeps or converts explanations', () => {
+      expect(cleanGeneratedCode(response, 'python', 'strip')).to.equal('def double(x):\n    return x * 2');
+      expect(cleanGeneratedCode(response, 'python', 'keep')).to.equal('def double(x):\n    # twice\n    return x * 2');
+      expect(cleanGeneratedCode(response, 'python', 'convert')).to.equal([
+        '# Here is the helper:',
+        'def double(x):',
+        '    # twice',
+        '    return x * 2',
+        '# It works for floats too.',
+      ].join('\n'));
+    });
+
+    it('uses block comments for languages without line comments', () => {
+      expect(convertExplanationsToComments('A box:\n```html\n<div></div>\n```', 'html'))
+        .to.equal('<!-- A box: -->\n<div></div>');
+    });
+  });
+
+  describe('wrapAsComment', () => {
+    it('picks prefixes and suffixes from the language table', () => {
+      expect([getCommentPrefix('sql'), getCommentPrefix('lua'), getCommentPrefix('haskell')]).to.deep.equal(['-- ', '-- ', '-- ']);
+      expect(getCommentPrefix('css') + 'x' + getCommentSuffix('css')).to.equal('/* x */');
+      expect(getCommentPrefix('markdown') + 'x' + getCommentSuffix('markdown')).to.equal('<!-- x -->');
+      expect(getCommentSuffix('sql')).to.equal('');
+    });
+
+    it('comments every line, keeping relative indentation and adding the given indent', () => {
+      const text = '\n  Steps:\n\n    1. parse\n';
+      expect(wrapAsComment(text, 'python', { indent: '    ' })).to.equal([
+        '    # Steps:',
+        '    #',
+        '    #   1. parse',
+      ].join('\n'));
+    });
+
+    it('builds block and doc comments', () => {
+      expect(wrapAsComment('Adds two\nnumbers', 'typescript', { style: 'doc', indent: '  ' })).to.equal([
+        '  /**',
+        '   * Adds two',
+        '   * numbers',
+        '   */',
+      ].join('\n'));
+      expect(wrapAsComment('Adds two numbers', 'rust', { style: 'doc' })).to.equal('/// Adds two numbers');
+      expect(wrapAsComment('a\nb', 'lua', { style: 'block' })).to.equal('--[[\n  a\n  b\n]]');
+      expect(wrapAsComment('uses */ inside', 'css')).to.equal('/* uses * / inside */');
+      expect(wrapAsComment('note', 'plaintext')).to.equal('// note');
+      expect(wrapAsComment('  \n', 'python')).to.equal('');
+    });
+
+    it('indents converted explanations like the code they describe', () => {
+      const response = 'Inside the class:\n```ts\n  run() {}\n```';
+      expect(convertExplanationsToComments(response, 'typescript')).to.equal('  // Inside the class:\n  run() {}');
+    });
+  });
+});
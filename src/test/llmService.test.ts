@@ -0,0 +1,32 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { formatModelSize, formatModelLabel } from '../services/llmService';
+
+describe('LLM service helpers', () => {
+  describe('formatModelSize', () => {
+    it('formats bytes with a readable unit', () => {
+      expect(formatModelSize(0)).to.equal('');
+      expect(formatModelSize(512)).to.equal('512 B');
+      expect(formatModelSize(4.7 * 1024 ** 3)).to.equal('4.7 GB');
+      expect(formatModelSize(850 * 1024 ** 2)).to.equal('850 MB');
+    });
+  });
+
+  describe('formatModelLabel', () => {
+    it('joins the known details and skips missing ones', () => {
+      expect(formatModelLabel({
+        name: 'qwen2.5-coder:7b',
+        size: 4683087332,
+        family: 'qwen2',
+        parameterSize: '7.6B',
+        quantization: 'Q4_K_M',
+      })).to.equal('qwen2.5-coder:7b · 4.4 GB · qwen2 · 7.6B · Q4_K_M');
+      expect(formatModelLabel({ name: 'llama3.2:latest', size: 2019393189, family: 'llama' }))
+        .to.equal('llama3.2:latest · 1.9 GB · llama');
+      expect(formatModelLabel({ name: 'served-model', size: 0 })).to.equal('served-model');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import {
+  parseModelActions,
+  inspectModelActions,
+  repairModelActions,
+  extractJsonValues,
+  locateReplaceRange,
+} from '../services/modelActions';
+import { describePlanStep } from '../services/planRunner';
+
+describe('Multi-action plans', () => {
+  describe('extractJsonValues', () => {
+    it('finds several objects and ignores braces inside strings', () => {
+      const text = 'Step one: {"a":"}{"} then [1,2] and {"b":{"c":1}} done';
+      expect(extractJsonValues(text)).to.deep.equal([{ a: '}{' }, [1, 2], { b: { c: 1 } }]);
+    });
+
+    it('skips bracketed prose that is not JSON', () => {
+      expect(extractJsonValues('[note] see {"x":1}')).to.deep.equal([{ x: 1 }]);
+      expect(extractJsonValues('{ unterminated')).to.deep.equal([]);
+    });
+  });
+
+  describe('parseModelActions', () => {
+    it('reads an actions envelope in order', () => {
+      const text = JSON.stringify({
+        actions: [
+          { action: 'create_file', path: 'src/a.ts', content: 'export const a = 1;' },
+          { action: 'append_file', path: 'README.md', content: 'More' },
+        ],
+      });
+      expect(parseModelActions(text)).to.deep.equal([
+        { action: 'create_file', path: 'src/a.ts', content: 'export const a = 1;' },
+        { action: 'append_file', path: 'README.md', content: 'More' },
+      ]);
+    });
+
+    it('reads a bare array and several separate objects', () => {
+      const array = '[{"action":"insert_code","content":"x"},{"action":"create_file","path":"b.ts","content":"y"}]';
+      expect(parseModelActions(array).map((a) => a.action)).to.deep.equal(['insert_code', 'create_file']);
+
+      const separate = '{"action":"create_file","path":"a.ts","content":"{}"}\n{"action":"create_file","path":"b.ts","content":"}"}';
+      expect(parseModelActions(separate).map((a) => a.path)).to.deep.equal(['a.ts', 'b.ts']);
+    });
+
+    it('drops unsupported entries and returns [] for plain code', () => {
+      const text = '{"actions":[{"action":"format_disk"},{"action":"create_file","path":"ok.ts","content":""},"junk"]}';
+      expect(parseModelActions(text)).to.deep.equal([{ action: 'create_file', path: 'ok.ts', content: '' }]);
+      expect(parseModelActions('function add(a, b) { return a + b; }')).to.deep.equal([]);
+    });
+  });
+
+  describe('inspectModelActions', () => {
+    it('reports broken actions but ignores JSON that is not an action', () => {
+      expect(inspectModelActions('{"action":"append_file","content":"x"}').problems)
+        .to.deep.equal(['append_file: path is required']);
+      expect(inspectModelActions('{"action":"replace_range","startLine":"3","content":"x"}').problems)
+        .to.deep.equal(['replace_range: "startLine" must be a whole number of 1 or more']);
+      expect(inspectModelActions('{"actions":[{"path":"a.ts"}]}').problems)
+        .to.deep.equal(['"action" must be the name of an action']);
+      expect(inspectModelActions('{"action":"format_disk"}').problems[0]).to.match(/^unsupported action "format_disk"/);
+
+      expect(inspectModelActions('```json\n{"name":"app","version":"1.0.0"}\n```')).to.deep.equal({ actions: [], problems: [] });
+      expect(inspectModelActions('const x = [1, 2];').problems).to.deep.equal([]);
+    });
+
+    it('detects action JSON that cannot be parsed', () => {
+      expect(inspectModelActions('{"action":"create_file","path":"a.ts","content":"x",}').problems[0])
+        .to.match(/^the JSON is not valid: /);
+      expect(inspectModelActions('Sure! {"action": "create_file", "path": "a.ts", "content": "export').problems)
+        .to.deep.equal(['the JSON is incomplete (it was cut off, or a closing bracket is missing)']);
+    });
+  });
+
+  describe('repairModelActions', () => {
+    it('sends the problems back until the reply is valid or the attempts run out', async () => {
+      const requests: string[] = [];
+      const replies = ['{"action":"create_file"', '{"action":"create_file","path":"a.ts","content":"x"}'];
+      const fixed = await repairModelActions('{"action":"create_file","content":"x"}', async (request) => {
+        requests.push(request);
+        return replies.shift()!;
+      }, 3);
+
+      expect(fixed.attempts).to.equal(2);
+      expect(fixed.problems).to.deep.equal([]);
+      expect(fixed.actions).to.deep.equal([{ action: 'create_file', path: 'a.ts', content: 'x' }]);
+      expect(requests[0]).to.contain('- create_file: path is required');
+
+      const unchanged = await repairModelActions('{"action":"delete_file"}', async (_request, previous) => previous, 1);
+      expect(unchanged.attempts).to.equal(1);
+      expect(unchanged.problems).to.deep.equal(['delete_file: path is required']);
+
+      const plainCode = await repairModelActions('let a = 1;', async () => 'unused', 2);
+      expect(plainCode.attempts).to.equal(0);
+    });
+  });
+
+  describe('edit actions', () => {
+    it('accepts well-formed edit actions and rejects incomplete ones', () => {
+      const parse = (value: object) => parseModelActions(JSON.stringify(value));
+      expect(parse({ action: 'replace_range', path: 'a.ts', startLine: 2, content: 'x' })).to.have.length(1);
+      expect(parse({ action: 'replace_range', anchor: 'old', content: 'new' })).to.have.length(1);
+      expect(parse({ action: 'rename_file', path: 'a.ts', newPath: 'b.ts' })).to.have.length(1);
+      expect(parse({ action: 'apply_patch', path: 'a.ts', patch: '@@ -1 +1 @@\n-a\n+b' })).to.have.length(1);
+      expect(parse({ action: 'delete_file', path: 'a.ts', workspace: 'api' })).to.deep.equal([
+        { action: 'delete_file', path: 'a.ts', workspace: 'api' }
+      ]);
+
+      expect(parse({ action: 'replace_range', path: 'a.ts', content: 'x' })).to.deep.equal([]);
+      expect(parse({ action: 'replace_range', startLine: 5, endLine: 2, content: 'x' })).to.deep.equal([]);
+      expect(parse({ action: 'replace_selection' })).to.deep.equal([]);
+      expect(parse({ action: 'rename_file', path: 'a.ts' })).to.deep.equal([]);
+      expect(parse({ action: 'apply_patch', patch: 'no hunks here' })).to.deep.equal([]);
+      expect(inspectModelActions('{"action":"delete_file","path":"a.ts","workspace":2}').problems)
+        .to.deep.equal(['delete_file: "workspace" must be a string']);
+    });
+
+    it('locates ranges by line, column and anchor', () => {
+      const text = 'alpha\r\nbeta gamma\r\ndelta\r\n';
+      expect(locateReplaceRange(text, { action: 'replace_range', startLine: 2 })).to.deep.equal({ start: 7, end: 17 });
+      expect(locateReplaceRange(text, { action: 'replace_range', startLine: 2, startColumn: 6, endColumn: 11 }))
+        .to.deep.equal({ start: 12, end: 17 });
+      expect(locateReplaceRange(text, { action: 'replace_range', anchor: 'gamma\ndelta' })).to.deep.equal({ start: 12, end: 24 });
+      expect(() => locateReplaceRange('a a', { action: 'replace_range', anchor: 'a' })).to.throw(/2 times/);
+      expect(() => locateReplaceRange(text, { action: 'replace_range', startLine: 9 })).to.throw(/past the end/);
+    });
+  });
+
+  describe('describePlanStep', () => {
+    it('summarises the action, path and size', () => {
+      expect(describePlanStep({ action: 'create_file', path: 'src/a.ts', content: 'a\nb' }))
+        .to.equal('create_file src/a.ts (2 lines)');
+      expect(describePlanStep({ action: 'insert_code', content: 'x' })).to.equal('insert_code (1 line)');
+      expect(describePlanStep({ action: 'delete_file', path: 'src/old.ts', workspace: 'api' })).to.equal('delete_file api:src/old.ts');
+    });
+  });
+});
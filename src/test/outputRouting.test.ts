@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { buildRoutedSystemPrompt, isOutputIntent, resolveRoute, skipRouteLine } from '../services/outputRouting';
+import { inspectModelActions } from '../services/modelActions';
+
+describe('Output routing', () => {
+  it('follows the route line in Auto mode and strips it from the answer', () => {
+    expect(resolveRoute('auto', 'ROUTE: code\nconst config = { "action": "save" };')).to.deep.equal({
+      route: 'code',
+      body: 'const config = { "action": "save" };',
+      reason: 'the model labelled its reply "ROUTE: code"'
+    });
+    expect(resolveRoute('auto', '  route: Chat\r\nUse a Map here.').route).to.equal('chat');
+    expect(resolveRoute('auto', 'ROUTE: action\n{"action":"delete_file","path":"a.ts"}').body)
+      .to.equal('{"action":"delete_file","path":"a.ts"}');
+  });
+
+  it('decides replies without a route line from their whole shape', () => {
+    expect(resolveRoute('auto', '```json\n{"actions":[{"action":"create_file"}]}\n```').route).to.equal('action');
+    expect(resolveRoute('auto', '{"action": "create_file", "path": "a.ts", "cont').route).to.equal('action');
+
+    const code = resolveRoute('auto', 'const event = { "action": "click" };\nsend(event);');
+    expect(code.route).to.equal('code');
+    expect(code.reason).to.equal('the reply has no route line and is not action JSON');
+  });
+
+  it('lets a fixed output mode win over the reply', () => {
+    expect(resolveRoute('code', '{"action":"create_file","path":"a.ts","content":""}')).to.deep.include({
+      route: 'code',
+      reason: 'Insert Code mode is selected'
+    });
+    expect(resolveRoute('chat', 'ROUTE: code\nx').body).to.equal('x');
+    expect(isOutputIntent('action')).to.equal(true);
+    expect(isOutputIntent('json')).to.equal(false);
+  });
+
+  it('asks for a route line only in Auto mode', () => {
+    expect(buildRoutedSystemPrompt('auto')).to.contain('"ROUTE: action" before JSON file actions');
+    expect(buildRoutedSystemPrompt('action')).to.contain('reply ONLY with JSON actions');
+    expect(buildRoutedSystemPrompt('code')).to.not.contain('ROUTE');
+  });
+
+  it('keeps the route line out of streamed ghost text', () => {
+    const streamed: string[] = [];
+    const onToken = skipRouteLine((token) => streamed.push(token));
+    ['RO', 'UTE: co', 'de\nconst a', ' = 1;'].forEach(onToken);
+    expect(streamed.join('')).to.equal('const a = 1;');
+
+    const plain: string[] = [];
+    const onPlainToken = skipRouteLine((token) => plain.push(token));
+    ['function add(a, b) {\n', '  return a + b;'].forEach(onPlainToken);
+    expect(plain.join('')).to.equal('function add(a, b) {\n  return a + b;');
+  });
+
+  it('treats a reply without actions as a problem in File Action mode', () => {
+    expect(inspectModelActions('const a = 1;', true).problems)
+      .to.deep.equal(['the reply contains no action; it must be JSON file actions']);
+    expect(inspectModelActions('const a = 1;').problems).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+
+import { parseUnifiedDiff, applyPatchHunks, PatchError } from '../utils/patchApplier';
+
+describe('Unified diff patches', () => {
+  const original = 'one\ntwo\nthree\nfour\nfive\n';
+
+  describe('parseUnifiedDiff', () => {
+    it('reads file headers and strips a/ b/ prefixes', () => {
+      const patch = [
+        'diff --git a/src/x.ts b/src/x.ts',
+        'index 123..456 100644',
+        '--- a/src/x.ts',
+        '+++ b/src/x.ts',
+        '@@ -1,2 +1,2 @@',
+        '-one',
+        '+ONE',
+        ' two',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1 @@',
+        '+hello',
+      ].join('\n');
+      const files = parseUnifiedDiff(patch);
+      expect(files).to.have.length(2);
+      expect(files[0]).to.include({ oldPath: 'src/x.ts', newPath: 'src/x.ts' });
+      expect(files[0].hunks[0].lines).to.deep.equal(['-one', '+ONE', ' two']);
+      expect(files[1].oldPath).to.equal(undefined);
+      expect(files[1].newPath).to.equal('new.txt');
+    });
+
+    it('rejects text without hunks', () => {
+      expect(() => parseUnifiedDiff('just some words')).to.throw(PatchError);
+    });
+  });
+
+  describe('applyPatchHunks', () => {
+    it('applies hunks even when the line numbers are wrong', () => {
+      const [file] = parseUnifiedDiff('@@ -40,3 +40,3 @@\n three\n-four\n+FOUR\n five');
+      expect(applyPatchHunks(original, file.hunks)).to.equal('one\ntwo\nthree\nFOUR\nfive\n');
+    });
+
+    it('applies several hunks and keeps CRLF line endings', () => {
+      const crlf = original.replace(/\n/g, '\r\n');
+      const [file] = parseUnifiedDiff('@@ -1,2 +1,3 @@\n one\n+one and a half\n two\n@@ -4,2 +5,1 @@\n four\n-five');
+      expect(applyPatchHunks(crlf, file.hunks)).to.equal('one\r\none and a half\r\ntwo\r\nthree\r\nfour\r\n');
+    });
+
+    it('creates content from an empty file and honours "No newline at end of file"', () => {
+      const [file] = parseUnifiedDiff('--- /dev/null\n+++ b/a.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n\\ No newline at end of file');
+      expect(applyPatchHunks('', file.hunks)).to.equal('a\nb');
+    });
+
+    it('inserts zero-context hunks after the line named in the header, as git diff -U0 writes them', () => {
+      const [file] = parseUnifiedDiff('@@ -5,0 +6,1 @@\n+NEW');
+      expect(applyPatchHunks('a\nb\nc\nd\ne\n', file.hunks)).to.equal('a\nb\nc\nd\ne\nNEW\n');
+
+      const [twoHunks] = parseUnifiedDiff('@@ -1,0 +2 @@\n+after one\n@@ -3,0 +5 @@\n+after three');
+      expect(applyPatchHunks('one\ntwo\nthree\n', twoHunks.hunks)).to.equal('one\nafter one\ntwo\nthree\nafter three\n');
+    });
+
+    it('throws when the context is not in the file', () => {
+      const [file] = parseUnifiedDiff('@@ -1,2 +1,2 @@\n-missing\n+line');
+      expect(() => applyPatchHunks(original, file.hunks)).to.throw(PatchError, /Hunk 1/);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { PathPolicy, normalizeActionPath } from '../utils/pathPolicy';
+import { resolveRealPath } from '../services/fileActionPolicy';
+
+describe('Path policy', () => {
+  describe('normalizeActionPath', () => {
+    it('resolves dot segments and backslashes inside the workspace', () => {
+      expect(normalizeActionPath('src/./utils/../app.ts')).to.deep.equal({ path: 'src/app.ts' });
+      expect(normalizeActionPath('src\\lib\\a.ts')).to.deep.equal({ path: 'src/lib/a.ts' });
+      expect(normalizeActionPath('src//a.ts')).to.deep.equal({ path: 'src/a.ts' });
+      expect(normalizeActionPath('%2e%2e/a.ts')).to.deep.equal({ path: '%2e%2e/a.ts' });
+    });
+
+    it('refuses hostile paths with a reason', () => {
+      const hostile: Record<string, string> = {
+        '../secrets.txt': 'the path leaves the workspace folder',
+        'src/../../etc/passwd': 'the path leaves the workspace folder',
+        '..\\..\\Windows\\win.ini': 'the path leaves the workspace folder',
+        '/etc/passwd': 'absolute paths are not allowed; use a path relative to the workspace folder',
+        '\\\\server\\share\\a.ts': 'absolute paths are not allowed; use a path relative to the workspace folder',
+        'C:\\Windows\\system.ini': 'absolute paths are not allowed; use a path relative to the workspace folder',
+        'c:relative.ts': 'absolute paths are not allowed; use a path relative to the workspace folder',
+        '~/.ssh/authorized_keys': 'paths in the home folder are not allowed; use a path relative to the workspace folder',
+        'a.ts\u0000.png': 'the path contains control characters',
+        'notes.txt:hidden': '"notes.txt:hidden" contains a colon, which is not allowed in file names',
+        '.env.': '".env." ends with a dot or a space, which Windows drops from file names',
+        'src/app.ts ': '"app.ts " ends with a dot or a space, which Windows drops from file names',
+        'docs/NUL.txt': '"NUL.txt" is a reserved device name on Windows',
+        'src/': 'the path names a folder, not a file',
+        'src/..': 'the path is the workspace folder itself, not a file',
+        '   ': 'the path is empty'
+      };
+      for (const [rawPath, reason] of Object.entries(hostile)) {
+        expect(normalizeActionPath(rawPath), rawPath).to.deep.equal({ reason });
+      }
+    });
+  });
+
+  describe('PathPolicy', () => {
+    it('protects version control, secrets and dependencies', () => {
+      const policy = new PathPolicy();
+
+      expect(policy.checkPath('.git/config').reason).to.equal('.git/config is protected (rule ".git")');
+      expect(policy.checkPath('.git').reason).to.equal('.git is protected (rule ".git")');
+      expect(policy.checkPath('src/../.git/hooks/pre-commit').reason).to.equal('.git/hooks/pre-commit is protected (rule ".git")');
+      expect(policy.checkPath('packages/api/node_modules/x/index.js').reason).to.contain('(rule "node_modules")');
+      expect(policy.checkPath('.env').reason).to.equal('.env is protected (rule ".env")');
+      expect(policy.checkPath('server/.env.production').reason).to.equal('server/.env.production is protected (rule ".env.*")');
+      expect(policy.checkPath('.vscode/settings.json').reason).to.contain('protected');
+      expect(policy.checkPath('.env.example')).to.deep.equal({ path: '.env.example' });
+      expect(policy.checkPath('src/env.ts')).to.deep.equal({ path: 'src/env.ts' });
+      expect(policy.checkPath('.github/workflows/ci.yml')).to.deep.equal({ path: '.github/workflows/ci.yml' });
+    });
+
+    it('ignores case only on case-insensitive file systems', () => {
+      expect(new PathPolicy({ caseInsensitive: true }).checkPath('.GIT/config').reason).to.equal('.GIT/config is protected (rule ".git")');
+      expect(new PathPolicy({ caseInsensitive: true }).checkPath('Node_Modules/a.js').reason).to.contain('protected');
+      expect(new PathPolicy().checkPath('.GIT/config')).to.deep.equal({ path: '.GIT/config' });
+    });
+
+    it('applies the configured allow and deny globs', () => {
+      const policy = new PathPolicy({ allow: ['src/', 'docs/*.md'], deny: ['src/generated/', '!.env.local'] });
+
+      expect(policy.checkPath('src/app.ts')).to.deep.equal({ path: 'src/app.ts' });
+      expect(policy.checkPath('docs/usage.md')).to.deep.equal({ path: 'docs/usage.md' });
+      expect(policy.checkPath('docs/img/logo.png').reason).to.equal('docs/img/logo.png does not match any allow rule');
+      expect(policy.checkPath('package.json').reason).to.equal('package.json does not match any allow rule');
+      expect(policy.checkPath('src/generated/api.ts').reason).to.equal('src/generated/api.ts matches the deny rule "src/generated/"');
+
+      const unprotected = new PathPolicy({ deny: ['!.env.local'] });
+      expect(unprotected.checkPath('.env.local')).to.deep.equal({ path: '.env.local' });
+      expect(unprotected.checkPath('.env').reason).to.contain('protected');
+    });
+
+    it('caps the size of a write', () => {
+      const policy = new PathPolicy({ maxWriteBytes: 2048 });
+
+      expect(policy.checkWrite('a'.repeat(2048))).to.equal(undefined);
+      expect(policy.checkWrite('é'.repeat(1500))).to.equal('the new content is 3 KB, more than the 2 KB allowed per write');
+      expect(new PathPolicy({ maxWriteBytes: 0 }).checkWrite('a'.repeat(5000))).to.equal(undefined);
+    });
+  });
+
+  describe('resolveRealPath', function () {
+    let outside: string;
+    let root: string;
+
+    before(function () {
+      outside = fs.mkdtempSync(path.join(os.tmpdir(), 'jarnox-outside-'));
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'jarnox-root-'));
+      fs.mkdirSync(path.join(root, 'src'));
+      fs.mkdirSync(path.join(root, '.git'));
+      try {
+        fs.symlinkSync(outside, path.join(root, 'escape'), 'dir');
+        fs.symlinkSync(path.join(root, '.git'), path.join(root, 'docs'), 'dir');
+        fs.symlinkSync(path.join(root, 'missing'), path.join(root, 'dangling'));
+      } catch {
+        // Creating links needs extra rights on Windows
+        this.skip();
+      }
+    });
+
+    after(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+      fs.rmSync(outside, { recursive: true, force: true });
+    });
+
+    it('follows links in paths that do not exist yet', async () => {
+      expect(await resolveRealPath(root, 'src/new/file.ts')).to.deep.equal({ path: 'src/new/file.ts' });
+      expect(await resolveRealPath(root, 'docs/hooks/pre-commit')).to.deep.equal({ path: '.git/hooks/pre-commit' });
+      expect((await resolveRealPath(root, 'escape/payload.sh')).reason).to.match(/^escape\/payload\.sh is a link to .*, outside the workspace folder$/);
+      expect(await resolveRealPath(root, 'dangling')).to.deep.equal({
+        reason: 'dangling goes through a symbolic link whose target does not exist'
+      });
+    });
+
+    it('checks the real path against the rules', async () => {
+      const real = await resolveRealPath(root, 'docs/config');
+      expect(new PathPolicy().checkRules(real.path!)).to.equal('.git/config is protected (rule ".git")');
+    });
+  });
+});
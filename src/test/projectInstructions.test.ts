@@ -0,0 +1,46 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { combineInstructions } from '../services/projectInstructions';
+import { buildPromptForModel, buildSystemPrompt } from '../services/llmService';
+import { buildTaskMessages } from '../services/promptTemplates';
+
+describe('Project instructions', () => {
+  it('uses a single file as it is and labels several files by path', () => {
+    expect(combineInstructions([{ path: '.jarnox/instructions.md', text: '- use pnpm\n' }], 1000))
+      .to.deep.equal({ text: '- use pnpm', files: ['.jarnox/instructions.md'], tokens: 3, truncated: false });
+
+    const combined = combineInstructions([
+      { path: 'api/.jarnox/instructions.md', text: '- prefer zod' },
+      { path: 'web/.jarnox/instructions.md', text: '   ' },
+      { path: 'docs/.jarnox/instructions.md', text: '- tests live in __tests__' }
+    ], 1000);
+    expect(combined?.text).to.equal(
+      'From api/.jarnox/instructions.md:\n- prefer zod\n\nFrom docs/.jarnox/instructions.md:\n- tests live in __tests__'
+    );
+    expect(combined?.files).to.deep.equal(['api/.jarnox/instructions.md', 'docs/.jarnox/instructions.md']);
+    expect(combineInstructions([{ path: 'a.md', text: '\n' }], 1000)).to.equal(undefined);
+  });
+
+  it('cuts instructions over the budget at a line break', () => {
+    const text = ['- rule one', '- rule two', '- rule three'].join('\n');
+
+    const cut = combineInstructions([{ path: 'a.md', text }], 6);
+
+    expect(cut?.truncated).to.equal(true);
+    expect(cut?.text).to.equal('- rule one\n- rule two\n... (cut off to fit the instructions budget)');
+    expect(combineInstructions([{ path: 'a.md', text }], 0)?.truncated).to.equal(false);
+  });
+
+  it('adds the instructions to the system prompt of every kind of request', () => {
+    expect(buildSystemPrompt('- use pnpm')).to.match(/\n\nProject instructions \(follow these conventions of the project\):\n- use pnpm$/);
+    expect(buildSystemPrompt('  ')).to.equal(buildSystemPrompt());
+    expect(buildPromptForModel('add a script', { projectInstructions: '- use pnpm' }))
+      .to.contain('- use pnpm\n\nUser request:\nadd a script');
+
+    const input = { languageId: 'typescript', filePath: 'a.ts', code: 'let a = 1', startLine: 1 };
+    expect(buildTaskMessages('test', input, '- tests live in __tests__')[0].content).to.contain('- tests live in __tests__');
+  });
+});
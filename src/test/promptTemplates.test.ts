@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { PROMPT_TEMPLATES, buildTaskMessages, suggestTestFilePath } from '../services/promptTemplates';
+
+describe('Editor command prompt templates', () => {
+  const input = { languageId: 'python', filePath: 'pkg/calc.py', code: 'def add(a, b):\n    return a - b', startLine: 10 };
+
+  it('sends the template as system message and the located code as request', () => {
+    const messages = buildTaskMessages('fix', { ...input, diagnostics: ['line 11: wrong operator'] });
+
+    expect(messages.map((message) => message.role)).to.deep.equal(['system', 'user']);
+    expect(messages[0].content).to.equal(PROMPT_TEMPLATES.fix.system);
+    expect(messages[1].content).to.contain('- line 11: wrong operator');
+    expect(messages[1].content).to.contain('File: pkg/calc.py (lines 10-11, language: python)\n```python\ndef add(a, b):');
+  });
+
+  it('sends the code around a fix as context only', () => {
+    const request = buildTaskMessages('fix', {
+      ...input,
+      surroundingCode: { before: 'import math', after: '' }
+    })[1].content;
+
+    expect(request).to.contain('For context only (do NOT include it in your reply)');
+    expect(request).to.contain('Before:\n```python\nimport math\n```');
+    expect(request).not.to.contain('After:');
+    expect(buildTaskMessages('fix', input)[1].content).not.to.contain('For context only');
+  });
+
+  it('maps each task to the action its answer is applied with', () => {
+    const actions = Object.fromEntries(Object.entries(PROMPT_TEMPLATES).map(([task, template]) => [task, template.action]));
+    expect(actions).to.deep.equal({
+      explain: 'show',
+      refactor: 'replace_range',
+      document: 'replace_range',
+      test: 'create_file',
+      fix: 'replace_range',
+    });
+    expect(buildTaskMessages('refactor', { ...input, instructions: 'use a loop' })[1].content)
+      .to.match(/^Refactor this code: use a loop\./);
+  });
+
+  it('names test files the way each language expects', () => {
+    expect(suggestTestFilePath('pkg/calc.py', 'python')).to.equal('pkg/test_calc.py');
+    expect(suggestTestFilePath('cmd/server.go', 'go')).to.equal('cmd/server_test.go');
+    expect(suggestTestFilePath('src/Main.java', 'java')).to.equal('src/MainTest.java');
+    expect(suggestTestFilePath('src/utils/text.ts', 'typescript')).to.equal('src/utils/text.test.ts');
+    expect(suggestTestFilePath('Makefile', 'makefile')).to.equal('Makefile.test');
+  });
+});
@@ -0,0 +1,403 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+mock('vscode', {});
+
+import { DEFAULT_LLM_CONFIG, type LLMConfig } from '../services/configService';
+import {
+  createProvider,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  LlamaCppProvider,
+  RequestCancelledError,
+} from '../services/providers';
+import { parseOllamaEmbedding, parseOllamaStreamLine, parseOllamaTags } from '../services/providers/ollamaProvider';
+import { formatChatTranscript } from '../services/providers/llamaCppProvider';
+import { joinUrl } from '../services/providers/httpClient';
+
+/** A request received by the stub server */
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/** Handler deciding how the stub server answers */
+type StubHandler = (request: ReceivedRequest, res: http.ServerResponse) => void;
+
+/**
+ * Starts a local HTTP server on a random port that records every request
+ * and answers with the given handler.
+ */
+async function startStubServer(handler: StubHandler) {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const received: ReceivedRequest = {
+        method: req.method || '',
+        url: req.url || '',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(received);
+      handler(received, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/** Writes chunks with small pauses so the client sees a real stream */
+function writeSlowly(res: http.ServerResponse, chunks: string[]): void {
+  let index = 0;
+  const next = () => {
+    if (index >= chunks.length) {
+      res.end();
+      return;
+    }
+    res.write(chunks[index++]);
+    setTimeout(next, 5);
+  };
+  next();
+}
+
+function configFor(baseUrl: string, overrides: Partial<LLMConfig> = {}): LLMConfig {
+  return { ...DEFAULT_LLM_CONFIG, baseUrl, requestTimeout: 5, ...overrides };
+}
+
+describe('LLM providers', () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>> | undefined;
+
+  afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+  });
+
+  describe('createProvider', () => {
+    it('picks the implementation from config.provider', () => {
+      expect(createProvider(configFor('http://x'))).to.be.instanceOf(OllamaProvider);
+      expect(createProvider(configFor('http://x', { provider: 'openai' }))).to.be.instanceOf(OpenAICompatibleProvider);
+      expect(createProvider(configFor('http://x', { provider: 'llamacpp' }))).to.be.instanceOf(LlamaCppProvider);
+    });
+  });
+
+  describe('joinUrl', () => {
+    it('does not duplicate /v1 when the base URL already ends with it', () => {
+      expect(joinUrl('http://host:8000/v1/', '/v1/models')).to.equal('http://host:8000/v1/models');
+      expect(joinUrl('http://host:8000', '/v1/models')).to.equal('http://host:8000/v1/models');
+      expect(joinUrl('http://host:11434/', '/api/tags')).to.equal('http://host:11434/api/tags');
+    });
+  });
+
+  describe('Ollama', () => {
+    it('parses stream lines and /api/tags payloads', () => {
+      expect(parseOllamaStreamLine('{"response":"he","done":false}').token).to.equal('he');
+      expect(parseOllamaStreamLine('{"error":"model not found"}').error).to.equal('model not found');
+      expect(parseOllamaStreamLine('{not json')).to.deep.equal({ token: '', done: false });
+
+      const models = parseOllamaTags({
+        models: [
+          { name: 'qwen2.5-coder:7b', size: 10, details: { family: 'qwen2', quantization_level: 'Q4_K_M' } },
+          { name: 'llama3.2:latest', size: 5 },
+          { size: 1 },
+        ],
+      });
+      expect(models.map((m) => m.name)).to.deep.equal(['llama3.2:latest', 'qwen2.5-coder:7b']);
+      expect(models[1].quantization).to.equal('Q4_K_M');
+    });
+
+    it('requests embeddings from /api/embeddings', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ embedding: [0.5, -0.25] }));
+      });
+      const provider = new OllamaProvider(configFor(stub.baseUrl));
+
+      expect(await provider.embed('parse a user id', 'nomic-embed-text')).to.deep.equal([0.5, -0.25]);
+      expect(stub.requests[0].url).to.equal('/api/embeddings');
+      expect(stub.requests[0].body).to.deep.equal({ model: 'nomic-embed-text', prompt: 'parse a user id' });
+      expect(() => parseOllamaEmbedding({ error: 'model does not support embeddings' })).to.throw('does not support embeddings');
+    });
+
+    it('asks for JSON output with format: json', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ message: { content: '{"action":"insert_code","content":"x"}' }, done: true }));
+      });
+      const provider = new OllamaProvider(configFor(stub.baseUrl, { stream: false }));
+
+      await provider.chat([{ role: 'user', content: 'fix it' }], { json: true });
+      await provider.chat([{ role: 'user', content: 'hello' }]);
+
+      expect(stub.requests[0].body.format).to.equal('json');
+      expect(stub.requests[1].body).to.not.have.property('format');
+    });
+
+    it('sends sampling settings in options and reads a buffered response', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ response: 'const a = 1;', done: true }));
+      });
+      const provider = new OllamaProvider(configFor(stub.baseUrl, { stream: false, maxTokens: 64, temperature: 0.2 }));
+
+      const tokens: string[] = [];
+      const out = await provider.generate('write code', { onToken: (t) => tokens.push(t) });
+
+      expect(out).to.equal('const a = 1;');
+      expect(tokens).to.deep.equal(['const a = 1;']);
+      expect(stub.requests[0].url).to.equal('/api/generate');
+      expect(stub.requests[0].body).to.deep.include({ model: DEFAULT_LLM_CONFIG.modelName, prompt: 'write code', stream: false });
+      expect(stub.requests[0].body.options).to.deep.equal({ temperature: 0.2, num_predict: 64 });
+    });
+
+    it('delivers streamed tokens as they arrive, even when lines are split, and stops at done', async () => {
+      stub = await startStubServer((_req, res) => {
+        writeSlowly(res, [
+          '{"response":"fun","done":false}\n{"respo',
+          'nse":"ction","done":false}\n',
+          '{"response":"","done":true}\n{"response":"ignored"}\n',
+        ]);
+      });
+      const tokens: string[] = [];
+      const out = await new OllamaProvider(configFor(stub.baseUrl)).generate('p', { onToken: (t) => tokens.push(t) });
+
+      expect(tokens).to.deep.equal(['fun', 'ction']);
+      expect(out).to.equal('function');
+    });
+
+    it('rejects when the stream reports an error', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end('{"error":"model \'nope\' not found"}\n');
+      });
+      try {
+        await new OllamaProvider(configFor(stub.baseUrl)).generate('p');
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.contain('not found');
+      }
+    });
+
+    it('sends conversations to /api/chat and streams message content', async () => {
+      stub = await startStubServer((_req, res) => {
+        writeSlowly(res, [
+          '{"message":{"role":"assistant","content":"Su"},"done":false}\n',
+          '{"message":{"role":"assistant","content":"re"},"done":false}\n',
+          '{"message":{"role":"assistant","content":""},"done":true}\n',
+        ]);
+      });
+      const messages = [
+        { role: 'system' as const, content: 'rules' },
+        { role: 'user' as const, content: 'add a test' },
+      ];
+      const tokens: string[] = [];
+      const out = await new OllamaProvider(configFor(stub.baseUrl)).chat(messages, { onToken: (t) => tokens.push(t) });
+
+      expect(out).to.equal('Sure');
+      expect(tokens).to.deep.equal(['Su', 're']);
+      expect(stub.requests[0].url).to.equal('/api/chat');
+      expect(stub.requests[0].body.messages).to.deep.equal(messages);
+      expect(stub.requests[0].body).to.not.have.property('prompt');
+    });
+
+    it('sends fill-in-the-middle requests with a suffix', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ response: 'a + b', done: true }));
+      });
+      const out = await new OllamaProvider(configFor(stub.baseUrl, { stream: false })).infill('return ', ';\n}');
+
+      expect(out).to.equal('a + b');
+      expect(stub.requests[0].url).to.equal('/api/generate');
+      expect(stub.requests[0].body).to.deep.include({ prompt: 'return ', suffix: ';\n}' });
+    });
+
+    it('lists installed models from /api/tags', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ models: [{ name: 'mistral:latest', size: 4, details: { family: 'llama' } }] }));
+      });
+      const models = await new OllamaProvider(configFor(stub.baseUrl)).listModels();
+
+      expect(stub.requests[0].url).to.equal('/api/tags');
+      expect(models).to.deep.equal([
+        { name: 'mistral:latest', size: 4, family: 'llama', parameterSize: undefined, quantization: undefined },
+      ]);
+    });
+  });
+
+  describe('OpenAI-compatible', () => {
+    it('posts a chat completion with the API key and reads the message', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'print(1)' } }] }));
+      });
+      const provider = new OpenAICompatibleProvider(
+        configFor(stub.baseUrl + '/v1', { provider: 'openai', stream: false, apiKey: 'sk-test', modelName: 'served' })
+      );
+
+      const out = await provider.generate('hello');
+
+      expect(out).to.equal('print(1)');
+      expect(stub.requests[0].url).to.equal('/v1/chat/completions');
+      expect(stub.requests[0].headers.authorization).to.equal('Bearer sk-test');
+      expect(stub.requests[0].body).to.deep.include({ model: 'served', stream: false, max_tokens: DEFAULT_LLM_CONFIG.maxTokens });
+      expect(stub.requests[0].body.messages).to.deep.equal([{ role: 'user', content: 'hello' }]);
+    });
+
+    it('streams server-sent events until [DONE]', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.setHeader('Content-Type', 'text/event-stream');
+        writeSlowly(res, [
+          'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n',
+        ]);
+      });
+      const tokens: string[] = [];
+      const out = await new OpenAICompatibleProvider(configFor(stub.baseUrl, { provider: 'openai' }))
+        .generate('p', { onToken: (t) => tokens.push(t) });
+
+      expect(tokens).to.deep.equal(['Hel', 'lo']);
+      expect(out).to.equal('Hello');
+      expect(stub.requests[0].headers.authorization).to.equal(undefined);
+    });
+
+    it('sends fill-in-the-middle requests to /v1/completions', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ choices: [{ text: 'a + b' }] }));
+      });
+      const out = await new OpenAICompatibleProvider(configFor(stub.baseUrl, { provider: 'openai', stream: false }))
+        .infill('return ', ';');
+
+      expect(out).to.equal('a + b');
+      expect(stub.requests[0].url).to.equal('/v1/completions');
+      expect(stub.requests[0].body).to.deep.include({ prompt: 'return ', suffix: ';' });
+    });
+
+    it('lists models from /v1/models', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ data: [{ id: 'b-model', owned_by: 'vllm' }, { id: 'a-model' }] }));
+      });
+      const models = await new OpenAICompatibleProvider(configFor(stub.baseUrl, { provider: 'openai' })).listModels();
+
+      expect(stub.requests[0].url).to.equal('/v1/models');
+      expect(models.map((m) => m.name)).to.deep.equal(['a-model', 'b-model']);
+    });
+  });
+
+  describe('llama.cpp', () => {
+    it('posts to /completion and reads a buffered response', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ content: 'x = 1', stop: true }));
+      });
+      const out = await new LlamaCppProvider(configFor(stub.baseUrl, { provider: 'llamacpp', stream: false, maxTokens: 32 }))
+        .generate('p');
+
+      expect(out).to.equal('x = 1');
+      expect(stub.requests[0].url).to.equal('/completion');
+      expect(stub.requests[0].body).to.deep.include({ prompt: 'p', n_predict: 32, stream: false });
+    });
+
+    it('sends fill-in-the-middle requests to /infill', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.end(JSON.stringify({ content: 'a + b', stop: true }));
+      });
+      const out = await new LlamaCppProvider(configFor(stub.baseUrl, { provider: 'llamacpp', stream: false }))
+        .infill('return ', ';');
+
+      expect(out).to.equal('a + b');
+      expect(stub.requests[0].url).to.equal('/infill');
+      expect(stub.requests[0].body).to.deep.include({ input_prefix: 'return ', input_suffix: ';' });
+    });
+
+    it('flattens conversations into a transcript prompt', () => {
+      expect(formatChatTranscript([
+        { role: 'system', content: 'rules' },
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: 'hello' },
+        { role: 'user', content: 'again' },
+      ])).to.equal('System: rules\n\nUser: hi\n\nAssistant: hello\n\nUser: again\n\nAssistant:');
+    });
+
+    it('streams content chunks until stop', async () => {
+      stub = await startStubServer((_req, res) => {
+        writeSlowly(res, [
+          'data: {"content":"a","stop":false}\n\n',
+          'data: {"content":"b","stop":false}\n\n',
+          'data: {"content":"","stop":true}\n\n',
+        ]);
+      });
+      const tokens: string[] = [];
+      const out = await new LlamaCppProvider(configFor(stub.baseUrl, { provider: 'llamacpp' }))
+        .generate('p', { onToken: (t) => tokens.push(t) });
+
+      expect(tokens).to.deep.equal(['a', 'b']);
+      expect(out).to.equal('ab');
+    });
+  });
+
+  describe('request handling', () => {
+    it('throws RequestCancelledError when the caller aborts', async () => {
+      stub = await startStubServer(() => {
+        // Never answer
+      });
+      const controller = new AbortController();
+      const pending = new OllamaProvider(configFor(stub.baseUrl)).generate('p', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+
+      try {
+        await pending;
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).to.be.instanceOf(RequestCancelledError);
+      }
+    });
+
+    it('times out when the server stays silent', async () => {
+      stub = await startStubServer(() => {
+        // Never answer
+      });
+      try {
+        await new OllamaProvider(configFor(stub.baseUrl, { requestTimeout: 0.05 })).generate('p');
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.contain('timed out');
+      }
+    });
+
+    it('reports HTTP errors with the status code', async () => {
+      stub = await startStubServer((_req, res) => {
+        res.statusCode = 404;
+        res.end('model not found');
+      });
+      try {
+        await new OllamaProvider(configFor(stub.baseUrl)).generate('p');
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.equal('HTTP error! status: 404 - model not found');
+      }
+    });
+
+    it('explains when the server cannot be reached', async () => {
+      stub = await startStubServer(() => undefined);
+      const deadUrl = stub.baseUrl;
+      await stub.close();
+      stub = undefined;
+
+      try {
+        await new OpenAICompatibleProvider(configFor(deadUrl, { provider: 'openai' })).generate('p');
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as Error).message).to.contain('Cannot connect to OpenAI-compatible server');
+      }
+    });
+  });
+});
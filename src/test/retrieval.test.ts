@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { IgnoreMatcher, globToRegExp } from '../utils/ignoreMatcher';
+import { chunkText } from '../utils/chunker';
+import { Bm25Index, tokenizeForSearch } from '../utils/bm25';
+import { cosineSimilarity, formatCitation, selectDistinctChunks } from '../services/workspaceIndex';
+
+describe('Workspace retrieval', () => {
+  describe('IgnoreMatcher', () => {
+    it('follows .gitignore rules, including nested files and negation', () => {
+      const matcher = new IgnoreMatcher();
+      matcher.add('# build output\nout/\n*.log\n!keep.log\n/config.local.json\n');
+      matcher.add('fixtures/**/*.snap', 'packages/api');
+
+      expect(matcher.ignores('out/main.js')).to.equal(true);
+      expect(matcher.ignores('src/out')).to.equal(false);
+      expect(matcher.ignores('logs/debug.log')).to.equal(true);
+      expect(matcher.ignores('logs/keep.log')).to.equal(false);
+      expect(matcher.ignores('config.local.json')).to.equal(true);
+      expect(matcher.ignores('src/config.local.json')).to.equal(false);
+      expect(matcher.ignores('packages/api/fixtures/a/b.snap')).to.equal(true);
+      expect(matcher.ignores('fixtures/b.snap')).to.equal(false);
+    });
+
+    it('converts globs to path patterns', () => {
+      expect(globToRegExp('*.min.js').test('dist/app.min.js')).to.equal(true);
+      expect(globToRegExp('src/*.ts').test('src/a/b.ts')).to.equal(false);
+      expect(globToRegExp('**/test/*.ts').test('test/a.ts')).to.equal(true);
+      expect(globToRegExp('file[0-9].txt').test('file7.txt')).to.equal(true);
+    });
+  });
+
+  describe('chunkText', () => {
+    it('splits files into overlapping chunks that prefer blank lines as ends', () => {
+      const lines = Array.from({ length: 25 }, (_, index) => (index === 8 ? '' : `line ${index + 1}`));
+
+      const chunks = chunkText('src/a.ts', lines.join('\n') + '\n', { maxLines: 10, overlap: 2, maxLineLength: 300 });
+
+      expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).to.deep.equal([[1, 8], [7, 16], [15, 24], [23, 25]]);
+      expect(chunks[0].text.split('\n')).to.have.length(8);
+      expect(chunkText('a.txt', '\n\n\n')).to.deep.equal([]);
+    });
+  });
+
+  describe('Bm25Index', () => {
+    it('splits identifiers and ranks documents with the rarer query words first', () => {
+      expect(tokenizeForSearch('const parseUserId = get_user_name();')).to.deep.equal([
+        'const', 'parseuserid', 'parse', 'user', 'id', 'get_user_name', 'get', 'user', 'name'
+      ]);
+
+      const index = new Bm25Index();
+      index.add('auth', 'export function verifyToken(token: string) { return jwt.verify(token); }');
+      index.add('user', 'export function parseUserId(raw: string) { return Number(raw); }');
+      index.add('misc', 'export const VERSION = 1;');
+
+      expect(index.search('where is the token verified?', 3).map((hit) => hit.id)).to.deep.equal(['auth']);
+      expect(index.search('user id parsing', 3)[0].id).to.equal('user');
+
+      index.remove('auth');
+      expect(index.size).to.equal(2);
+      expect(index.search('verify token', 3)).to.deep.equal([]);
+    });
+  });
+
+  describe('search results', () => {
+    it('drops chunks overlapping a better one and formats citations', () => {
+      const chunk = (path: string, startLine: number, endLine: number) => ({ path, startLine, endLine, text: '' });
+      const ranked = [chunk('a.ts', 1, 40), chunk('a.ts', 33, 72), chunk('b.ts', 1, 40), chunk('a.ts', 65, 90)];
+
+      expect(selectDistinctChunks(ranked, 3).map(formatCitation)).to.deep.equal(['a.ts:1-40', 'b.ts:1-40', 'a.ts:65-90']);
+      expect(cosineSimilarity([1, 0], [1, 0])).to.equal(1);
+      expect(cosineSimilarity([1, 0], [0, 2])).to.equal(0);
+      expect(cosineSimilarity([1], [1, 2])).to.equal(0);
+    });
+  });
+});
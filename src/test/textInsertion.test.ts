@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import mock = require('mock-require');
+
+mock('vscode', {});
+
+import { adaptTextForInsertion, reindentLines } from '../utils/textProcessor';
+
+describe('Smart insertion', () => {
+  describe('reindentLines', () => {
+    it('rewrites indentation levels in the editor style and drops the shared indent', () => {
+      const code = '\n    if (x) {\n        run();\n    }\n\n';
+      expect(reindentLines(code, '\t', 4)).to.deep.equal(['if (x) {', '\trun();', '}']);
+      expect(reindentLines('if x:\n\treturn 1', '  ', 2)).to.deep.equal(['if x:', '  return 1']);
+    });
+
+    it('keeps spaces that do not make up a full level', () => {
+      const comment = '  /**\n   * Doc\n   */\n  function f() {\n    return 1;\n  }';
+      expect(reindentLines(comment, '\t', 4)).to.deep.equal([
+        '/**',
+        ' * Doc',
+        ' */',
+        'function f() {',
+        '\treturn 1;',
+        '}',
+      ]);
+    });
+  });
+
+  describe('adaptTextForInsertion', () => {
+    const spaces = { indentUnit: '  ', tabSize: 2, eol: '\n' };
+
+    it('indents every line after the first like the cursor line', () => {
+      const text = 'if (ready) {\n    start();\n}';
+      expect(adaptTextForInsertion(text, { ...spaces, linePrefix: '    ', lineSuffix: '' }))
+        .to.equal('if (ready) {\n      start();\n    }');
+    });
+
+    it('moves text after the cursor onto its own line for multi-line blocks', () => {
+      const context = { ...spaces, linePrefix: '  return ', lineSuffix: ';' };
+      expect(adaptTextForInsertion('a +\n  b', context)).to.equal('a +\n    b\n  ');
+      expect(adaptTextForInsertion('a + b\n', context)).to.equal('a + b');
+    });
+
+    it('uses the document line breaks and returns nothing for blank text', () => {
+      expect(adaptTextForInsertion('a\nb', { ...spaces, eol: '\r\n', linePrefix: '', lineSuffix: '' })).to.equal('a\r\nb');
+      expect(adaptTextForInsertion(' \n\n', { ...spaces, linePrefix: '', lineSuffix: '' })).to.equal('');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * QUICK FIX PROVIDER
+ * ==================
+ *
+ * Adds "JarNox: Fix with AI" to the lightbulb (Ctrl+.) menu of every
+ * error, warning or hint in the editor.
+ *
+ * Choosing it runs the Fix This Error command on the lines of those
+ * problems: the messages, the code and the lines around it are sent to
+ * the model, and the fix is shown as a diff before it is applied (see
+ * ui/editorCommands.ts).
+ */
+
+import * as vscode from 'vscode';
+import { EDITOR_COMMANDS } from './editorCommands';
+
+/** Title of the quick fix in the lightbulb menu */
+export const FIX_WITH_AI_TITLE = 'JarNox: Fix with AI';
+
+/**
+ * QUICK FIX PROVIDER CLASS
+ * ========================
+ */
+export class JarnoxCodeActionProvider implements vscode.CodeActionProvider {
+
+  /**
+   * PROVIDED KINDS
+   * ==============
+   *
+   * Passed to registerCodeActionsProvider, so VS Code only asks this
+   * provider when quick fixes are wanted.
+   *
+   * @returns The kinds of code actions offered
+   */
+  public static get providedCodeActionKinds(): vscode.CodeActionKind[] {
+    return [vscode.CodeActionKind.QuickFix];
+  }
+
+  /**
+   * CODE ACTION PROVIDER
+   * ====================
+   *
+   * @param _document - Document the lightbulb is shown in
+   * @param _range - Selection or cursor position
+   * @param context - The problems at that position
+   * @returns One "Fix with AI" action covering all of them (none if there are no problems)
+   */
+  public provideCodeActions(
+    _document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (context.diagnostics.length === 0) {
+      return [];
+    }
+    if (context.only && !context.only.contains(vscode.CodeActionKind.QuickFix)) {
+      return [];
+    }
+
+    const range = context.diagnostics
+      .map((diagnostic) => diagnostic.range)
+      .reduce((union, next) => union.union(next));
+    const action = new vscode.CodeAction(FIX_WITH_AI_TITLE, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [...context.diagnostics];
+    action.command = {
+      title: FIX_WITH_AI_TITLE,
+      command: EDITOR_COMMANDS.fix,
+      arguments: [range]
+    };
+    return [action];
+  }
+}
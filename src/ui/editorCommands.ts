@@ -0,0 +1,285 @@
+/**
+ * EDITOR COMMANDS
+ * ===============
+ *
+ * Commands that work straight from the editor, without the sidebar:
+ * - JarNox: Explain Selection      → explanation opened beside the code
+ * - JarNox: Refactor Selection     → replace_range with the refactored code
+ * - JarNox: Generate Docstring     → replace_range with the documented code
+ * - JarNox: Generate Unit Tests    → create_file (or append_file) with the tests
+ * - JarNox: Fix This Error         → replace_range with the fixed code
+ *
+ * They are in the editor's context menu (JarNox Copilot submenu) and have
+ * keybindings (Ctrl+Alt+J, then a letter). Without a selection, the
+ * function or class around the cursor is used.
+ *
+ * Changes go through the same ModelActions as the sidebar, so they are
+ * shown as a diff first and recorded in the history.
+ */
+
+import * as vscode from 'vscode';
+import { generateChatResponse, isCancellationError } from '../services/llmService';
+import { executeModelAction, type ModelAction } from '../services/modelActions';
+import type { ActionJournal } from '../services/actionJournal';
+import type { ProjectInstructions } from '../services/projectInstructions';
+import {
+  buildTaskMessages,
+  PROMPT_TEMPLATES,
+  suggestTestFilePath,
+  type EditorTask,
+  type TaskInput
+} from '../services/promptTemplates';
+import { adaptTextForInsertion, cleanGeneratedCode, editorInsertionContext } from '../utils/textProcessor';
+
+/** Lines above and below the code sent along with Fix This Error */
+const FIX_CONTEXT_LINES = 10;
+
+/** Command id for each editor task */
+export const EDITOR_COMMANDS: Record<EditorTask, string> = {
+  explain: 'jarnox.explainSelection',
+  refactor: 'jarnox.refactorSelection',
+  document: 'jarnox.generateDocstring',
+  test: 'jarnox.generateTests',
+  fix: 'jarnox.fixError'
+};
+
+/**
+ * EDITOR COMMAND REGISTRATION
+ * ===========================
+ *
+ * @param journal - Journal that records the applied changes
+ * @param projectInstructions - The team's conventions sent with every request
+ * @returns Disposables for the registered commands
+ */
+export function registerEditorCommands(journal: ActionJournal, projectInstructions: ProjectInstructions): vscode.Disposable[] {
+  return (Object.keys(EDITOR_COMMANDS) as EditorTask[]).map((task) =>
+    vscode.commands.registerCommand(EDITOR_COMMANDS[task], (range?: vscode.Range) =>
+      runEditorTask(task, journal, projectInstructions, range instanceof vscode.Range ? range : undefined)
+    )
+  );
+}
+
+/**
+ * EDITOR TASK RUNNER
+ * ==================
+ *
+ * Collects the code for a task, asks the model with the task's template
+ * and applies the answer.
+ *
+ * @param task - Which task to run
+ * @param journal - Journal that records the applied change
+ * @param projectInstructions - The team's conventions sent with the request
+ * @param requestedRange - Code to work on (defaults to the selection or the code around the cursor)
+ */
+export async function runEditorTask(
+  task: EditorTask,
+  journal: ActionJournal,
+  projectInstructions: ProjectInstructions,
+  requestedRange?: vscode.Range
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage('Open a file in the editor first.');
+    return;
+  }
+
+  const document = editor.document;
+  const template = PROMPT_TEMPLATES[task];
+  const range = toWholeLines(document, requestedRange ?? await resolveTargetRange(editor, task));
+  const code = document.getText(range);
+  if (!code.trim()) {
+    vscode.window.showWarningMessage('There is no code at the cursor. Select the code to work on first.');
+    return;
+  }
+
+  const filePath = vscode.workspace.asRelativePath(document.uri, false);
+  const input: TaskInput = { languageId: document.languageId, filePath, code, startLine: range.start.line + 1 };
+  if (task === 'refactor') {
+    const instructions = await vscode.window.showInputBox({
+      prompt: 'How should the code be refactored?',
+      placeHolder: 'Leave empty to make it clearer and simpler'
+    });
+    if (instructions === undefined) {
+      return;
+    }
+    input.instructions = instructions.trim() || undefined;
+  } else if (task === 'fix') {
+    input.diagnostics = vscode.languages.getDiagnostics(document.uri)
+      .filter((diagnostic) => diagnostic.range.intersection(range))
+      .map(describeDiagnostic);
+    const firstLine = Math.max(0, range.start.line - FIX_CONTEXT_LINES);
+    const lastLine = Math.min(document.lineCount - 1, range.end.line + FIX_CONTEXT_LINES);
+    input.surroundingCode = {
+      before: document.getText(new vscode.Range(firstLine, 0, range.start.line, 0)).replace(/\r?\n$/, ''),
+      after: range.end.line < lastLine
+        ? document.getText(new vscode.Range(range.end.line + 1, 0, lastLine, document.lineAt(lastLine).text.length))
+        : ''
+    };
+  } else if (task === 'test') {
+    input.testFilePath = suggestTestFilePath(filePath, document.languageId);
+  }
+
+  const documentVersion = document.version;
+  const response = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `${template.title}...`,
+    cancellable: true
+  }, async (_progress, cancellationToken) => {
+    const request = new AbortController();
+    const cancellation = cancellationToken.onCancellationRequested(() => request.abort());
+    try {
+      return await generateChatResponse(buildTaskMessages(task, input, projectInstructions.text()), undefined, { signal: request.signal });
+    } catch (error) {
+      if (!isCancellationError(error)) {
+        vscode.window.showErrorMessage(`${template.title} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return undefined;
+    } finally {
+      cancellation.dispose();
+    }
+  });
+  if (!response?.trim()) {
+    return;
+  }
+
+  if (template.action === 'show') {
+    const explanation = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: `# ${filePath}, lines ${range.start.line + 1}-${range.end.line + 1}\n\n${response.trim()}\n`
+    });
+    await vscode.window.showTextDocument(explanation, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+    return;
+  }
+
+  // Comments are kept: they are the point of a docstring, and refactored
+  // or fixed code should not lose the user's own comments
+  const cleaned = cleanGeneratedCode(response, document.languageId, 'keep');
+  let action: ModelAction;
+  if (template.action === 'create_file') {
+    // The test path is relative to the folder the source file is in
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const testUri = folder ? vscode.Uri.joinPath(folder.uri, input.testFilePath!) : undefined;
+    const exists = testUri ? await vscode.workspace.fs.stat(testUri).then(() => true, () => false) : false;
+    action = {
+      action: exists ? 'append_file' : 'create_file',
+      path: input.testFilePath,
+      workspace: folder?.name,
+      content: cleaned
+    };
+  } else {
+    if (document.version !== documentVersion) {
+      vscode.window.showWarningMessage('The file changed while the answer was generated, so nothing was replaced.');
+      return;
+    }
+    if (vscode.window.activeTextEditor?.document !== document) {
+      await vscode.window.showTextDocument(document, editor.viewColumn);
+    }
+    // The first line of the range sets the indentation of the new code
+    const baseIndent = document.lineAt(range.start.line).text.match(/^\s*/)![0];
+    const replacement = adaptTextForInsertion(cleaned, editorInsertionContext(editor, baseIndent, ''));
+    action = {
+      action: 'replace_range',
+      startLine: range.start.line + 1,
+      endLine: range.end.line + 1,
+      content: replacement ? baseIndent + replacement : ''
+    };
+  }
+
+  const result = await executeModelAction(action);
+  if (result.status === 'applied') {
+    await journal.record(`${template.historyLabel} ${filePath}`, result.snapshots);
+  }
+}
+
+/**
+ * TARGET RANGE RESOLVER
+ * =====================
+ *
+ * Works out which code a task is about when no range was given:
+ * 1. the selection, if there is one
+ * 2. for Fix This Error, the lines with problems at the cursor
+ * 3. the innermost function, method or class around the cursor
+ * 4. the whole file for Generate Unit Tests, otherwise the cursor line
+ *
+ * @param editor - Editor the command runs in
+ * @param task - Task being run
+ * @returns The range to work on
+ */
+async function resolveTargetRange(editor: vscode.TextEditor, task: EditorTask): Promise<vscode.Range> {
+  const { document, selection } = editor;
+  if (!selection.isEmpty) {
+    return selection;
+  }
+
+  const cursor = selection.active;
+  if (task === 'fix') {
+    const problems = vscode.languages.getDiagnostics(document.uri)
+      .filter((diagnostic) => diagnostic.range.start.line <= cursor.line && diagnostic.range.end.line >= cursor.line);
+    if (problems.length > 0) {
+      return problems.map((diagnostic) => diagnostic.range).reduce((union, range) => union.union(range));
+    }
+  }
+
+  const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+    'vscode.executeDocumentSymbolProvider',
+    document.uri
+  ).then((result) => result ?? [], () => []);
+  const enclosing = findEnclosingSymbol(symbols, cursor);
+  if (enclosing) {
+    return enclosing.range;
+  }
+
+  return task === 'test'
+    ? new vscode.Range(0, 0, document.lineCount, 0)
+    : document.lineAt(cursor.line).range;
+}
+
+/**
+ * ENCLOSING SYMBOL FINDER
+ * =======================
+ *
+ * @param symbols - Document symbols (nested)
+ * @param position - Cursor position
+ * @returns The innermost function, method or class containing the position
+ */
+function findEnclosingSymbol(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol | undefined {
+  for (const symbol of symbols) {
+    // Symbol providers may return the flat SymbolInformation shape instead
+    if (!symbol.range?.contains(position)) {
+      continue;
+    }
+    const inner = findEnclosingSymbol(symbol.children ?? [], position);
+    const enclosingKinds = [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor, vscode.SymbolKind.Class];
+    return inner ?? (enclosingKinds.includes(symbol.kind) ? symbol : undefined);
+  }
+  return undefined;
+}
+
+/**
+ * DIAGNOSTIC DESCRIBER
+ * ====================
+ *
+ * @param diagnostic - Problem reported by a language server or linter
+ * @returns One line for the prompt, like "line 3: Cannot find name 'x'. (ts 2304)"
+ */
+function describeDiagnostic(diagnostic: vscode.Diagnostic): string {
+  const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  const origin = [diagnostic.source, code].filter((part) => part !== undefined && part !== '').join(' ');
+  return `line ${diagnostic.range.start.line + 1}: ${diagnostic.message}${origin ? ` (${origin})` : ''}`;
+}
+
+/**
+ * WHOLE LINE EXPANDER
+ * ===================
+ *
+ * @param document - Document holding the range
+ * @param range - Any range
+ * @returns The range grown to cover its lines completely (a range ending
+ *   at the start of a line does not include that line)
+ */
+function toWholeLines(document: vscode.TextDocument, range: vscode.Range): vscode.Range {
+  const lastLine = range.end.character === 0 && range.end.line > range.start.line
+    ? range.end.line - 1
+    : Math.min(range.end.line, document.lineCount - 1);
+  return new vscode.Range(range.start.line, 0, lastLine, document.lineAt(lastLine).text.length);
+}
@@ -0,0 +1,277 @@
+/**
+ * INLINE COMPLETION PROVIDER
+ * ==========================
+ *
+ * This module shows Copilot-style ghost text while you type: after a
+ * short pause, the code before and after the cursor is sent to the model
+ * as a fill-in-the-middle request, and the answer appears faded at the
+ * cursor. Tab accepts it, typing on ignores it.
+ *
+ * How it works:
+ * 1. VS Code asks for a completion after every change to the document
+ * 2. The provider waits `jarnox.inlineCompletions.debounce` milliseconds;
+ *    if you keep typing, VS Code cancels the request and nothing is sent
+ * 3. Answers are cached by document version and cursor position, so
+ *    moving the cursor back and forth does not ask the model again
+ *
+ * Settings: jarnox.inlineCompletions.enabled, .languages, .debounce,
+ * .model and .maxTokens. Fill-in-the-middle needs a code model (like
+ * qwen2.5-coder or codellama:code).
+ */
+
+import * as vscode from 'vscode';
+import { readSetting } from '../services/configService';
+import { generateInfill, isCancellationError } from '../services/llmService';
+import { unwrapCodeFence } from '../utils/textProcessor';
+
+/** Most characters of code before the cursor sent with a request */
+const MAX_PREFIX_CHARS = 4000;
+
+/** Most characters of code after the cursor sent with a request */
+const MAX_SUFFIX_CHARS = 1000;
+
+/** Number of completions remembered */
+const CACHE_SIZE = 50;
+
+/** Opening bracket for each closing bracket */
+const OPENING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * LANGUAGE FILTER
+ * ===============
+ *
+ * Checks a language id against the `jarnox.inlineCompletions.languages`
+ * list. `*` enables every language, and `!id` turns one off again.
+ *
+ * @param languageId - Language of the document, like 'typescript'
+ * @param languages - Entries from the setting
+ * @returns true if completions should be shown
+ */
+export function isLanguageEnabled(languageId: string, languages: readonly string[]): boolean {
+  if (languages.includes(`!${languageId}`)) {
+    return false;
+  }
+  return languages.includes('*') || languages.includes(languageId);
+}
+
+/**
+ * COMPLETION CLEANER
+ * ==================
+ *
+ * Tidies a fill-in-the-middle answer before it is shown:
+ * - a markdown code fence around the answer is removed
+ * - code the model repeated from after the cursor (like the closing `)`
+ *   of the call being typed) is cut off; a single repeated character is
+ *   only cut when it is a bracket the answer never opened, so
+ *   `JSON.stringify(x)` typed inside `log(|)` keeps its own `)`
+ * - trailing blank lines and spaces are dropped
+ *
+ * @param completion - Text generated by the model
+ * @param suffix - Text after the cursor
+ * @returns The text to show as ghost text ('' if there is nothing useful)
+ */
+export function cleanInlineCompletion(completion: string, suffix: string): string {
+  let text = completion.includes('```') ? unwrapCodeFence(completion) : completion;
+  text = text.trimEnd();
+
+  // The longest start of the next code that the answer ends with
+  const nextCode = suffix.split('\n')[0].trim();
+  for (let length = nextCode.length; length > 0; length--) {
+    const repeated = nextCode.slice(0, length);
+    if (text.endsWith(repeated) && (length > 1 || closesUnopenedBracket(text, repeated))) {
+      text = text.slice(0, text.length - length).trimEnd();
+      break;
+    }
+  }
+  return text.trim() ? text : '';
+}
+
+/**
+ * UNOPENED BRACKET CHECK
+ * ======================
+ *
+ * @param text - Completion text
+ * @param closing - A character the text ends with
+ * @returns true if it is a closing bracket and the text closes that kind
+ *   of bracket more often than it opens it
+ */
+function closesUnopenedBracket(text: string, closing: string): boolean {
+  const opening = OPENING_BRACKETS[closing];
+  if (!opening) {
+    return false;
+  }
+  let depth = 0;
+  for (const char of text) {
+    if (char === opening) {
+      depth++;
+    } else if (char === closing) {
+      depth--;
+    }
+  }
+  return depth < 0;
+}
+
+/**
+ * COMPLETION CACHE CLASS
+ * ======================
+ *
+ * Remembers the most recent completions. Keys include the document
+ * version, so any edit makes the old entries unreachable.
+ */
+export class CompletionCache {
+
+  /** Completions by key, least recently used first */
+  private readonly entries = new Map<string, string>();
+
+  /**
+   * @param size - Most completions to keep
+   */
+  constructor(private readonly size: number = CACHE_SIZE) {}
+
+  /**
+   * KEY BUILDER
+   * ===========
+   *
+   * @param uri - Document URI as a string
+   * @param version - Document version
+   * @param offset - Cursor offset in the document
+   * @returns The cache key for that cursor in that version of the document
+   */
+  public static key(uri: string, version: number, offset: number): string {
+    return `${uri}@${version}:${offset}`;
+  }
+
+  /**
+   * @param key - Key from CompletionCache.key()
+   * @returns The cached completion, if any
+   */
+  public get(key: string): string | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Move to the end so it is dropped last
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * @param key - Key from CompletionCache.key()
+   * @param value - Completion to remember
+   */
+  public set(key: string, value: string): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.size) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /** Forgets every completion (for example after the model changed) */
+  public clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * INLINE COMPLETION PROVIDER CLASS
+ * ================================
+ *
+ * Implements VS Code's InlineCompletionItemProvider on top of the
+ * configured model server.
+ */
+export class JarnoxInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+
+  /** Recent completions, so revisiting a position is instant */
+  private readonly cache = new CompletionCache();
+
+  /**
+   * COMPLETION PROVIDER
+   * ===================
+   *
+   * Called by VS Code when it wants ghost text at the cursor.
+   *
+   * @param document - Document being edited
+   * @param position - Cursor position
+   * @param _context - Why completions were requested
+   * @param token - Cancelled when the user keeps typing or moves on
+   * @returns The completion, or undefined when there is none
+   */
+  public async provideInlineCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _context: vscode.InlineCompletionContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.InlineCompletionItem[] | undefined> {
+    if (
+      !readSetting<boolean>('inlineCompletions.enabled', false) ||
+      !isLanguageEnabled(document.languageId, readSetting<string[]>('inlineCompletions.languages', ['*']))
+    ) {
+      return undefined;
+    }
+
+    const offset = document.offsetAt(position);
+    const key = CompletionCache.key(document.uri.toString(), document.version, offset);
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return this.toItems(cached, position);
+    }
+
+    // Wait for a pause in typing; a new keystroke cancels this request
+    await new Promise((resolve) => setTimeout(resolve, readSetting<number>('inlineCompletions.debounce', 300)));
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const prefix = text.slice(Math.max(0, offset - MAX_PREFIX_CHARS), offset);
+    const suffix = text.slice(offset, offset + MAX_SUFFIX_CHARS);
+
+    const request = new AbortController();
+    const cancellation = token.onCancellationRequested(() => request.abort());
+    try {
+      const modelName = readSetting<string>('inlineCompletions.model', '');
+      const completion = await generateInfill(prefix, suffix, {
+        ...(modelName ? { modelName } : {}),
+        maxTokens: readSetting<number>('inlineCompletions.maxTokens', 64),
+        stream: false
+      }, { signal: request.signal });
+
+      const cleaned = cleanInlineCompletion(completion, suffix);
+      this.cache.set(key, cleaned);
+      return token.isCancellationRequested ? undefined : this.toItems(cleaned, position);
+    } catch (error) {
+      // Errors are only logged; a popup on every keystroke would be unbearable
+      if (!isCancellationError(error)) {
+        console.log('Inline completion failed:', error instanceof Error ? error.message : error);
+      }
+      return undefined;
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * CACHE CLEARER
+   * =============
+   *
+   * Called when the settings change, since the model may be different.
+   */
+  public clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * ITEM BUILDER
+   * ============
+   *
+   * @param completion - Cleaned completion text
+   * @param position - Cursor position
+   * @returns The items to show (none for an empty completion)
+   */
+  private toItems(completion: string, position: vscode.Position): vscode.InlineCompletionItem[] | undefined {
+    return completion
+      ? [new vscode.InlineCompletionItem(completion, new vscode.Range(position, position))]
+      : undefined;
+  }
+}
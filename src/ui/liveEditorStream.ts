@@ -0,0 +1,199 @@
+/**
+ * LIVE EDITOR STREAM
+ * ==================
+ * 
+ * This module writes tokens into the active editor while the AI is still
+ * generating them, so long answers appear as they are produced instead of
+ * all at once at the end.
+ * 
+ * How it works:
+ * 1. Each token is inserted at the cursor and shown faded ("ghost" text)
+ * 2. When generation finishes, the ghost text is replaced by the cleaned
+ *    result (code fences and comments removed, re-indented to match the
+ *    cursor's line) in one undoable edit
+ * 3. If the generation fails or turns out to be a file action, the ghost
+ *    text is removed again
+ */
+
+import * as vscode from 'vscode';
+import { documentSnapshot, type ChangeSnapshot } from '../services/changeSnapshots';
+import { adaptTextForInsertion, editorInsertionContext, formatRanges } from '../utils/textProcessor';
+
+/** Shared decoration that makes streamed text look faded until committed */
+let ghostDecoration: vscode.TextEditorDecorationType | undefined;
+
+/**
+ * GHOST DECORATION GETTER
+ * =======================
+ * 
+ * Creates the decoration type on first use. It is shared by every stream
+ * because decoration types are relatively expensive to create.
+ * 
+ * @returns The decoration used for ghost text
+ */
+function getGhostDecoration(): vscode.TextEditorDecorationType {
+  if (!ghostDecoration) {
+    ghostDecoration = vscode.window.createTextEditorDecorationType({
+      opacity: '0.55',
+      fontStyle: 'italic'
+    });
+  }
+  return ghostDecoration;
+}
+
+/**
+ * LIVE EDITOR STREAM CLASS
+ * ========================
+ * 
+ * Streams text into one editor at the primary cursor position.
+ * Edits are queued so tokens are always written in the order they arrive,
+ * even though each editor edit is asynchronous.
+ */
+export class LiveEditorStream {
+
+  /** Document offset where the streamed text starts */
+  private readonly startOffset: number;
+
+  /** The document as it was before any token was written */
+  public readonly initialSnapshot: ChangeSnapshot;
+
+  /** Number of characters written into the document so far */
+  private writtenLength = 0;
+
+  /** Chain of pending edits, so tokens are written one after another */
+  private pendingEdits: Promise<void> = Promise.resolve();
+
+  /** Set once commit() or discard() has been called */
+  private finished = false;
+
+  /**
+   * CONSTRUCTOR
+   * ===========
+   * 
+   * @param editor - Editor to stream into (text starts at its primary cursor)
+   */
+  constructor(private readonly editor: vscode.TextEditor) {
+    this.startOffset = editor.document.offsetAt(editor.selection.active);
+    this.initialSnapshot = documentSnapshot(editor.document);
+  }
+
+  /**
+   * DOCUMENT ACCESSOR
+   * =================
+   * 
+   * @returns The document the ghost text is written into
+   */
+  public get document(): vscode.TextDocument {
+    return this.editor.document;
+  }
+  
+  /**
+   * TOKEN APPENDER
+   * ==============
+   * 
+   * Queues a token to be written at the end of the ghost text.
+   * 
+   * @param token - Text received from the model
+   */
+  public append(token: string): void {
+    if (!token || this.finished) {
+      return;
+    }
+
+    this.pendingEdits = this.pendingEdits.then(async () => {
+      const insertAt = this.editor.document.positionAt(this.startOffset + this.writtenLength);
+      const applied = await this.editor.edit(
+        (editBuilder) => editBuilder.insert(insertAt, token),
+        // Keep streamed tokens out of the undo stack; the commit is the undo step
+        { undoStopBefore: false, undoStopAfter: false }
+      );
+
+      if (applied) {
+        this.writtenLength += token.length;
+        this.editor.setDecorations(getGhostDecoration(), [this.currentRange()]);
+      }
+    }).catch((error) => {
+      console.error('Failed to stream token into editor:', error);
+    });
+  }
+
+  /**
+   * COMMIT
+   * ======
+   * 
+   * Replaces the ghost text with the final, cleaned text, re-indented to
+   * match the line the stream started on.
+   * 
+   * @param finalText - Text that should remain in the document
+   * @param format - Run the document formatter on the committed text
+   */
+  public async commit(finalText: string, format = false): Promise<void> {
+    // The ghost text must be complete before its end position is known
+    await this.pendingEdits;
+    const document = this.editor.document;
+    const start = document.positionAt(this.startOffset);
+    const end = document.positionAt(this.startOffset + this.writtenLength);
+    const adapted = adaptTextForInsertion(finalText, editorInsertionContext(
+      this.editor,
+      document.lineAt(start.line).text.slice(0, start.character),
+      document.lineAt(end.line).text.slice(end.character)
+    ));
+
+    await this.finish(adapted);
+    if (format && adapted) {
+      await formatRanges(this.editor, [new vscode.Range(start, document.positionAt(this.startOffset + adapted.length))]);
+    }
+  }
+
+  /**
+   * DISCARD
+   * =======
+   * 
+   * Removes all ghost text, leaving the document as it was before streaming.
+   */
+  public async discard(): Promise<void> {
+    await this.finish('');
+  }
+
+  /**
+   * STREAM FINISHER
+   * ===============
+   * 
+   * Waits for queued tokens, then swaps the ghost text for `replacement`
+   * and clears the decoration.
+   * 
+   * @param replacement - Text to leave in place of the ghost text
+   */
+  private async finish(replacement: string): Promise<void> {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    await this.pendingEdits;
+    this.editor.setDecorations(getGhostDecoration(), []);
+
+    if (this.writtenLength === 0 && !replacement) {
+      return;
+    }
+
+    const ghostRange = this.currentRange();
+    await this.editor.edit((editBuilder) => {
+      editBuilder.replace(ghostRange, replacement);
+    });
+  }
+
+  /**
+   * CURRENT RANGE
+   * =============
+   * 
+   * @returns The document range covered by the ghost text
+   */
+  private currentRange(): vscode.Range {
+    const document = this.editor.document;
+    return new vscode.Range(
+      document.positionAt(this.startOffset),
+      document.positionAt(this.startOffset + this.writtenLength)
+    );
+  }
+}
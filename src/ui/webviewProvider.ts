@@ -4,18 +4,76 @@
  * 
  * This module creates and manages the sidebar panel UI in VS Code.
  * The panel contains:
- * - A dropdown to select different AI models
- * - A text input box for typing prompts
- * - An "Apply" button to send requests
+ * - A dropdown to switch between configuration profiles
+ * - A dropdown listing the models installed on the server
+ * - An output mode picker: Auto, Insert Code, File Action or Chat
+ * - A chat session picker with the conversation so far
+ * - A text input box for typing prompts, with suggestions for the
+ *   slash commands defined in .jarnox/prompts
+ * - A note showing when project instructions (.jarnox/instructions.md) are sent
+ * - The workspace code found for @workspace prompts, listed in the log
+ * - An "Apply" button to send requests, and one to insert the answer as a comment
+ * - A plan view listing multi-step answers, with a checkbox per step
+ * - A history of the copilot's changes, each with a Revert button
  * - A log area to show what happened
  * 
  * This is the "frontend" part of the extension - the part users interact with.
  */
 
 import * as vscode from 'vscode';
-import { generateResponseForUser } from '../services/llmService';
-import { parseModelAction, executeModelAction } from '../services/modelActions';
-import { stripComments, unwrapCodeFence, insertTextAtCursors } from '../utils/textProcessor';
+import {
+  generateChatResponse,
+  buildSystemPrompt,
+  buildUserMessage,
+  appendProjectInstructions,
+  isCancellationError,
+  listAvailableModels,
+  formatModelLabel,
+  type ChatMessage,
+  type ModelInfo
+} from '../services/llmService';
+import {
+  getLLMConfig,
+  listProfiles,
+  getActiveProfileName,
+  setActiveProfile,
+  readSetting
+} from '../services/configService';
+import { repairModelActions, executeModelAction, type ModelAction } from '../services/modelActions';
+import { runPlan, describePlanStep } from '../services/planRunner';
+import { documentSnapshot, type ChangeSnapshot } from '../services/changeSnapshots';
+import type { ActionJournal } from '../services/actionJournal';
+import { buildChatMessages, type ChatSessionStore } from '../services/chatSessions';
+import {
+  collectMentionContext,
+  collectPromptContext,
+  CITATION_INSTRUCTIONS,
+  type PromptContext,
+  type RetrievalOptions
+} from '../services/contextBuilder';
+import {
+  buildTemplateSystemPrompt,
+  parseSlashCommand,
+  renderPromptTemplate,
+  templateConfigOverrides,
+  PROMPTS_FOLDER,
+  type CustomPromptTemplate,
+  type PromptLibrary
+} from '../services/customPrompts';
+import type { ProjectInstructions } from '../services/projectInstructions';
+import type { WorkspaceIndex } from '../services/workspaceIndex';
+import {
+  buildRoutedSystemPrompt,
+  isOutputIntent,
+  resolveRoute,
+  skipRouteLine,
+  ROUTE_LABELS,
+  type OutputIntent,
+  type RouteDecision
+} from '../services/outputRouting';
+import { cleanGeneratedCode, insertTextAtCursors, wrapAsComment, type CommentHandling } from '../utils/textProcessor';
+import { runWithConcurrency } from '../utils/concurrency';
+import { LiveEditorStream } from './liveEditorStream';
 
 /**
  * WEBVIEW VIEW PROVIDER CLASS
@@ -30,12 +88,56 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
   /** Unique identifier for this view panel */
   public static readonly VIEW_ID = 'jarnox.commandView';
   
+  /** globalState key remembering the model used most recently */
+  private static readonly LAST_MODEL_KEY = 'jarnox.lastUsedModel';
+  
+  /** globalState key remembering the output mode picked in the sidebar */
+  private static readonly OUTPUT_INTENT_KEY = 'jarnox.outputIntent';
+  
+  /** Reply format requested when the answer is inserted as a comment */
+  private static readonly COMMENT_REPLY_INSTRUCTIONS =
+    'Reply with a short plain-text explanation only (no JSON, no code fences). It will be inserted into the editor as a comment.';
+  
+  /** Reply format requested when every cursor gets its own request */
+  private static readonly PER_CURSOR_INSTRUCTIONS =
+    'This request is about the one location described above. Reply with the code for that location only (no JSON actions). It will be inserted there, replacing the selection if there is one.';
+  
   /** Reference to the current webview (if any) */
   private currentWebview?: vscode.WebviewView;
   
   /** VS Code extension context for accessing resources */
   private extensionContext: vscode.ExtensionContext;
   
+  /** History of applied changes, used for reverting */
+  private journal: ActionJournal;
+  
+  /** Saved chat sessions; prompts continue the active one */
+  private chatSessions: ChatSessionStore;
+  
+  /** Prompt templates from .jarnox/prompts, run as slash commands */
+  private promptLibrary: PromptLibrary;
+  
+  /** The team's conventions, added to the system prompt of every request */
+  private projectInstructions: ProjectInstructions;
+  
+  /** Index searched for the code relevant to @workspace prompts */
+  private workspaceIndex: WorkspaceIndex;
+  
+  /** Abort controller for the generation currently running (if any) */
+  private activeRequest?: AbortController;
+  
+  /** Multi-step plan waiting for the user to run or discard it */
+  private pendingPlan?: { id: number; actions: ModelAction[] };
+  
+  /** Counter used to give every plan a unique id */
+  private planCounter = 0;
+  
+  /** Prompt currently typed in the sidebar, used to refresh the context estimate */
+  private promptDraft = '';
+  
+  /** Timer that batches context refreshes while the cursor moves */
+  private contextRefreshTimer?: ReturnType<typeof setTimeout>;
+  
   /**
    * CONSTRUCTOR
    * ===========
@@ -43,9 +145,26 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
    * Sets up the webview provider with access to the extension context.
    * 
    * @param context - VS Code extension context
+   * @param journal - Journal that records every applied change
+   * @param chatSessions - Store holding the chat sessions
+   * @param promptLibrary - Prompt templates offered as slash commands
+   * @param projectInstructions - The team's conventions from .jarnox/instructions.md
+   * @param workspaceIndex - Index of the workspace's code, used by @workspace
    */
-  constructor(context: vscode.ExtensionContext) {
+  constructor(
+    context: vscode.ExtensionContext,
+    journal: ActionJournal,
+    chatSessions: ChatSessionStore,
+    promptLibrary: PromptLibrary,
+    projectInstructions: ProjectInstructions,
+    workspaceIndex: WorkspaceIndex
+  ) {
     this.extensionContext = context;
+    this.journal = journal;
+    this.chatSessions = chatSessions;
+    this.promptLibrary = promptLibrary;
+    this.projectInstructions = projectInstructions;
+    this.workspaceIndex = workspaceIndex;
   }
   
   /**
@@ -53,16 +172,19 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
    * ===============
    * 
    * Generates a response without applying it to the editor and
-   * returns the raw output to the webview for display.
+   * returns the raw output to the webview for display. Prompt templates
+   * with `output: chat` and prompts sent in Chat mode are run this way too.
    * 
    * @param userPrompt - Prompt typed by the user
    * @param modelName - Selected AI model
    * @param webview - Webview to deliver the preview data to
+   * @param chatMode - Ask for an answer to read rather than code or actions
    */
   private async handlePreviewPrompt(
     userPrompt: string,
     modelName: string,
-    webview: vscode.Webview
+    webview: vscode.Webview,
+    chatMode = false
   ): Promise<void> {
     
     // Validate input
@@ -73,15 +195,38 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
     
     const normalizedPrompt = userPrompt.trim();
     console.log(`Previewing prompt with model ${modelName}:`, normalizedPrompt);
+    await this.rememberModel(modelName);
+    const expanded = this.expandSlashCommand(normalizedPrompt);
+    if (!expanded) {
+      return;
+    }
+    const { template } = expanded;
     
     vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
-      title: `Generating preview with ${modelName}...`,
-      cancellable: false
-    }, async () => {
+      title: `Generating ${template ? `/${template.name}` : 'preview'} with ${template?.model || modelName}...`,
+      cancellable: true
+    }, async (progress, cancellationToken) => {
+      const request = this.beginRequest(cancellationToken);
+      
       try {
-        const aiResponse = await generateResponseForUser(normalizedPrompt, modelName);
+        webview.postMessage({ type: 'streamStart', mode: 'preview' });
+        
+        // Collected here, so Stop also ends a slow @workspace search
+        const promptContext = await collectPromptContext(expanded.request, undefined, this.retrievalOptions(true, request.signal));
+        this.postSources(promptContext, webview);
+        const conversation = await this.prepareConversation(
+          promptContext,
+          undefined,
+          template ? buildTemplateSystemPrompt(template.output) : chatMode ? buildRoutedSystemPrompt('chat') : undefined
+        );
+        
+        const aiResponse = await generateChatResponse(conversation.messages, modelName, {
+          onToken: this.createTokenForwarder(webview, progress),
+          signal: request.signal
+        }, template ? templateConfigOverrides(template) : {});
         console.log('Received AI preview response:', aiResponse);
+        await this.chatSessions.appendTurn(conversation.sessionId, promptContext.request, aiResponse);
         
         webview.postMessage({
           type: 'preview',
@@ -89,8 +234,9 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
           rawResponse: aiResponse
         });
       } catch (error) {
-        console.error('Error generating preview response:', error);
-        vscode.window.showErrorMessage(this.formatErrorMessage(error));
+        this.reportFailure(error, webview);
+      } finally {
+        this.endRequest(request);
       }
     });
   }
@@ -124,6 +270,16 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
     // Set up message handling between webview and extension
     this.setupMessageHandling(webviewView.webview);
     
+    // Keep the context estimate in step with the editor
+    const editorListeners = [
+      vscode.window.onDidChangeActiveTextEditor(() => this.scheduleContextRefresh()),
+      vscode.window.onDidChangeTextEditorSelection(() => this.scheduleContextRefresh())
+    ];
+    webviewView.onDidDispose(() => {
+      editorListeners.forEach((listener) => listener.dispose());
+      clearTimeout(this.contextRefreshTimer);
+    });
+    
     console.log('Webview setup complete');
   }
   
@@ -144,97 +300,1020 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
       try {
         // Handle "apply" messages (when user submits a prompt)
         if (message.type === 'apply') {
-          await this.handleUserPrompt(message.text, message.model, webview);
+          await this.handleUserPrompt(message.text, message.model, webview, false, message.intent);
+        } else if (message.type === 'selectIntent') {
+          if (isOutputIntent(message.intent)) {
+            await this.extensionContext.globalState.update(CopilotWebviewProvider.OUTPUT_INTENT_KEY, message.intent);
+          }
+        } else if (message.type === 'comment') {
+          await this.handleUserPrompt(message.text, message.model, webview, true);
         } else if (message.type === 'preview') {
           await this.handlePreviewPrompt(message.text, message.model, webview);
+        } else if (message.type === 'stop') {
+          this.stopActiveRequest();
+        } else if (message.type === 'ready') {
+          this.postConfiguration(webview);
+          this.postHistory(webview);
+          this.postSessions(webview);
+          this.postPromptTemplates(webview);
+          this.postProjectInstructions(webview);
+          await this.postModels(webview);
+        } else if (message.type === 'refreshModels') {
+          await this.postModels(webview);
+        } else if (message.type === 'selectProfile') {
+          await this.handleProfileSelection(message.profile, webview);
+        } else if (message.type === 'runPlan') {
+          await this.handleRunPlan(message.planId, message.enabledSteps, webview);
+        } else if (message.type === 'discardPlan') {
+          this.handleDiscardPlan(message.planId, webview);
+        } else if (message.type === 'contextPreview') {
+          this.promptDraft = typeof message.text === 'string' ? message.text : '';
+          await this.postContextInfo(webview);
+        } else if (message.type === 'openInstructions') {
+          await this.openProjectInstructions();
+        } else if (message.type === 'revertEntry') {
+          await this.journal.revert(message.id);
+        } else if (message.type === 'selectSession') {
+          await this.chatSessions.setActive(message.id);
+        } else if (message.type === 'newSession') {
+          await this.chatSessions.create();
+        } else if (message.type === 'renameSession') {
+          await this.handleRenameSession(message.id);
+        } else if (message.type === 'deleteSession') {
+          await this.handleDeleteSession(message.id);
         } else {
           console.log('Unknown message type:', message.type);
         }
       } catch (error) {
-        console.error('Error handling webview message:', error);
-        vscode.window.showErrorMessage(
-          `Extension error: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
+        console.error('Error handling webview message:', error);
+        vscode.window.showErrorMessage(
+          `Extension error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    });
+  }
+  
+  /**
+   * CONFIGURATION REFRESHER
+   * =======================
+   * 
+   * Called when the jarnox.* settings change so the sidebar shows the
+   * current profile list and default model.
+   */
+  public refreshConfiguration(): void {
+    if (this.currentWebview) {
+      this.postConfiguration(this.currentWebview.webview);
+      // The server or default model may have changed, so reload the model list
+      this.postModels(this.currentWebview.webview).catch((error) => {
+        console.error('Failed to refresh models:', error);
+      });
+    }
+  }
+  
+  /**
+   * CONTEXT REFRESH SCHEDULER
+   * =========================
+   * 
+   * Recomputes the context estimate shortly after the editor or cursor
+   * changes, instead of on every single cursor movement.
+   */
+  private scheduleContextRefresh(): void {
+    clearTimeout(this.contextRefreshTimer);
+    this.contextRefreshTimer = setTimeout(() => {
+      if (this.currentWebview) {
+        this.postContextInfo(this.currentWebview.webview).catch((error) => {
+          console.error('Failed to refresh context estimate:', error);
+        });
+      }
+    }, 300);
+  }
+  
+  /**
+   * CONTEXT INFO SENDER
+   * ===================
+   * 
+   * Tells the webview how much context would be attached to the prompt
+   * being typed, so the user knows before pressing Apply.
+   * 
+   * @param webview - Webview to update
+   */
+  private async postContextInfo(webview: vscode.Webview): Promise<void> {
+    // Keyword search only: embedding every keystroke's draft would be slow
+    const promptContext = await collectPromptContext(this.promptDraft, undefined, this.retrievalOptions(false));
+    webview.postMessage({
+      type: 'contextInfo',
+      tokens: promptContext.tokenEstimate,
+      sections: promptContext.sections.map((section) => section.title)
+    });
+  }
+  
+  /**
+   * PROMPT TEMPLATE REFRESHER
+   * =========================
+   * 
+   * Called when the templates in .jarnox/prompts change so the slash
+   * command suggestions stay up to date.
+   */
+  public refreshPromptTemplates(): void {
+    if (this.currentWebview) {
+      this.postPromptTemplates(this.currentWebview.webview);
+    }
+  }
+  
+  /**
+   * PROMPT TEMPLATE SENDER
+   * ======================
+   * 
+   * @param webview - Webview to send the slash commands to
+   */
+  private postPromptTemplates(webview: vscode.Webview): void {
+    webview.postMessage({
+      type: 'promptTemplates',
+      templates: this.promptLibrary.list().map((template) => ({
+        name: template.name,
+        description: template.description,
+        output: template.output
+      }))
+    });
+  }
+  
+  /**
+   * PROJECT INSTRUCTIONS REFRESHER
+   * ==============================
+   * 
+   * Called when the project instructions are reloaded so the sidebar
+   * shows whether they are active.
+   */
+  public refreshProjectInstructions(): void {
+    if (this.currentWebview) {
+      this.postProjectInstructions(this.currentWebview.webview);
+    }
+  }
+  
+  /**
+   * PROJECT INSTRUCTIONS SENDER
+   * ===========================
+   * 
+   * @param webview - Webview to tell which instructions are active
+   */
+  private postProjectInstructions(webview: vscode.Webview): void {
+    const active = this.projectInstructions.current();
+    webview.postMessage({
+      type: 'projectInstructions',
+      files: active?.files ?? [],
+      tokens: active?.tokens ?? 0,
+      truncated: active?.truncated ?? false
+    });
+  }
+  
+  /**
+   * PROJECT INSTRUCTIONS OPENER
+   * ===========================
+   * 
+   * Opens the first instructions file that exists, so it can be edited
+   * from the sidebar note.
+   */
+  private async openProjectInstructions(): Promise<void> {
+    for (const uri of this.projectInstructions.fileUris()) {
+      try {
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri));
+        return;
+      } catch {
+        // Not in this workspace folder; try the next one
+      }
+    }
+  }
+  
+  /**
+   * SLASH COMMAND EXPANDER
+   * ======================
+   * 
+   * Turns `/name some input` into the prompt of the `name` template,
+   * filled in from the active editor. Other prompts are returned as typed.
+   * 
+   * @param prompt - What the user typed, trimmed
+   * @returns The request to send and the template it came from, or
+   *   undefined if the command does not exist (the user is told)
+   */
+  private expandSlashCommand(prompt: string): { request: string; template?: CustomPromptTemplate } | undefined {
+    const command = parseSlashCommand(prompt);
+    if (!command) {
+      return { request: prompt };
+    }
+    
+    const template = this.promptLibrary.get(command.name);
+    if (!template) {
+      vscode.window.showWarningMessage(
+        `There is no prompt template called /${command.name}. Add ${PROMPTS_FOLDER}/${command.name}.md to define it.`
+      );
+      return undefined;
+    }
+    
+    const editor = vscode.window.activeTextEditor;
+    const request = renderPromptTemplate(template.body, {
+      selection: editor ? editor.document.getText(editor.selection) : '',
+      language: editor?.document.languageId ?? '',
+      file: editor ? vscode.workspace.asRelativePath(editor.document.uri) : '',
+      input: command.input
+    });
+    console.log(`Expanded /${template.name} from ${template.source}`);
+    return { request, template };
+  }
+  
+  /**
+   * HISTORY REFRESHER
+   * =================
+   * 
+   * Called when the action journal changes so the sidebar history
+   * stays up to date.
+   */
+  public refreshHistory(): void {
+    if (this.currentWebview) {
+      this.postHistory(this.currentWebview.webview);
+    }
+  }
+  
+  /**
+   * HISTORY SENDER
+   * ==============
+   * 
+   * Sends the journal entries (newest first) to the webview.
+   * 
+   * @param webview - Webview to update
+   */
+  private postHistory(webview: vscode.Webview): void {
+    webview.postMessage({
+      type: 'history',
+      entries: this.journal.entries().map((entry) => ({
+        id: entry.id,
+        label: entry.label,
+        time: new Date(entry.timestamp).toLocaleString(),
+        reverted: entry.reverted
+      }))
+    });
+  }
+  
+  /**
+   * SESSIONS REFRESHER
+   * ==================
+   * 
+   * Called when a chat session changes so the sidebar shows the current
+   * session list and conversation.
+   */
+  public refreshSessions(): void {
+    if (this.currentWebview) {
+      this.postSessions(this.currentWebview.webview);
+    }
+  }
+  
+  /**
+   * SESSIONS SENDER
+   * ===============
+   * 
+   * Sends the session list and the messages of the open session.
+   * 
+   * @param webview - Webview to update
+   */
+  private postSessions(webview: vscode.Webview): void {
+    const active = this.chatSessions.activeSession();
+    webview.postMessage({
+      type: 'sessions',
+      activeId: active?.id,
+      sessions: this.chatSessions.sessions().map((session) => ({
+        id: session.id,
+        title: session.title
+      })),
+      messages: active?.messages ?? []
+    });
+  }
+  
+  /**
+   * RETRIEVAL OPTIONS BUILDER
+   * =========================
+   * 
+   * @param useEmbeddings - Whether the search may re-rank with embeddings
+   * @param signal - Stops the search along with the request
+   * @returns How @workspace prompts search the workspace index
+   */
+  private retrievalOptions(useEmbeddings = true, signal?: AbortSignal): RetrievalOptions {
+    return { index: this.workspaceIndex, useEmbeddings, signal };
+  }
+  
+  /**
+   * SOURCES SENDER
+   * ==============
+   * 
+   * Lists the workspace code sent with a prompt in the sidebar log, so the
+   * user can check the files the answer cites.
+   * 
+   * @param promptContext - Context collected for the prompt
+   * @param webview - Webview to tell
+   */
+  private postSources(promptContext: PromptContext, webview: vscode.Webview): void {
+    if (promptContext.sources.length > 0) {
+      console.log('Workspace code sent with the prompt:', promptContext.sources.join(', '));
+      webview.postMessage({ type: 'sources', sources: promptContext.sources });
+    }
+  }
+  
+  /**
+   * CONVERSATION PREPARER
+   * =====================
+   * 
+   * Builds the messages for a prompt: the instructions (with the project
+   * instructions added), the earlier turns of the active session (started
+   * if none is open) and the new request with its editor context.
+   * 
+   * @param promptContext - Request and context collected for the prompt
+   * @param instructions - Extra instructions for this request only
+   * @param systemPrompt - Instructions replacing the usual system prompt
+   * @returns The session the turn belongs to and the messages to send
+   */
+  private async prepareConversation(
+    promptContext: PromptContext,
+    instructions?: string,
+    systemPrompt: string = buildSystemPrompt()
+  ): Promise<{ sessionId: string; messages: ChatMessage[] }> {
+    // Workspace code comes with a request to cite it
+    const requestInstructions = promptContext.sources.length > 0
+      ? [instructions, CITATION_INSTRUCTIONS].filter(Boolean).join('\n')
+      : instructions;
+    const session = await this.chatSessions.ensureActiveSession();
+    return {
+      sessionId: session.id,
+      messages: buildChatMessages(
+        appendProjectInstructions(systemPrompt, this.projectInstructions.text()),
+        session.messages,
+        buildUserMessage(promptContext.request, { context: promptContext.text, instructions: requestInstructions })
+      )
+    };
+  }
+  
+  /**
+   * SESSION RENAME HANDLER
+   * ======================
+   * 
+   * @param sessionId - Session the user wants to rename
+   */
+  private async handleRenameSession(sessionId: string): Promise<void> {
+    const session = this.chatSessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    const title = await vscode.window.showInputBox({
+      prompt: 'New name for this chat session',
+      value: session.title
+    });
+    if (title !== undefined) {
+      await this.chatSessions.rename(sessionId, title);
+    }
+  }
+  
+  /**
+   * SESSION DELETE HANDLER
+   * ======================
+   * 
+   * Deletes a session after the user confirms.
+   * 
+   * @param sessionId - Session the user wants to delete
+   */
+  private async handleDeleteSession(sessionId: string): Promise<void> {
+    const session = this.chatSessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `Delete the chat session "${session.title}"?`,
+      { modal: true },
+      'Delete'
+    );
+    if (choice === 'Delete') {
+      await this.chatSessions.delete(sessionId);
+    }
+  }
+  
+  /**
+   * CONFIGURATION SENDER
+   * ====================
+   * 
+   * Sends the available profiles, the active profile and the configured
+   * default model to the webview.
+   * 
+   * @param webview - Webview to update
+   */
+  private postConfiguration(webview: vscode.Webview): void {
+    const config = getLLMConfig();
+    webview.postMessage({
+      type: 'config',
+      profiles: listProfiles(),
+      activeProfile: getActiveProfileName(),
+      defaultModel: config.modelName,
+      baseUrl: config.baseUrl,
+      outputIntent: this.extensionContext.globalState.get<OutputIntent>(CopilotWebviewProvider.OUTPUT_INTENT_KEY, 'auto')
+    });
+  }
+  
+  /**
+   * MODEL LIST SENDER
+   * =================
+   * 
+   * Asks the server which models are installed and sends the list to the
+   * webview. The configured default model is always listed; when the
+   * server does not have it, it is marked as "not installed".
+   * 
+   * The model picked by default is the last one used (if still installed),
+   * then the configured default, then the first installed model.
+   * 
+   * @param webview - Webview to update
+   */
+  private async postModels(webview: vscode.Webview): Promise<void> {
+    const config = getLLMConfig();
+    const defaultModel = config.modelName;
+    const lastUsedModel = this.extensionContext.globalState.get<string>(CopilotWebviewProvider.LAST_MODEL_KEY);
+    
+    webview.postMessage({ type: 'modelsLoading', baseUrl: config.baseUrl });
+    
+    let installedModels: ModelInfo[] = [];
+    let errorMessage: string | undefined;
+    try {
+      installedModels = await listAvailableModels();
+    } catch (error) {
+      errorMessage = this.formatErrorMessage(error);
+    }
+    
+    const installedNames = installedModels.map((model) => model.name);
+    const defaultInstalled = installedNames.includes(defaultModel);
+    
+    const entries = installedModels.map((model) => ({
+      name: model.name,
+      label: formatModelLabel(model) + (model.name === defaultModel ? ' (default)' : ''),
+      missing: false
+    }));
+    if (!defaultInstalled) {
+      // Without a model list we cannot tell whether the default is missing
+      entries.unshift({
+        name: defaultModel,
+        label: errorMessage ? `${defaultModel} (default)` : `${defaultModel} (default – not installed)`,
+        missing: !errorMessage
+      });
+    }
+    
+    let selectedModel = defaultModel;
+    if (lastUsedModel && installedNames.includes(lastUsedModel)) {
+      selectedModel = lastUsedModel;
+    } else if (!defaultInstalled && installedNames.length > 0) {
+      selectedModel = installedNames[0];
+    }
+    
+    webview.postMessage({
+      type: 'models',
+      models: entries,
+      selected: selectedModel,
+      defaultModel,
+      defaultMissing: !errorMessage && !defaultInstalled,
+      error: errorMessage
+    });
+  }
+  
+  /**
+   * MODEL MEMORY
+   * ============
+   * 
+   * Stores the model used for a request so it is pre-selected next time,
+   * even after VS Code restarts.
+   * 
+   * @param modelName - Model the user just used
+   */
+  private async rememberModel(modelName: string): Promise<void> {
+    if (typeof modelName === 'string' && modelName) {
+      await this.extensionContext.globalState.update(CopilotWebviewProvider.LAST_MODEL_KEY, modelName);
+    }
+  }
+  
+  /**
+   * PROFILE SELECTION HANDLER
+   * =========================
+   * 
+   * Activates the profile picked in the sidebar. The settings watcher
+   * then reloads the configuration and refreshes the webview.
+   * 
+   * @param profileName - Profile picked by the user ('' for base settings)
+   * @param webview - Webview to update if the profile no longer exists
+   */
+  private async handleProfileSelection(profileName: string, webview: vscode.Webview): Promise<void> {
+    const requestedProfile = typeof profileName === 'string' ? profileName : '';
+    
+    if (requestedProfile && !listProfiles().includes(requestedProfile)) {
+      vscode.window.showWarningMessage(`Profile "${requestedProfile}" is not defined in jarnox.profiles.`);
+      this.postConfiguration(webview);
+      return;
+    }
+    
+    console.log(`Switching to profile: ${requestedProfile || '(base settings)'}`);
+    await setActiveProfile(requestedProfile);
+  }
+  
+  /**
+   * USER PROMPT HANDLER
+   * ===================
+   * 
+   * This is the main processing function that:
+   * 1. Takes the user's prompt and selected model
+   * 2. Sends it to the AI service with the earlier turns of the chat session
+   * 3. Processes the AI's response
+   * 4. Either inserts code, performs a file action, or shows a
+   *    multi-step plan for the user to review
+   * 
+   * With `asComment`, the model is asked for a plain explanation, which is
+   * inserted as a comment above each cursor line instead. With several
+   * cursors and `jarnox.multiCursorMode` set to `perCursor`, every cursor
+   * gets its own request (see handlePerCursorPrompt).
+   * 
+   * The output mode picked in the sidebar decides what happens to the
+   * answer: Insert Code, File Action and Chat fix the route up front; in
+   * Auto mode the model names the route in the first line of its reply
+   * (see outputRouting.ts). The chosen route and the reason are logged.
+   * 
+   * A `/name` prompt runs the prompt template of that name instead; its
+   * output mode (`code` or `chat`) overrides the sidebar's, while `action`
+   * handles the answer like a normal prompt.
+   * 
+   * @param userPrompt - What the user typed
+   * @param modelName - Which AI model they selected
+   * @param webview - The webview to send status updates to
+   * @param asComment - Insert the answer as a comment
+   * @param requestedIntent - Output mode picked in the sidebar
+   */
+  private async handleUserPrompt(
+    userPrompt: string, 
+    modelName: string, 
+    webview: vscode.Webview,
+    asComment = false,
+    requestedIntent: unknown = 'auto'
+  ): Promise<void> {
+    
+    // Validate input
+    if (!userPrompt?.trim()) {
+      vscode.window.showWarningMessage('Please enter a prompt before applying.');
+      return;
+    }
+    
+    const normalizedPrompt = userPrompt.trim();
+    console.log(`Processing prompt with model ${modelName}:`, normalizedPrompt);
+    const expanded = this.expandSlashCommand(normalizedPrompt);
+    if (!expanded) {
+      return;
+    }
+    const { template } = expanded;
+    const intent: OutputIntent = template && template.output !== 'action'
+      ? template.output
+      : isOutputIntent(requestedIntent) ? requestedIntent : 'auto';
+    if (intent === 'chat' && !asComment) {
+      this.postRoute({ route: 'chat', body: '', reason: template ? `/${template.name} has output: chat` : 'Chat mode is selected' }, webview);
+      await this.handlePreviewPrompt(normalizedPrompt, modelName, webview, true);
+      return;
+    }
+    await this.rememberModel(modelName);
+    
+    // Templates fill in the primary selection, so they always send one
+    // request; per-cursor answers are always code
+    const activeEditor = vscode.window.activeTextEditor;
+    if (
+      !asComment &&
+      !template &&
+      (intent === 'auto' || intent === 'code') &&
+      activeEditor &&
+      activeEditor.selections.length > 1 &&
+      readSetting<string>('multiCursorMode', 'shared') === 'perCursor'
+    ) {
+      await this.handlePerCursorPrompt(normalizedPrompt, modelName, activeEditor, webview);
+      return;
+    }
+    
+    // Show progress notification
+    vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: `Generating ${template ? `/${template.name}` : 'response'} with ${template?.model || modelName}...`,
+      cancellable: true
+    }, async (progress, cancellationToken) => {
+      const request = this.beginRequest(cancellationToken);
+      const forwardToken = this.createTokenForwarder(webview, progress);
+      let liveStream: LiveEditorStream | undefined;
+      
+      try {
+        webview.postMessage({ type: 'streamStart', mode: 'apply' });
+        
+        // Read the editor context now, before any ghost text is streamed
+        // into it; collected here, so Stop also ends a slow @workspace search
+        const promptContext = await collectPromptContext(expanded.request, undefined, this.retrievalOptions(true, request.signal));
+        this.postSources(promptContext, webview);
+        const conversation = await this.prepareConversation(
+          promptContext,
+          asComment ? CopilotWebviewProvider.COMMENT_REPLY_INSTRUCTIONS : undefined,
+          asComment ? undefined : buildRoutedSystemPrompt(intent)
+        );
+        
+        // Optionally write tokens straight into the editor as ghost text
+        // (only answers that may be code; never the Auto mode route line)
+        const editorStream = asComment || intent === 'action' ? undefined : this.startLiveEditorStream();
+        liveStream = editorStream;
+        const streamToEditor = editorStream && skipRouteLine((token) => editorStream.append(token));
+        
+        // Send the conversation to the AI model and get the reply
+        const aiResponse = await generateChatResponse(conversation.messages, modelName, {
+          onToken: (token) => {
+            forwardToken(token);
+            streamToEditor?.(token);
+          },
+          signal: request.signal
+        }, template ? templateConfigOverrides(template) : {});
+        console.log('Received AI response:', aiResponse);
+        
+        // A request stopped at the last moment must not touch files or the editor
+        if (request.signal.aborted) {
+          await liveStream?.discard();
+          webview.postMessage({ type: 'cancelled' });
+          return;
+        }
+        
+        if (asComment) {
+          await this.chatSessions.appendTurn(conversation.sessionId, promptContext.request, aiResponse);
+          const snapshots = await this.insertCommentResponse(aiResponse);
+          if (snapshots.length > 0) {
+            await this.journal.record(`Inserted comment into ${vscode.workspace.asRelativePath(snapshots[0].uri)}`, snapshots);
+          }
+          webview.postMessage({
+            type: 'applied',
+            text: this.summarizeResponse(aiResponse),
+            rawResponse: aiResponse
+          });
+          return;
+        }
+        
+        // Decide where the answer goes, and say why
+        const decision = resolveRoute(intent, aiResponse);
+        this.postRoute(decision, webview);
+        if (decision.route === 'chat') {
+          await liveStream?.discard();
+          await this.chatSessions.appendTurn(conversation.sessionId, promptContext.request, decision.body);
+          webview.postMessage({
+            type: 'preview',
+            text: this.summarizeResponse(decision.body),
+            rawResponse: decision.body
+          });
+          return;
+        }
+        
+        // File actions are checked; broken ones go back to the model to be
+        // fixed rather than into the editor as "code"
+        const parsed = decision.route === 'code'
+          ? { actions: [], problems: [], response: decision.body, attempts: 0 }
+          : await repairModelActions(
+            decision.body,
+            async (repairRequest, previousResponse) => {
+              await liveStream?.discard();
+              progress.report({ message: 'The reply is not a valid action, asking the model to fix it...' });
+              return this.requestActionRepair(conversation.messages, previousResponse, repairRequest, modelName, template, request.signal);
+            },
+            readSetting<number>('actionRepairAttempts', 2),
+            true
+          );
+        if (request.signal.aborted) {
+          await liveStream?.discard();
+          webview.postMessage({ type: 'cancelled' });
+          return;
+        }
+        const finalResponse = parsed.response;
+        await this.chatSessions.appendTurn(conversation.sessionId, promptContext.request, finalResponse);
+        if (parsed.problems.length > 0) {
+          await liveStream?.discard();
+          const attempts = parsed.attempts > 0 ? ` (still invalid after ${parsed.attempts} ${parsed.attempts === 1 ? 'retry' : 'retries'})` : '';
+          const message = `The model's reply cannot be used as file actions${attempts}: ${parsed.problems.join('; ')}`;
+          vscode.window.showErrorMessage(message);
+          webview.postMessage({ type: 'failed', text: message });
+          return;
+        }
+        const modelActions = parsed.actions;
+        const modelAction = modelActions[0];
+        
+        if (modelActions.length > 1) {
+          // Several steps: let the user review the plan before anything runs
+          await liveStream?.discard();
+          this.showPlan(modelActions, finalResponse, webview);
+          
+        } else if (modelAction) {
+          // AI wants to perform a file operation, so the ghost text is not wanted
+          await liveStream?.discard();
+          console.log('Executing model action:', modelAction);
+          progress.report({ message: 'Waiting for you to review the change...' });
+          const result = await executeModelAction(modelAction);
+          if (result.status === 'applied') {
+            await this.journal.record(describePlanStep(modelAction), result.snapshots);
+          }
+          
+          // Notify webview about the action
+          webview.postMessage({
+            type: 'applied',
+            text: `Action: ${modelAction.action} ${modelAction.path || '(current editor)'}`,
+            rawResponse: finalResponse
+          });
+          
+        } else {
+          // AI returned code to insert at cursor (the ghost text is gone if
+          // the model was asked to fix its reply)
+          console.log('Inserting code response at cursor');
+          const snapshots = await this.insertCodeResponse(finalResponse, parsed.attempts > 0 ? undefined : liveStream);
+          if (snapshots.length > 0) {
+            await this.journal.record(`Inserted code into ${vscode.workspace.asRelativePath(snapshots[0].uri)}`, snapshots);
+          }
+          
+          // Notify webview about the insertion
+          webview.postMessage({
+            type: 'applied',
+            text: this.summarizeResponse(finalResponse),
+            rawResponse: finalResponse
+          });
+        }
+        
+      } catch (error) {
+        await liveStream?.discard();
+        this.reportFailure(error, webview);
+      } finally {
+        this.endRequest(request);
+      }
+    });
+  }
+  
+  /**
+   * ROUTE REPORTER
+   * ==============
+   * 
+   * Tells the sidebar where an answer goes and why.
+   * 
+   * @param decision - The route and the reason for it
+   * @param webview - Webview to tell
+   */
+  private postRoute(decision: RouteDecision, webview: vscode.Webview): void {
+    console.log(`Routing the answer to ${decision.route}: ${decision.reason}`);
+    webview.postMessage({ type: 'route', route: decision.route, label: ROUTE_LABELS[decision.route], reason: decision.reason });
+  }
+  
+  /**
+   * ACTION REPAIR REQUESTER
+   * =======================
+   * 
+   * Shows the model its broken reply with what is wrong, and asks for the
+   * JSON again. The reply is constrained to JSON where the server allows it.
+   * 
+   * @param messages - The conversation the broken reply answered
+   * @param previousResponse - The broken reply
+   * @param repairRequest - What is wrong, from buildRepairRequest()
+   * @param modelName - Selected AI model
+   * @param template - Prompt template the request came from, if any
+   * @param signal - Aborts the request
+   * @returns The model's new reply
+   */
+  private requestActionRepair(
+    messages: ChatMessage[],
+    previousResponse: string,
+    repairRequest: string,
+    modelName: string,
+    template: CustomPromptTemplate | undefined,
+    signal: AbortSignal
+  ): Promise<string> {
+    return generateChatResponse(
+      [...messages, { role: 'assistant', content: previousResponse }, { role: 'user', content: repairRequest }],
+      modelName,
+      { signal, json: true },
+      template ? templateConfigOverrides(template) : {}
+    );
+  }
+  
+  /**
+   * PER-CURSOR PROMPT HANDLER
+   * =========================
+   * 
+   * Sends one request per selection, each with the context of its own
+   * selection ("write a docstring for this function" across five selected
+   * functions). At most `jarnox.maxConcurrentRequests` requests run at
+   * once. When all have finished, every answer is inserted into its own
+   * selection in one undoable edit. Cursors whose request failed are left
+   * alone and reported in a warning.
+   * 
+   * @param normalizedPrompt - What the user typed, trimmed
+   * @param modelName - Which AI model they selected
+   * @param editor - Editor holding the cursors
+   * @param webview - The webview to send status updates to
+   */
+  private async handlePerCursorPrompt(
+    normalizedPrompt: string,
+    modelName: string,
+    editor: vscode.TextEditor,
+    webview: vscode.Webview
+  ): Promise<void> {
+    const selections = [...editor.selections];
+    const document = editor.document;
+    const documentVersion = document.version;
+    
+    vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: `Generating ${selections.length} responses with ${modelName}...`,
+      cancellable: true
+    }, async (progress, cancellationToken) => {
+      const request = this.beginRequest(cancellationToken);
+      
+      try {
+        webview.postMessage({ type: 'streamStart', mode: 'apply' });
+        
+        // Each cursor's request only describes its own selection; @file and
+        // @workspace context is the same for all of them, so it is collected once
+        const mentioned = await collectMentionContext(normalizedPrompt, this.retrievalOptions(true, request.signal));
+        const conversations: Array<{ request: string; sessionId: string; messages: ChatMessage[] }> = [];
+        for (const selection of selections) {
+          const promptContext = await collectPromptContext(normalizedPrompt, selection, undefined, mentioned);
+          conversations.push({
+            request: promptContext.request,
+            ...(await this.prepareConversation(promptContext, CopilotWebviewProvider.PER_CURSOR_INSTRUCTIONS))
+          });
+        }
+        
+        const results = await runWithConcurrency(
+          conversations,
+          readSetting<number>('maxConcurrentRequests', 3),
+          (conversation) => generateChatResponse(conversation.messages, modelName, { signal: request.signal }),
+          (done, total) => progress.report({ message: `${done} of ${total} cursors done`, increment: 100 / total })
+        );
+        
+        if (request.signal.aborted) {
+          webview.postMessage({ type: 'cancelled' });
+          return;
+        }
+        
+        const succeeded = results
+          .map((result, index) => ({ result, index }))
+          .filter((entry): entry is { result: PromiseFulfilledResult<string>; index: number } =>
+            entry.result.status === 'fulfilled'
+          );
+        const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (succeeded.length === 0) {
+          throw failures[0].reason;
+        }
+        
+        // The selections were captured before generating, so they must still fit the text
+        if (document.version !== documentVersion) {
+          const message = 'The document changed while the responses were generated, so nothing was inserted.';
+          vscode.window.showWarningMessage(message);
+          webview.postMessage({ type: 'failed', text: message });
+          return;
+        }
+        
+        const handling = readSetting<CommentHandling>('commentHandling', 'strip');
+        const snapshot = documentSnapshot(document);
+        const inserted = await insertTextAtCursors(
+          editor,
+          succeeded.map((entry) => cleanGeneratedCode(entry.result.value, document.languageId, handling)),
+          {
+            selections: succeeded.map((entry) => selections[entry.index]),
+            format: readSetting<boolean>('formatOnInsert', false)
+          }
+        );
+        if (inserted.length > 0) {
+          await this.journal.record(
+            `Inserted code at ${inserted.length} cursors in ${vscode.workspace.asRelativePath(document.uri)}`,
+            [snapshot]
+          );
+        }
+        
+        // One turn per prompt keeps the session readable
+        const combinedReply = succeeded.map((entry) => entry.result.value).join('\n\n');
+        await this.chatSessions.appendTurn(conversations[0].sessionId, conversations[0].request, combinedReply);
+        
+        if (failures.length > 0) {
+          vscode.window.showWarningMessage(
+            `${failures.length} of ${selections.length} cursor requests failed: ${this.formatErrorMessage(failures[0].reason)}`
+          );
+        }
+        webview.postMessage({
+          type: 'applied',
+          text: `Inserted code at ${inserted.length} of ${selections.length} cursors`,
+          rawResponse: combinedReply
+        });
+        
+      } catch (error) {
+        this.reportFailure(error, webview);
+      } finally {
+        this.endRequest(request);
       }
     });
   }
   
   /**
-   * USER PROMPT HANDLER
-   * ===================
+   * PLAN PRESENTER
+   * ==============
    * 
-   * This is the main processing function that:
-   * 1. Takes the user's prompt and selected model
-   * 2. Sends it to the AI service
-   * 3. Processes the AI's response
-   * 4. Either inserts code or performs file actions
+   * Remembers a multi-step plan and sends its steps to the webview,
+   * where each step gets a checkbox. Nothing runs until the user
+   * presses "Run plan".
    * 
-   * @param userPrompt - What the user typed
-   * @param modelName - Which AI model they selected
-   * @param webview - The webview to send status updates to
+   * @param actions - Steps parsed from the response
+   * @param rawResponse - The response the plan came from
+   * @param webview - Webview to show the plan in
    */
-  private async handleUserPrompt(
-    userPrompt: string, 
-    modelName: string, 
-    webview: vscode.Webview
-  ): Promise<void> {
+  private showPlan(actions: ModelAction[], rawResponse: string, webview: vscode.Webview): void {
+    const planId = ++this.planCounter;
+    this.pendingPlan = { id: planId, actions };
+    console.log(`Showing plan ${planId} with ${actions.length} steps`);
     
-    // Validate input
-    if (!userPrompt?.trim()) {
-      vscode.window.showWarningMessage('Please enter a prompt before applying.');
+    webview.postMessage({
+      type: 'plan',
+      planId,
+      steps: actions.map((action, index) => ({
+        index,
+        label: describePlanStep(action),
+        preview: (action.content ?? '').slice(0, 200)
+      })),
+      rawResponse
+    });
+  }
+  
+  /**
+   * PLAN RUN HANDLER
+   * ================
+   * 
+   * Runs the steps the user left ticked, in order. Each file change still
+   * goes through the diff preview. If a step fails, the changes made by
+   * earlier steps are rolled back.
+   * 
+   * @param planId - Id of the plan shown in the webview
+   * @param enabledSteps - Indexes of the ticked steps
+   * @param webview - Webview to report step progress to
+   */
+  private async handleRunPlan(planId: number, enabledSteps: unknown, webview: vscode.Webview): Promise<void> {
+    const plan = this.pendingPlan;
+    if (!plan || plan.id !== planId) {
+      vscode.window.showWarningMessage('This plan is no longer available. Please generate it again.');
       return;
     }
+    this.pendingPlan = undefined;
     
-    const normalizedPrompt = userPrompt.trim();
-    console.log(`Processing prompt with model ${modelName}:`, normalizedPrompt);
+    // Keep the model's order, whatever order the checkboxes were sent in
+    const stepIndexes = Array.isArray(enabledSteps)
+      ? plan.actions.map((_, index) => index).filter((index) => enabledSteps.includes(index))
+      : [];
+    if (stepIndexes.length === 0) {
+      webview.postMessage({ type: 'planFinished', planId, succeeded: true, text: 'No steps selected' });
+      return;
+    }
     
-    // Show progress notification
-    vscode.window.withProgress({
+    await vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
-      title: `Generating response with ${modelName}...`,
-      cancellable: false
-    }, async () => {
-      
-      try {
-        // Send prompt to AI model and get response
-        const aiResponse = await generateResponseForUser(normalizedPrompt, modelName);
-        console.log('Received AI response:', aiResponse);
-        
-        // Try to parse as a model action first
-        const modelAction = parseModelAction(aiResponse);
-        
-        if (modelAction) {
-          // AI wants to perform a file operation
-          console.log('Executing model action:', modelAction);
-          await executeModelAction(modelAction);
-          
-          // Notify webview about the action
-          webview.postMessage({
-            type: 'applied',
-            text: `Action: ${modelAction.action} ${modelAction.path || '(current editor)'}`,
-            rawResponse: aiResponse
-          });
-          
-        } else {
-          // AI returned code to insert at cursor
-          console.log('Inserting code response at cursor');
-          await this.insertCodeResponse(aiResponse);
-          
-          // Notify webview about the insertion
-          webview.postMessage({
-            type: 'applied',
-            text: this.summarizeResponse(aiResponse),
-            rawResponse: aiResponse
-          });
+      title: `Running plan (${stepIndexes.length} steps)...`
+    }, async (progress) => {
+      const result = await runPlan(
+        stepIndexes.map((index) => plan.actions[index]),
+        (position, status) => {
+          const index = stepIndexes[position];
+          if (status === 'running') {
+            progress.report({ message: `Step ${position + 1} of ${stepIndexes.length}: ${describePlanStep(plan.actions[index])}` });
+          }
+          webview.postMessage({ type: 'planStatus', planId, index, status });
         }
-        
-      } catch (error) {
-        console.error('Error processing user prompt:', error);
-        vscode.window.showErrorMessage(this.formatErrorMessage(error));
+      );
+      
+      if (result.succeeded) {
+        await this.journal.record(`Plan: ${result.appliedCount} of ${stepIndexes.length} steps`, result.snapshots);
+        const text = `Plan finished: ${result.appliedCount} of ${stepIndexes.length} steps applied`;
+        vscode.window.showInformationMessage(text);
+        webview.postMessage({ type: 'planFinished', planId, succeeded: true, text });
+        return;
+      }
+      
+      const failedIndex = stepIndexes[result.failedStep ?? 0];
+      let text = `Plan step ${failedIndex + 1} failed (${result.error}). Earlier changes were rolled back.`;
+      if (result.rollbackFailures > 0) {
+        text += ` ${result.rollbackFailures} change(s) could not be restored; please check your files.`;
       }
+      vscode.window.showErrorMessage(text);
+      webview.postMessage({ type: 'planFinished', planId, succeeded: false, text });
     });
   }
   
+  /**
+   * PLAN DISCARD HANDLER
+   * ====================
+   * 
+   * Forgets a plan the user does not want to run.
+   * 
+   * @param planId - Id of the plan shown in the webview
+   * @param webview - Webview to update
+   */
+  private handleDiscardPlan(planId: number, webview: vscode.Webview): void {
+    if (this.pendingPlan?.id === planId) {
+      this.pendingPlan = undefined;
+    }
+    webview.postMessage({ type: 'planFinished', planId, succeeded: true, discarded: true, text: 'Plan discarded' });
+  }
+  
   /**
    * CODE RESPONSE INSERTER
    * ======================
@@ -242,33 +1321,223 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
    * Takes the AI's response and inserts it as code at the current
    * cursor position(s) in the active editor.
    * 
+   * When the response was streamed live into the editor, the ghost text
+   * is replaced with the cleaned code instead of inserting it again.
+   * 
    * @param response - Raw response from the AI
+   * @param liveStream - Live editor stream holding the ghost text, if any
+   * @returns Snapshot of the document before the insertion (empty if nothing was inserted)
    */
-  private async insertCodeResponse(response: string): Promise<void> {
+  private async insertCodeResponse(response: string, liveStream?: LiveEditorStream): Promise<ChangeSnapshot[]> {
+    // Cleaned code replaces the ghost text written while streaming
+    if (liveStream) {
+      const cleanedStream = cleanGeneratedCode(
+        response,
+        liveStream.document.languageId,
+        readSetting<CommentHandling>('commentHandling', 'strip')
+      );
+      if (!cleanedStream) {
+        await liveStream.discard();
+        vscode.window.showWarningMessage('No code content received from AI.');
+        return [];
+      }
+      await liveStream.commit(cleanedStream, readSetting<boolean>('formatOnInsert', false));
+      vscode.window.showInformationMessage(
+        `Inserted ${cleanedStream.length} characters of code.`
+      );
+      return [liveStream.initialSnapshot];
+    }
+    
     // Check if there's an active editor
     const activeEditor = vscode.window.activeTextEditor;
     if (!activeEditor) {
       vscode.window.showInformationMessage(
         'No file is open. Please open a file to insert code.'
       );
-      return;
+      return [];
     }
     
-    // Clean up the response (remove comments and code fences)
-    const cleanedCode = stripComments(unwrapCodeFence(response));
+    // Clean up the response (code fences, and comments as configured)
+    const cleanedCode = cleanGeneratedCode(
+      response,
+      activeEditor.document.languageId,
+      readSetting<CommentHandling>('commentHandling', 'strip')
+    );
     
     if (!cleanedCode) {
       vscode.window.showWarningMessage('No code content received from AI.');
-      return;
+      return [];
     }
     
     // Insert the code at all cursor positions
-    await insertTextAtCursors(activeEditor, cleanedCode);
+    const snapshot = documentSnapshot(activeEditor.document);
+    await insertTextAtCursors(activeEditor, cleanedCode, {
+      format: readSetting<boolean>('formatOnInsert', false)
+    });
     
     // Show success message
     vscode.window.showInformationMessage(
       `Inserted ${cleanedCode.length} characters of code.`
     );
+    return [snapshot];
+  }
+  
+  /**
+   * COMMENT RESPONSE INSERTER
+   * =========================
+   * 
+   * Inserts the AI's answer as a comment on the line above each cursor,
+   * using the document's comment syntax and the indentation of that line.
+   * 
+   * @param response - Raw response from the AI
+   * @returns Snapshot of the document before the insertion (empty if nothing was inserted)
+   */
+  private async insertCommentResponse(response: string): Promise<ChangeSnapshot[]> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showInformationMessage(
+        'No file is open. Please open a file to insert a comment.'
+      );
+      return [];
+    }
+    
+    // Keep the text of any fenced block, but not the fence markers
+    const text = response
+      .split(/\r?\n/)
+      .filter((line) => !line.trimStart().startsWith('```'))
+      .join('\n');
+    const document = activeEditor.document;
+    if (!wrapAsComment(text, document.languageId)) {
+      vscode.window.showWarningMessage('No text received from AI.');
+      return [];
+    }
+    
+    const cursorLines = [...new Set(activeEditor.selections.map((selection) => selection.active.line))];
+    const snapshot = documentSnapshot(document);
+    await activeEditor.edit((editBuilder) => {
+      for (const line of cursorLines) {
+        const indent = document.lineAt(line).text.match(/^\s*/)![0];
+        const comment = wrapAsComment(text, document.languageId, { indent });
+        editBuilder.insert(new vscode.Position(line, 0), comment + '\n');
+      }
+    });
+    
+    vscode.window.showInformationMessage(
+      `Inserted a comment at ${cursorLines.length} location(s).`
+    );
+    return [snapshot];
+  }
+  
+  /**
+   * REQUEST STARTER
+   * ===============
+   * 
+   * Creates the abort controller for a new generation. Only one generation
+   * runs at a time, so any earlier request is stopped first. Cancelling the
+   * progress notification aborts the request as well.
+   * 
+   * @param cancellationToken - Token from the progress notification
+   * @returns Controller whose signal is passed to the AI request
+   */
+  private beginRequest(cancellationToken: vscode.CancellationToken): AbortController {
+    this.stopActiveRequest();
+    
+    const request = new AbortController();
+    this.activeRequest = request;
+    cancellationToken.onCancellationRequested(() => request.abort());
+    
+    return request;
+  }
+  
+  /**
+   * REQUEST FINISHER
+   * ================
+   * 
+   * Forgets a finished request, unless a newer one has already replaced it.
+   * 
+   * @param request - The controller returned by beginRequest()
+   */
+  private endRequest(request: AbortController): void {
+    if (this.activeRequest === request) {
+      this.activeRequest = undefined;
+    }
+  }
+  
+  /**
+   * ACTIVE REQUEST STOPPER
+   * ======================
+   * 
+   * Aborts the running generation (used by the webview's Stop button).
+   */
+  private stopActiveRequest(): void {
+    if (this.activeRequest) {
+      console.log('Stopping active generation');
+      this.activeRequest.abort();
+      this.activeRequest = undefined;
+    }
+  }
+  
+  /**
+   * FAILURE REPORTER
+   * ================
+   * 
+   * Tells the user and the webview that a generation ended early.
+   * Cancellations are reported quietly; real errors get an error popup.
+   * 
+   * @param error - Error caught while generating or applying
+   * @param webview - Webview to update
+   */
+  private reportFailure(error: unknown, webview: vscode.Webview): void {
+    if (isCancellationError(error)) {
+      webview.postMessage({ type: 'cancelled' });
+      return;
+    }
+    
+    console.error('Error processing prompt:', error);
+    const errorMessage = this.formatErrorMessage(error);
+    webview.postMessage({ type: 'failed', text: errorMessage });
+    vscode.window.showErrorMessage(errorMessage);
+  }
+  
+  /**
+   * LIVE EDITOR STREAM STARTER
+   * ==========================
+   * 
+   * Starts streaming into the active editor when `jarnox.streamToEditor`
+   * is enabled and an editor is open.
+   * 
+   * @returns A live stream, or undefined when the feature is off
+   */
+  private startLiveEditorStream(): LiveEditorStream | undefined {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor || !readSetting<boolean>('streamToEditor', false)) {
+      return undefined;
+    }
+    return new LiveEditorStream(activeEditor);
+  }
+  
+  /**
+   * TOKEN FORWARDER FACTORY
+   * =======================
+   * 
+   * Builds the callback that receives streamed tokens. Each token is sent
+   * to the webview's response area, and the progress notification shows
+   * how much has arrived so long generations never look frozen.
+   * 
+   * @param webview - Webview showing the response
+   * @param progress - Progress notification to update
+   * @returns Callback to pass as `onToken`
+   */
+  private createTokenForwarder(
+    webview: vscode.Webview,
+    progress: vscode.Progress<{ message?: string }>
+  ): (token: string) => void {
+    let tokenCount = 0;
+    return (token: string) => {
+      tokenCount++;
+      progress.report({ message: `${tokenCount} tokens received` });
+      webview.postMessage({ type: 'streamChunk', text: token });
+    };
   }
   
   /**
@@ -300,7 +1569,7 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
   private formatErrorMessage(error: unknown): string {
     if (error instanceof Error) {
       if (error.message.includes('connect')) {
-        return 'Cannot connect to AI server. Check if Ollama is running.';
+        return 'Cannot connect to AI server. Check that the model server is running.';
       }
       return error.message;
     }
@@ -475,24 +1744,164 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
       background: #4a4a4a;
     }
 
-    /* Voice recording button */
-    /* Help text styling */
-    .help-text { 
-      color: var(--muted-text); 
-      font-size: 12px; 
-      line-height: 1.4;
+    /* Stop button shown while a generation is running */
+    button.danger {
+      background: #a1260d;
+    }
+
+    button.danger:hover {
+      background: #c72e0f;
+    }
+
+    button[hidden] {
+      display: none;
+    }
+
+    button.icon {
+      min-width: 0;
+      padding: 8px 10px;
+    }
+
+    /* Configured default model that the server does not have */
+    option.missing {
+      color: #f48771;
+    }
+
+    /* Voice recording button */
+    /* Context estimate under the prompt */
+    .context-info {
+      font-size: 11px;
+      color: var(--muted-text);
+    }
+    
+    .instructions-info {
+      cursor: pointer;
+    }
+    .instructions-info:hover {
+      text-decoration: underline;
+    }
+    .instructions-info.truncated {
+      color: var(--vscode-editorWarning-foreground, #cca700);
+    }
+    
+    /* Slash command suggestions below the prompt */
+    .slash-suggestions {
+      list-style: none;
+      margin: 0;
+      padding: 2px;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      background: var(--surface-color);
+      max-height: 160px;
+      overflow-y: auto;
+    }
+    .slash-suggestions li {
+      padding: 4px 6px;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+    }
+    .slash-suggestions li.active,
+    .slash-suggestions li:hover {
+      background: var(--accent-color);
+      color: #fff;
+    }
+    .slash-suggestions .suggestion-description {
+      color: var(--muted-text);
+      margin-left: 6px;
+    }
+    .slash-suggestions li.active .suggestion-description,
+    .slash-suggestions li:hover .suggestion-description {
+      color: inherit;
+    }
+
+    /* Help text styling */
+    .help-text { 
+      color: var(--muted-text); 
+      font-size: 12px; 
+      line-height: 1.4;
+    }
+
+    /* Status message display */
+    .status-message {
+      font-size: 11px;
+      color: var(--muted-text);
+      min-height: 16px;
+    }
+
+    /* Response display */
+    .response-container {
+      margin-top: 8px;
+      padding: 8px;
+      border-radius: 6px;
+      background: var(--surface-color);
+      border: 1px solid var(--border-color);
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .response-container[hidden] {
+      display: none;
+    }
+
+    .response-header {
+      font-size: 12px;
+      color: var(--muted-text);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .response-content {
+      margin: 0;
+      font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+      font-size: 12px;
+      white-space: pre-wrap;
+      word-break: break-word;
+      max-height: 160px;
+      overflow-y: auto;
+    }
+
+    /* Chat transcript of the open session */
+    .chat-transcript {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      max-height: 280px;
+      overflow-y: auto;
+    }
+
+    .chat-transcript:empty {
+      display: none;
+    }
+
+    .chat-message {
+      padding: 6px 8px;
+      border-radius: 6px;
+      background: var(--surface-color);
+      border: 1px solid var(--border-color);
+    }
+
+    .chat-message.user {
+      border-left: 3px solid var(--accent-color);
     }
 
-    /* Status message display */
-    .status-message {
+    .chat-message .chat-role {
       font-size: 11px;
       color: var(--muted-text);
-      min-height: 16px;
+      margin-bottom: 4px;
     }
 
-    /* Response display */
-    .response-container {
-      margin-top: 8px;
+    .chat-message pre {
+      margin: 0;
+      font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+      font-size: 12px;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    /* Multi-step plan view */
+    .plan-container {
       padding: 8px;
       border-radius: 6px;
       background: var(--surface-color);
@@ -502,27 +1911,87 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
       gap: 6px;
     }
 
-    .response-container[hidden] {
+    .plan-container[hidden] {
       display: none;
     }
 
-    .response-header {
+    .plan-steps {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
       font-size: 12px;
+    }
+
+    .plan-step {
+      display: flex;
+      gap: 6px;
+      align-items: flex-start;
+    }
+
+    .plan-step label {
+      flex: 1;
+      word-break: break-word;
+    }
+
+    .plan-step .step-status {
       color: var(--muted-text);
-      text-transform: uppercase;
-      letter-spacing: 0.5px;
+      font-size: 11px;
     }
 
-    .response-content {
-      margin: 0;
-      font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+    .plan-step.failed .step-status {
+      color: #f48771;
+    }
+
+    .plan-step.applied .step-status {
+      color: #89d185;
+    }
+
+    /* Change history */
+    .history {
       font-size: 12px;
-      white-space: pre-wrap;
-      word-break: break-word;
+    }
+
+    .history summary {
+      cursor: pointer;
+      color: var(--muted-text);
+    }
+
+    .history-list {
+      list-style: none;
+      margin: 6px 0 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
       max-height: 160px;
       overflow-y: auto;
     }
 
+    .history-entry {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+    }
+
+    .history-entry .history-label {
+      flex: 1;
+      word-break: break-word;
+    }
+
+    .history-entry.reverted .history-label {
+      text-decoration: line-through;
+      color: var(--muted-text);
+    }
+
+    .history-entry button {
+      min-width: 0;
+      padding: 2px 8px;
+      font-size: 11px;
+    }
+
     /* Activity log styling */
     .log {
       margin-top: 6px;
@@ -548,17 +2017,39 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
     <!-- Main interface -->
     <div class="content">
       
+      <!-- Configuration profile selection -->
+      <div class="row">
+        <select id="profileSelect" title="Configuration profile">
+          <option value="">Default settings</option>
+        </select>
+      </div>
+
       <!-- AI Model selection -->
       <div class="row">
-        <select id="modelSelect">
-          <option value="mistral:latest">mistral:latest</option>
-          <option value="llama3:latest">llama3:latest</option>
-          <option value="sqlcoder:latest">sqlcoder:latest</option>
-          <option value="llama3.2:latest" selected>llama3.2:latest</option>
-          <option value="qwen2.5-coder:7b">qwen2.5-coder:7b</option>
-          <option value="codellama:latest">codellama:latest</option>
-          <option value="llama2:latest">llama2:latest</option>
+        <select id="modelSelect" title="Models installed on the server">
+          <option value="">Loading models...</option>
+        </select>
+        <button id="refreshModelsButton" class="secondary icon" title="Reload the model list from the server">↻</button>
+      </div>
+
+      <!-- What happens to the answer -->
+      <div class="row">
+        <select id="intentSelect" title="What to do with the answer. Auto lets the model decide and logs why.">
+          <option value="auto">Output: Auto</option>
+          <option value="code">Output: Insert Code</option>
+          <option value="action">Output: File Action</option>
+          <option value="chat">Output: Chat</option>
+        </select>
+      </div>
+
+      <!-- Chat session selection -->
+      <div class="row">
+        <select id="sessionSelect" title="Chat session">
+          <option value="">New chat</option>
         </select>
+        <button id="newSessionButton" class="secondary icon" title="Start a new chat session">+</button>
+        <button id="renameSessionButton" class="secondary icon" title="Rename this chat session">✎</button>
+        <button id="deleteSessionButton" class="secondary icon" title="Delete this chat session">✕</button>
       </div>
 
       <!-- Input row with text box and apply button -->
@@ -566,20 +2057,53 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
         <input id="promptInput" type="text" placeholder="Type your prompt (e.g., 'create a function to add two numbers')..." />
         <button id="applyEditorButton">Apply to Editor</button>
         <button id="previewButton" class="secondary">Apply (Show Raw)</button>
+        <button id="commentButton" class="secondary" title="Ask for an explanation and insert it as a comment above the cursor">Insert as Comment</button>
+        <button id="stopButton" class="danger" hidden>Stop</button>
       </div>
 
+      <!-- Slash commands matching what is typed -->
+      <ul id="slashSuggestions" class="slash-suggestions" hidden></ul>
+
+      <!-- How much editor context will be sent -->
+      <div class="context-info" id="contextInfo" title="">No editor context</div>
+
+      <!-- Project instructions sent with every prompt (click to open them) -->
+      <div class="context-info instructions-info" id="instructionsInfo" hidden></div>
+
       <!-- Status message -->
       <div class="status-message" id="statusMessage"></div>
 
-      <!-- Latest response display -->
+      <!-- Conversation of the open chat session -->
+      <div class="chat-transcript" id="chatTranscript"></div>
+
+      <!-- Reply while it is being generated -->
       <div class="response-container" id="responseContainer" hidden>
-        <div class="response-header">Latest Response</div>
+        <div class="response-header">Reply</div>
         <pre id="responseContent" class="response-content"></pre>
       </div>
 
+      <!-- Multi-step plan review -->
+      <div class="plan-container" id="planContainer" hidden>
+        <div class="response-header">Plan</div>
+        <ul id="planSteps" class="plan-steps"></ul>
+        <div class="row">
+          <button id="runPlanButton">Run plan</button>
+          <button id="discardPlanButton" class="secondary">Discard</button>
+        </div>
+      </div>
+
+      <!-- Changes made by the copilot -->
+      <details class="history" id="historySection">
+        <summary id="historySummary">History (0)</summary>
+        <ul id="historyList" class="history-list"></ul>
+      </details>
+
       <!-- Help text -->
       <div class="help-text">
         Choose an AI model and describe what you want. Generated code will be inserted at your cursor position(s).
+        Follow-up prompts continue the selected chat session.
+        Mention @file, @file:path/to/file, @selection or @workspace to attach more context.
+        Type / to run a prompt template from .jarnox/prompts.
       </div>
       
       <!-- Activity log -->
@@ -592,16 +2116,39 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
     // Get references to UI elements
     const promptInput = document.getElementById('promptInput');
     const modelSelect = document.getElementById('modelSelect');
+    const intentSelect = document.getElementById('intentSelect');
+    const profileSelect = document.getElementById('profileSelect');
     const applyEditorButton = document.getElementById('applyEditorButton');
     const previewButton = document.getElementById('previewButton');
+    const commentButton = document.getElementById('commentButton');
+    const stopButton = document.getElementById('stopButton');
+    const refreshModelsButton = document.getElementById('refreshModelsButton');
     const statusMessage = document.getElementById('statusMessage');
     const responseContainer = document.getElementById('responseContainer');
     const responseContent = document.getElementById('responseContent');
     const activityLog = document.getElementById('activityLog');
+    const planContainer = document.getElementById('planContainer');
+    const planSteps = document.getElementById('planSteps');
+    const runPlanButton = document.getElementById('runPlanButton');
+    const discardPlanButton = document.getElementById('discardPlanButton');
+    const historySummary = document.getElementById('historySummary');
+    const historyList = document.getElementById('historyList');
+    const contextInfo = document.getElementById('contextInfo');
+    const sessionSelect = document.getElementById('sessionSelect');
+    const newSessionButton = document.getElementById('newSessionButton');
+    const renameSessionButton = document.getElementById('renameSessionButton');
+    const deleteSessionButton = document.getElementById('deleteSessionButton');
+    const chatTranscript = document.getElementById('chatTranscript');
+    const slashSuggestions = document.getElementById('slashSuggestions');
+    const instructionsInfo = document.getElementById('instructionsInfo');
     
     // VS Code API for communicating with the extension
     const vscode = acquireVsCodeApi();
     let lastResponse = '';
+    let currentPlanId = undefined;
+    let contextPreviewTimer = undefined;
+    let promptTemplates = [];
+    let activeSuggestion = 0;
     
     /**
      * STATUS UPDATER
@@ -633,7 +2180,7 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
         return;
       }
 
-      const requestType = target === 'preview' ? 'preview' : 'apply';
+      const requestType = target === 'preview' || target === 'comment' ? target : 'apply';
 
       // Reset previous response display
       lastResponse = '';
@@ -651,21 +2198,357 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
       vscode.postMessage({
         type: requestType,
         text: promptText,
-        model: selectedModel
+        model: selectedModel,
+        intent: intentSelect.value
       });
       
       // Clear input and show feedback
       promptInput.value = '';
+      updateSlashSuggestions();
+      requestContextPreview();
       const truncatedPrompt = promptText.substring(0, 40) + '...';
       if (requestType === 'preview') {
         logActivity('Preview requested: ' + truncatedPrompt);
         updateStatus('Generating preview with ' + selectedModel + '...');
+      } else if (requestType === 'comment') {
+        logActivity('Comment requested: ' + truncatedPrompt);
+        updateStatus('Processing with ' + selectedModel + '...');
       } else {
         logActivity('Apply requested: ' + truncatedPrompt);
         updateStatus('Processing with ' + selectedModel + '...');
       }
     }
     
+    /**
+     * BUSY STATE TOGGLE
+     * =================
+     * 
+     * Shows the Stop button while a generation is running.
+     * 
+     * @param {boolean} busy - Whether a generation is in progress
+     */
+    function setBusy(busy) {
+      stopButton.hidden = !busy;
+    }
+    
+    /**
+     * CONFIGURATION RENDERER
+     * ======================
+     * 
+     * Fills the profile dropdown and selects the active profile.
+     * 
+     * @param {object} message - 'config' message from the extension
+     */
+    function renderConfiguration(message) {
+      const profiles = Array.isArray(message.profiles) ? message.profiles : [];
+      profileSelect.innerHTML = '';
+      
+      const baseOption = document.createElement('option');
+      baseOption.value = '';
+      baseOption.textContent = 'Default settings';
+      profileSelect.appendChild(baseOption);
+      
+      for (const profile of profiles) {
+        const option = document.createElement('option');
+        option.value = profile;
+        option.textContent = 'Profile: ' + profile;
+        profileSelect.appendChild(option);
+      }
+      profileSelect.value = profiles.includes(message.activeProfile) ? message.activeProfile : '';
+      if (typeof message.outputIntent === 'string') {
+        intentSelect.value = message.outputIntent;
+      }
+    }
+    
+    /**
+     * MODEL LIST RENDERER
+     * ===================
+     * 
+     * Fills the model dropdown with the models installed on the server.
+     * 
+     * @param {object} message - 'models' message from the extension
+     */
+    function renderModels(message) {
+      const models = Array.isArray(message.models) ? message.models : [];
+      modelSelect.innerHTML = '';
+      
+      for (const model of models) {
+        const option = document.createElement('option');
+        option.value = model.name;
+        option.textContent = model.label || model.name;
+        if (model.missing) {
+          option.className = 'missing';
+        }
+        modelSelect.appendChild(option);
+      }
+      
+      if (message.selected) {
+        modelSelect.value = message.selected;
+      }
+      refreshModelsButton.disabled = false;
+      
+      if (message.error) {
+        updateStatus('Could not load models: ' + message.error);
+      } else if (message.defaultMissing) {
+        updateStatus('Default model ' + message.defaultModel + ' is not installed on the server.');
+      } else {
+        updateStatus(models.length + ' models available.');
+      }
+    }
+    
+    /**
+     * PLAN RENDERER
+     * =============
+     * 
+     * Lists the steps of a multi-step plan, each with a checkbox
+     * (ticked by default) and a status label.
+     * 
+     * @param {object} message - 'plan' message from the extension
+     */
+    function renderPlan(message) {
+      const steps = Array.isArray(message.steps) ? message.steps : [];
+      currentPlanId = message.planId;
+      planSteps.innerHTML = '';
+      
+      for (const step of steps) {
+        const item = document.createElement('li');
+        item.className = 'plan-step';
+        item.dataset.index = String(step.index);
+        
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = true;
+        checkbox.id = 'planStep' + step.index;
+        checkbox.value = String(step.index);
+        
+        const label = document.createElement('label');
+        label.htmlFor = checkbox.id;
+        label.textContent = (step.index + 1) + '. ' + step.label;
+        label.title = step.preview || '';
+        
+        const status = document.createElement('span');
+        status.className = 'step-status';
+        
+        item.appendChild(checkbox);
+        item.appendChild(label);
+        item.appendChild(status);
+        planSteps.appendChild(item);
+      }
+      
+      runPlanButton.disabled = false;
+      discardPlanButton.disabled = false;
+      planContainer.hidden = false;
+    }
+    
+    /**
+     * PLAN STEP STATUS UPDATER
+     * ========================
+     * 
+     * Shows the status of one step while the plan runs.
+     * 
+     * @param {number} index - Step index in the plan
+     * @param {string} status - running, applied, skipped, failed or rolledBack
+     */
+    function updatePlanStep(index, status) {
+      const item = planSteps.querySelector('li[data-index="' + index + '"]');
+      if (!item) {
+        return;
+      }
+      const labels = {
+        running: 'running...',
+        applied: 'applied',
+        skipped: 'skipped',
+        failed: 'failed',
+        rolledBack: 'rolled back'
+      };
+      item.className = 'plan-step ' + status;
+      item.querySelector('.step-status').textContent = labels[status] || status;
+    }
+    
+    /**
+     * CONTEXT PREVIEW REQUESTER
+     * =========================
+     * 
+     * Asks the extension how much context the current prompt would send.
+     * Waits for a pause in typing so every keystroke does not trigger it.
+     */
+    function requestContextPreview() {
+      clearTimeout(contextPreviewTimer);
+      contextPreviewTimer = setTimeout(() => {
+        vscode.postMessage({ type: 'contextPreview', text: promptInput.value });
+      }, 300);
+    }
+    
+    /**
+     * SLASH SUGGESTION UPDATER
+     * ========================
+     * 
+     * Lists the prompt templates whose name starts with what is typed
+     * after the /. The list closes once a space follows the command.
+     */
+    function updateSlashSuggestions() {
+      const match = /^\\/([\\w-]*)$/.exec(promptInput.value);
+      const matches = match
+        ? promptTemplates.filter((template) => template.name.startsWith(match[1].toLowerCase()))
+        : [];
+      
+      slashSuggestions.innerHTML = '';
+      slashSuggestions.hidden = matches.length === 0;
+      activeSuggestion = Math.min(activeSuggestion, Math.max(matches.length - 1, 0));
+      matches.forEach((template, index) => {
+        const item = document.createElement('li');
+        item.dataset.name = template.name;
+        item.className = index === activeSuggestion ? 'active' : '';
+        item.title = 'Output: ' + template.output;
+        
+        const name = document.createElement('span');
+        name.textContent = '/' + template.name;
+        const description = document.createElement('span');
+        description.className = 'suggestion-description';
+        description.textContent = template.description || '';
+        item.append(name, description);
+        
+        item.addEventListener('mousedown', (event) => {
+          event.preventDefault();
+          chooseSlashSuggestion(template.name);
+        });
+        slashSuggestions.appendChild(item);
+      });
+    }
+    
+    /**
+     * SLASH SUGGESTION CHOOSER
+     * ========================
+     * 
+     * @param {string} name - Template to put into the prompt box
+     */
+    function chooseSlashSuggestion(name) {
+      promptInput.value = '/' + name + ' ';
+      activeSuggestion = 0;
+      updateSlashSuggestions();
+      requestContextPreview();
+      promptInput.focus();
+    }
+    
+    /**
+     * CONTEXT INFO RENDERER
+     * =====================
+     * 
+     * @param {object} message - 'contextInfo' message from the extension
+     */
+    function renderContextInfo(message) {
+      const sections = Array.isArray(message.sections) ? message.sections : [];
+      if (sections.length === 0) {
+        contextInfo.textContent = 'No editor context';
+        contextInfo.title = '';
+        return;
+      }
+      contextInfo.textContent = 'Context: ~' + message.tokens + ' tokens (' + sections.length + ' part' + (sections.length === 1 ? '' : 's') + ')';
+      contextInfo.title = sections.join('\\n');
+    }
+    
+    /**
+     * PROJECT INSTRUCTIONS RENDERER
+     * =============================
+     * 
+     * @param {object} message - 'projectInstructions' message from the extension
+     */
+    function renderProjectInstructions(message) {
+      const files = Array.isArray(message.files) ? message.files : [];
+      instructionsInfo.hidden = files.length === 0;
+      instructionsInfo.classList.toggle('truncated', Boolean(message.truncated));
+      instructionsInfo.textContent = 'Project instructions: ~' + message.tokens + ' tokens' +
+        (message.truncated ? ' (cut off, over the budget)' : '');
+      instructionsInfo.title = 'Sent with every prompt:\\n' + files.join('\\n') + '\\nClick to open.';
+    }
+    
+    /**
+     * HISTORY RENDERER
+     * ================
+     * 
+     * Lists the copilot's changes, newest first, with a Revert button
+     * for each one that has not been reverted yet.
+     * 
+     * @param {object} message - 'history' message from the extension
+     */
+    function renderHistory(message) {
+      const entries = Array.isArray(message.entries) ? message.entries : [];
+      historySummary.textContent = 'History (' + entries.length + ')';
+      historyList.innerHTML = '';
+      
+      for (const entry of entries) {
+        const item = document.createElement('li');
+        item.className = 'history-entry' + (entry.reverted ? ' reverted' : '');
+        
+        const label = document.createElement('span');
+        label.className = 'history-label';
+        label.textContent = entry.label;
+        label.title = entry.time;
+        item.appendChild(label);
+        
+        if (!entry.reverted) {
+          const revertButton = document.createElement('button');
+          revertButton.className = 'secondary';
+          revertButton.textContent = 'Revert';
+          revertButton.addEventListener('click', () => {
+            vscode.postMessage({ type: 'revertEntry', id: entry.id });
+            logActivity('Revert requested: ' + entry.label);
+          });
+          item.appendChild(revertButton);
+        }
+        historyList.appendChild(item);
+      }
+    }
+    
+    /**
+     * SESSIONS RENDERER
+     * =================
+     * 
+     * Fills the session dropdown and shows the conversation of the open
+     * session, one bubble per message.
+     * 
+     * @param {object} message - 'sessions' message from the extension
+     */
+    function renderSessions(message) {
+      const sessions = Array.isArray(message.sessions) ? message.sessions : [];
+      const messages = Array.isArray(message.messages) ? message.messages : [];
+      sessionSelect.innerHTML = '';
+      
+      if (!message.activeId) {
+        const option = document.createElement('option');
+        option.value = '';
+        option.textContent = 'New chat';
+        sessionSelect.appendChild(option);
+      }
+      for (const session of sessions) {
+        const option = document.createElement('option');
+        option.value = session.id;
+        option.textContent = session.title;
+        sessionSelect.appendChild(option);
+      }
+      sessionSelect.value = message.activeId || '';
+      renameSessionButton.disabled = !message.activeId;
+      deleteSessionButton.disabled = !message.activeId;
+      
+      chatTranscript.innerHTML = '';
+      for (const chatMessage of messages) {
+        const bubble = document.createElement('div');
+        bubble.className = 'chat-message ' + chatMessage.role;
+        
+        const role = document.createElement('div');
+        role.className = 'chat-role';
+        role.textContent = chatMessage.role === 'user' ? 'You' : 'Assistant';
+        
+        const content = document.createElement('pre');
+        content.textContent = chatMessage.content;
+        
+        bubble.appendChild(role);
+        bubble.appendChild(content);
+        chatTranscript.appendChild(bubble);
+      }
+      chatTranscript.scrollTop = chatTranscript.scrollHeight;
+    }
+    
     /**
      * ACTIVITY LOGGER
      * ===============
@@ -693,8 +2576,108 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
       previewButton.addEventListener('click', () => submitPrompt('preview'));
     }
     
-    // Enter key in text input
+    // Insert the answer as a comment
+    commentButton.addEventListener('click', () => submitPrompt('comment'));
+    
+    // Run the ticked plan steps
+    runPlanButton.addEventListener('click', () => {
+      const enabledSteps = Array.from(planSteps.querySelectorAll('input[type="checkbox"]'))
+        .filter((checkbox) => checkbox.checked)
+        .map((checkbox) => Number(checkbox.value));
+      
+      planSteps.querySelectorAll('input[type="checkbox"]').forEach((checkbox) => {
+        checkbox.disabled = true;
+      });
+      runPlanButton.disabled = true;
+      discardPlanButton.disabled = true;
+      
+      vscode.postMessage({ type: 'runPlan', planId: currentPlanId, enabledSteps });
+      logActivity('Running plan: ' + enabledSteps.length + ' step(s)');
+      updateStatus('Running plan...');
+    });
+    
+    // Throw the plan away without running it
+    discardPlanButton.addEventListener('click', () => {
+      vscode.postMessage({ type: 'discardPlan', planId: currentPlanId });
+    });
+    
+    // Switch to another chat session
+    sessionSelect.addEventListener('change', () => {
+      if (sessionSelect.value) {
+        vscode.postMessage({ type: 'selectSession', id: sessionSelect.value });
+      }
+    });
+    
+    // Start, rename or delete a chat session
+    newSessionButton.addEventListener('click', () => {
+      vscode.postMessage({ type: 'newSession' });
+      logActivity('New chat session started');
+    });
+    
+    renameSessionButton.addEventListener('click', () => {
+      vscode.postMessage({ type: 'renameSession', id: sessionSelect.value });
+    });
+    
+    deleteSessionButton.addEventListener('click', () => {
+      vscode.postMessage({ type: 'deleteSession', id: sessionSelect.value });
+    });
+    
+    // Reload the model list from the server
+    refreshModelsButton.addEventListener('click', () => {
+      vscode.postMessage({ type: 'refreshModels' });
+    });
+    
+    // Stop the running generation
+    stopButton.addEventListener('click', () => {
+      vscode.postMessage({ type: 'stop' });
+      updateStatus('Stopping...');
+    });
+    
+    // Profile switch
+    intentSelect.addEventListener('change', () => {
+      vscode.postMessage({ type: 'selectIntent', intent: intentSelect.value });
+      logActivity('Output mode: ' + intentSelect.options[intentSelect.selectedIndex].text.replace('Output: ', ''));
+    });
+    
+    profileSelect.addEventListener('change', () => {
+      vscode.postMessage({ type: 'selectProfile', profile: profileSelect.value });
+      logActivity('Profile selected: ' + (profileSelect.value || 'default settings'));
+    });
+    
+    // Refresh the context estimate as the prompt (and its @mentions) change
+    promptInput.addEventListener('input', requestContextPreview);
+    promptInput.addEventListener('input', () => {
+      activeSuggestion = 0;
+      updateSlashSuggestions();
+    });
+    instructionsInfo.addEventListener('click', () => {
+      vscode.postMessage({ type: 'openInstructions' });
+    });
+    promptInput.addEventListener('blur', () => {
+      slashSuggestions.hidden = true;
+    });
+    
+    // Enter key in text input (arrows, Tab and Enter pick a slash command
+    // while the suggestions are open)
     promptInput.addEventListener('keydown', (event) => {
+      const suggestions = slashSuggestions.hidden ? [] : slashSuggestions.querySelectorAll('li');
+      if (suggestions.length > 0) {
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+          event.preventDefault();
+          activeSuggestion = (activeSuggestion + (event.key === 'ArrowDown' ? 1 : -1) + suggestions.length) % suggestions.length;
+          updateSlashSuggestions();
+          return;
+        }
+        if (event.key === 'Tab' || event.key === 'Enter') {
+          event.preventDefault();
+          chooseSlashSuggestion(suggestions[activeSuggestion].dataset.name);
+          return;
+        }
+        if (event.key === 'Escape') {
+          slashSuggestions.hidden = true;
+          return;
+        }
+      }
       if (event.key === 'Enter' && !event.shiftKey) {
         event.preventDefault();
         submitPrompt('apply');
@@ -705,56 +2688,109 @@ export class CopilotWebviewProvider implements vscode.WebviewViewProvider {
     window.addEventListener('message', (event) => {
       const message = event.data;
       
-      if (message.type === 'applied') {
+      if (message.type === 'config') {
+        renderConfiguration(message);
+      } else if (message.type === 'modelsLoading') {
+        refreshModelsButton.disabled = true;
+        updateStatus('Loading models from ' + message.baseUrl + '...');
+      } else if (message.type === 'models') {
+        renderModels(message);
+      } else if (message.type === 'streamStart') {
+        // Show tokens in the response area while they arrive
+        lastResponse = '';
+        if (responseContainer && responseContent) {
+          responseContainer.hidden = false;
+          responseContent.textContent = '';
+        }
+        updateStatus('Receiving response...');
+        setBusy(true);
+      } else if (message.type === 'cancelled') {
+        setBusy(false);
+        logActivity('Generation stopped');
+        updateStatus('Stopped. Nothing was applied.');
+      } else if (message.type === 'failed') {
+        setBusy(false);
+        logActivity('Failed: ' + (message.text || 'unknown error'));
+        updateStatus('Generation failed');
+      } else if (message.type === 'streamChunk') {
+        if (typeof message.text === 'string' && responseContent) {
+          lastResponse += message.text;
+          responseContent.textContent = lastResponse;
+          responseContent.scrollTop = responseContent.scrollHeight;
+        }
+      } else if (message.type === 'applied') {
+        setBusy(false);
         const appliedSummary = typeof message.text === 'string' && message.text.trim()
           ? message.text
           : 'Response applied';
         logActivity('Applied: ' + appliedSummary);
         updateStatus('Completed successfully');
         
+        // The reply is now part of the chat transcript
+        lastResponse = typeof message.rawResponse === 'string' ? message.rawResponse : '';
+        if (responseContainer) {
+          responseContainer.hidden = true;
+        }
+      } else if (message.type === 'route') {
+        logActivity('Route: ' + message.label + ' (' + message.reason + ')');
+      } else if (message.type === 'sources') {
+        logActivity('Workspace code sent: ' + (message.sources || []).join(', '));
+      } else if (message.type === 'sessions') {
+        renderSessions(message);
+      } else if (message.type === 'contextInfo') {
+        renderContextInfo(message);
+      } else if (message.type === 'projectInstructions') {
+        renderProjectInstructions(message);
+      } else if (message.type === 'promptTemplates') {
+        promptTemplates = Array.isArray(message.templates) ? message.templates : [];
+        updateSlashSuggestions();
+      } else if (message.type === 'history') {
+        renderHistory(message);
+      } else if (message.type === 'plan') {
+        setBusy(false);
         if (typeof message.rawResponse === 'string') {
           lastResponse = message.rawResponse;
-          if (responseContainer && !responseContainer.hidden && responseContent) {
-            responseContent.textContent = lastResponse;
-          }
-        } else {
-          lastResponse = '';
-          if (responseContainer) {
-            responseContainer.hidden = true;
-          }
-          if (responseContent) {
-            responseContent.textContent = '';
-          }
         }
+        if (responseContainer) {
+          responseContainer.hidden = true;
+        }
+        renderPlan(message);
+        logActivity('Plan received: ' + (message.steps || []).length + ' steps');
+        updateStatus('Review the plan, untick any steps you do not want, then press Run plan.');
+      } else if (message.type === 'planStatus') {
+        if (message.planId === currentPlanId) {
+          updatePlanStep(message.index, message.status);
+        }
+      } else if (message.type === 'planFinished') {
+        if (message.planId === currentPlanId && message.discarded) {
+          planContainer.hidden = true;
+        }
+        runPlanButton.disabled = true;
+        discardPlanButton.disabled = true;
+        logActivity(message.text || 'Plan finished');
+        updateStatus(message.succeeded ? 'Plan finished' : 'Plan failed and was rolled back');
       } else if (message.type === 'preview') {
+        setBusy(false);
         const previewSummary = typeof message.text === 'string' && message.text.trim()
           ? message.text
           : 'Raw response ready';
         logActivity('Preview ready: ' + previewSummary);
         updateStatus('Preview ready');
         
-        if (typeof message.rawResponse === 'string') {
-          lastResponse = message.rawResponse;
-          if (responseContainer) {
-            responseContainer.hidden = false;
-          }
-          if (responseContent) {
-            responseContent.textContent = lastResponse;
-          }
-        } else {
-          lastResponse = '';
-          if (responseContainer) {
-            responseContainer.hidden = false;
-          }
-          if (responseContent) {
-            responseContent.textContent = 'No preview available.';
-          }
+        // The raw reply is shown in full as the last message of the chat transcript
+        lastResponse = typeof message.rawResponse === 'string' ? message.rawResponse : '';
+        if (responseContainer) {
+          responseContainer.hidden = true;
         }
       }
     });
     
     updateStatus('Ready for your prompt.');
     
+    // Ask the extension for the current profiles and default model
+    vscode.postMessage({ type: 'ready' });
+    requestContextPreview();
+    
     // Set initial focus to text input
     promptInput.focus();
   </script>
@@ -0,0 +1,188 @@
+/**
+ * BM25 SEARCH INDEX
+ * =================
+ *
+ * A small in-memory full-text index, ranked with BM25 (the scoring used
+ * by most search engines): documents score higher when they contain the
+ * query's rarer words, and more often, relative to their length.
+ *
+ * Code is tokenized so identifiers are found by their parts as well:
+ * `parseUserId` is indexed as `parseuserid`, `parse`, `user` and `id`.
+ *
+ * Documents can be added and removed at any time, so the index can follow
+ * file changes without being rebuilt.
+ */
+
+/** Words too common to help a search */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'where', 'which', 'with'
+]);
+
+/**
+ * SEARCH TOKENIZER
+ * ================
+ *
+ * @param text - Code or a question
+ * @returns Lower-case search terms: every identifier, plus the parts of
+ *   camelCase and snake_case identifiers
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_][A-Za-z0-9_]*|[0-9]+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .map((part) => part.toLowerCase())
+      .filter(Boolean);
+    const whole = word.toLowerCase().replace(/^_+|_+$/g, '');
+
+    for (const term of parts.length > 1 ? [whole, ...parts] : [whole]) {
+      if (term.length > 1 && !STOP_WORDS.has(term)) {
+        terms.push(term);
+      }
+    }
+  }
+  return terms;
+}
+
+/**
+ * INDEXED DOCUMENT
+ * ================
+ */
+interface IndexedDocument {
+  /** Number of terms in the document */
+  length: number;
+
+  /** How often each term occurs */
+  termCounts: Map<string, number>;
+}
+
+/**
+ * SEARCH HIT
+ * ==========
+ */
+export interface SearchHit {
+  /** Id the document was added with */
+  id: string;
+
+  /** BM25 score (higher is better; only comparable within one search) */
+  score: number;
+}
+
+/**
+ * BM25 INDEX CLASS
+ * ================
+ */
+export class Bm25Index {
+
+  /** Indexed documents by id */
+  private readonly documents = new Map<string, IndexedDocument>();
+
+  /** For every term, the documents containing it */
+  private readonly postings = new Map<string, Set<string>>();
+
+  /** Sum of all document lengths, for the average length */
+  private totalLength = 0;
+
+  /**
+   * @param k1 - How quickly repeated terms stop adding to the score
+   * @param b - How strongly long documents are penalized (0 = not at all)
+   */
+  constructor(private readonly k1 = 1.2, private readonly b = 0.75) {}
+
+  /** Number of indexed documents */
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * DOCUMENT ADDER
+   * ==============
+   *
+   * Adds a document, replacing any earlier document with the same id.
+   *
+   * @param id - Unique id of the document
+   * @param text - Text to index
+   */
+  public add(id: string, text: string): void {
+    this.remove(id);
+
+    const termCounts = new Map<string, number>();
+    const terms = tokenizeForSearch(text);
+    for (const term of terms) {
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    }
+    for (const term of termCounts.keys()) {
+      let documents = this.postings.get(term);
+      if (!documents) {
+        documents = new Set();
+        this.postings.set(term, documents);
+      }
+      documents.add(id);
+    }
+
+    this.documents.set(id, { length: terms.length, termCounts });
+    this.totalLength += terms.length;
+  }
+
+  /**
+   * DOCUMENT REMOVER
+   * ================
+   *
+   * @param id - Document to remove (unknown ids are ignored)
+   */
+  public remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+    for (const term of document.termCounts.keys()) {
+      const documents = this.postings.get(term);
+      documents?.delete(id);
+      if (documents?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * SEARCHER
+   * ========
+   *
+   * @param query - Question or keywords
+   * @param limit - Most hits to return
+   * @returns The best matching documents, best first (only documents
+   *   sharing at least one term with the query)
+   */
+  public search(query: string, limit: number): SearchHit[] {
+    const documentCount = this.documents.size;
+    if (documentCount === 0 || limit <= 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenizeForSearch(query))) {
+      const documents = this.postings.get(term);
+      if (!documents) {
+        continue;
+      }
+      const idf = Math.log(1 + (documentCount - documents.size + 0.5) / (documents.size + 0.5));
+      for (const id of documents) {
+        const document = this.documents.get(id)!;
+        const count = document.termCounts.get(term)!;
+        const normalization = this.k1 * (1 - this.b + this.b * (document.length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * ((count * (this.k1 + 1)) / (count + normalization)));
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+}
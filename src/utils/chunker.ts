@@ -0,0 +1,101 @@
+/**
+ * TEXT CHUNKER
+ * ============
+ *
+ * Splits files into overlapping pieces of a few dozen lines for the
+ * retrieval index. Small pieces let a search return just the function
+ * that matters instead of a whole file.
+ *
+ * A chunk prefers to end at a blank line (between functions or
+ * paragraphs) when there is one near its end, and the next chunk starts
+ * a few lines earlier, so code cut at a boundary still appears whole in
+ * one of the two.
+ */
+
+/**
+ * TEXT CHUNK
+ * ==========
+ */
+export interface TextChunk {
+  /** Workspace-relative path of the file */
+  path: string;
+
+  /** First line of the chunk (1-based) */
+  startLine: number;
+
+  /** Last line of the chunk (1-based, inclusive) */
+  endLine: number;
+
+  /** The lines of the chunk */
+  text: string;
+}
+
+/**
+ * CHUNK OPTIONS
+ * =============
+ */
+export interface ChunkOptions {
+  /** Most lines per chunk */
+  maxLines: number;
+
+  /** Lines repeated at the start of the next chunk */
+  overlap: number;
+
+  /** Longest line kept (longer lines, like minified code, are cut) */
+  maxLineLength: number;
+}
+
+/** Defaults used by the workspace index */
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxLines: 40,
+  overlap: 8,
+  maxLineLength: 300
+};
+
+/**
+ * FILE CHUNKER
+ * ============
+ *
+ * @param path - Workspace-relative path of the file
+ * @param text - Contents of the file
+ * @param options - Chunk size settings
+ * @returns The chunks, top to bottom (chunks with only blank lines are left out)
+ */
+export function chunkText(path: string, text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): TextChunk[] {
+  const lines = text.split(/\r?\n/).map((line) =>
+    line.length > options.maxLineLength ? line.slice(0, options.maxLineLength) + '…' : line
+  );
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const maxLines = Math.max(1, options.maxLines);
+  const overlap = Math.min(Math.max(0, options.overlap), maxLines - 1);
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = Math.min(start + maxLines, lines.length);
+
+    // End at a blank line in the last third of the chunk, if there is one
+    if (end < lines.length) {
+      for (let candidate = end - 1; candidate > start + Math.floor((maxLines * 2) / 3); candidate--) {
+        if (!lines[candidate].trim()) {
+          end = candidate;
+          break;
+        }
+      }
+    }
+
+    const chunkLines = lines.slice(start, end);
+    if (chunkLines.some((line) => line.trim())) {
+      chunks.push({ path, startLine: start + 1, endLine: end, text: chunkLines.join('\n') });
+    }
+    if (end >= lines.length) {
+      break;
+    }
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,54 @@
+/**
+ * CONCURRENCY UTILITIES
+ * =====================
+ *
+ * Runs many asynchronous jobs with only a few in flight at a time.
+ *
+ * Model servers handle a handful of parallel requests well, but fifty at
+ * once make every request slow (or make a local server run out of
+ * memory). The runner here starts a new job only when an earlier one has
+ * finished.
+ *
+ * Everything here works on plain promises, so it can be tested without
+ * VS Code.
+ */
+
+/**
+ * BOUNDED CONCURRENCY RUNNER
+ * ==========================
+ *
+ * Calls `worker` for every item, with at most `limit` calls running at the
+ * same time. A failing call does not stop the others.
+ *
+ * @param items - Items to process
+ * @param limit - Most calls running at once (at least 1)
+ * @param worker - Processes one item
+ * @param onSettled - Called each time a call finishes, with the number done so far
+ * @returns One result per item, in the order of `items`
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onSettled?: (done: number, total: number) => void
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+  let done = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      onSettled?.(++done, items.length);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: lanes }, runNext));
+  return results;
+}
@@ -0,0 +1,79 @@
+/**
+ * FOLDER PATHS
+ * ============
+ *
+ * Helpers for multi-root workspaces, where a path from the model has to
+ * say which workspace folder it belongs to. The model names the folder in
+ * one of two ways:
+ * - a prefix on the path: `"path": "api:src/index.ts"`
+ * - a field on the action: `"workspace": "api", "path": "src/index.ts"`
+ *
+ * The prefix wins when both are given. Paths like `C:\...` or `C:/...`
+ * are not read as a folder prefix, so the path policy can refuse them as
+ * absolute paths.
+ */
+
+/** `name:rest`, where the name has no slashes and the rest does not start with one */
+const FOLDER_PREFIX_PATTERN = /^([^/\\:]+):(?![/\\])([\s\S]*)$/;
+
+/**
+ * FOLDER PATH
+ * ===========
+ */
+export interface FolderPath {
+  /** Folder named by a prefix on the path (as written) */
+  folder?: string;
+
+  /** The path without the prefix */
+  path: string;
+}
+
+/**
+ * FOLDER PREFIX SPLITTER
+ * ======================
+ *
+ * @param rawPath - Path as written by the model
+ * @returns The folder named by a `name:` prefix, if any, and the rest of the path
+ */
+export function splitFolderPrefix(rawPath: string): FolderPath {
+  const match = FOLDER_PREFIX_PATTERN.exec(rawPath.trim());
+  return match ? { folder: match[1].trim(), path: match[2] } : { path: rawPath };
+}
+
+/**
+ * FOLDER NAME MATCHER
+ * ===================
+ *
+ * @param requested - Folder name as written by the model
+ * @param folderNames - Names of the open workspace folders
+ * @returns The index of the folder with that name (matched exactly, or
+ *   ignoring case when only one folder matches that way), or -1
+ */
+export function findFolderIndex(requested: string, folderNames: readonly string[]): number {
+  const exact = folderNames.indexOf(requested);
+  if (exact !== -1) {
+    return exact;
+  }
+  const lower = requested.toLowerCase();
+  const matches = folderNames
+    .map((name, index) => (name.toLowerCase() === lower ? index : -1))
+    .filter((index) => index !== -1);
+  return matches.length === 1 ? matches[0] : -1;
+}
+
+/**
+ * FOLDER LIST DESCRIBER
+ * =====================
+ *
+ * @param folderNames - Names of the open workspace folders
+ * @returns Text telling the model which folders exist and how to name
+ *   them in file actions
+ */
+export function describeWorkspaceFolders(folderNames: readonly string[]): string {
+  const example = folderNames[0] ?? 'folder';
+  return [
+    ...folderNames.map((name) => `- ${name}`),
+    '',
+    `Several folders are open. File action paths are relative to one of them: start the path with the folder name and a colon ("${example}:src/index.ts") or add "workspace": "${example}" to the action.`
+  ].join('\n');
+}
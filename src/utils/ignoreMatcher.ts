@@ -0,0 +1,213 @@
+/**
+ * IGNORE MATCHER
+ * ==============
+ *
+ * Decides which workspace files are left out of the retrieval index,
+ * using the same rules as git:
+ * - `.gitignore` files (the root one and nested ones, each relative to
+ *   its own folder)
+ * - extra glob patterns from the settings, written like `.gitignore` lines
+ *
+ * Supported syntax: `#` comments, `!` negation, a leading `/` (anchored to
+ * the folder of the rule), a trailing `/` (directories only), `*`, `?`,
+ * `**` and `[abc]` character classes. Like git, a file inside an ignored
+ * directory cannot be included again with `!`.
+ */
+
+/**
+ * IGNORE RULE
+ * ===========
+ *
+ * One parsed pattern line.
+ */
+interface IgnoreRule {
+  /** The pattern matches paths relative to this folder ('' = root) */
+  base: string;
+
+  /** Compiled pattern, matched against the path relative to `base` */
+  regex: RegExp;
+
+  /** `!pattern`: include the path again */
+  negate: boolean;
+
+  /** `pattern/`: only matches directories */
+  directoryOnly: boolean;
+
+  /** The pattern as written, for messages */
+  pattern: string;
+}
+
+/**
+ * GLOB CONVERTER
+ * ==============
+ *
+ * Turns one gitignore-style glob into a regular expression for
+ * slash-separated relative paths.
+ *
+ * @param pattern - Glob without `!` or a trailing `/`
+ * @returns A regular expression matching the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+  // Patterns without a slash (other than at the end) match at any depth
+  const anchored = pattern.includes('/');
+  const glob = pattern.replace(/^\//, '');
+
+  let source = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*') {
+      if (glob[index + 1] === '*') {
+        const atStart = index === 0 || glob[index - 1] === '/';
+        const atEnd = index + 2 === glob.length || glob[index + 2] === '/';
+        if (atStart && atEnd) {
+          // `**/` matches any number of folders, including none
+          source += index + 2 === glob.length ? '.*' : '(?:.*/)?';
+          index += 2;
+          continue;
+        }
+        source += '[^/]*';
+        index++;
+        continue;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', index + 2);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      const body = glob.slice(index + 1, close).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? '^' + body.slice(1) : body}]`;
+      index = close;
+    } else if (char === '\\' && index + 1 < glob.length) {
+      source += escapeRegExp(glob[++index]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+}
+
+/**
+ * REGEX ESCAPER
+ * =============
+ *
+ * @param text - Literal text
+ * @returns The text with regular expression characters escaped
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * IGNORE MATCHER CLASS
+ * ====================
+ */
+export class IgnoreMatcher {
+
+  /** Rules in the order they apply; later rules win */
+  private rules: IgnoreRule[] = [];
+
+  /**
+   * RULE ADDER
+   * ==========
+   *
+   * Adds the patterns of one `.gitignore` file (or a list of globs).
+   * Add parent folders before their subfolders, as git reads them.
+   *
+   * @param patterns - Contents of a `.gitignore` file, or one pattern per entry
+   * @param base - Folder of the `.gitignore`, relative to the workspace folder ('' for the root)
+   */
+  public add(patterns: string | readonly string[], base = ''): void {
+    const lines = typeof patterns === 'string' ? patterns.split(/\r?\n/) : patterns;
+    const normalizedBase = base.replace(/^\/+|\/+$/g, '');
+
+    for (const rawLine of lines) {
+      let line = rawLine.replace(/(?<!\\)\s+$/, '');
+      const pattern = line;
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      const negate = line.startsWith('!');
+      if (negate) {
+        line = line.slice(1);
+      } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+        line = line.slice(1);
+      }
+
+      const directoryOnly = line.endsWith('/');
+      line = line.replace(/\/+$/, '');
+      if (!line) {
+        continue;
+      }
+
+      this.rules.push({ base: normalizedBase, regex: globToRegExp(line), negate, directoryOnly, pattern });
+    }
+  }
+
+  /**
+   * PATH CHECKER
+   * ============
+   *
+   * @param relativePath - Slash-separated path relative to the workspace folder
+   * @param isDirectory - Whether the path itself is a directory
+   * @returns true if the path is ignored
+   */
+  public ignores(relativePath: string, isDirectory = false): boolean {
+    return this.matchingRule(relativePath, isDirectory) !== undefined;
+  }
+
+  /**
+   * MATCHING RULE FINDER
+   * ====================
+   *
+   * @param relativePath - Slash-separated path relative to the workspace folder
+   * @param isDirectory - Whether the path itself is a directory
+   * @returns The pattern that ignores the path (as written), or undefined
+   *   if the path is not ignored
+   */
+  public matchingRule(relativePath: string, isDirectory = false): string | undefined {
+    const segments = relativePath.split('/').filter(Boolean);
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const candidate = segments.slice(0, depth).join('/');
+      const candidateIsDirectory = depth < segments.length || isDirectory;
+      const rule = this.matches(candidate, candidateIsDirectory);
+      if (rule) {
+        return rule.pattern;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * RULE EVALUATOR
+   * ==============
+   *
+   * @param path - Path to test (a parent folder of the checked path, or the path itself)
+   * @param isDirectory - Whether that path is a directory
+   * @returns The last matching rule if it ignores the path
+   */
+  private matches(path: string, isDirectory: boolean): IgnoreRule | undefined {
+    let ignored: IgnoreRule | undefined;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      let relative = path;
+      if (rule.base) {
+        if (!path.startsWith(rule.base + '/')) {
+          continue;
+        }
+        relative = path.slice(rule.base.length + 1);
+      }
+      if (rule.regex.test(relative)) {
+        ignored = rule.negate ? undefined : rule;
+      }
+    }
+    return ignored;
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * LANGUAGE SYNTAX UTILITIES
+ * =========================
+ *
+ * Knows how comments and strings are written in the common languages, and
+ * splits source text into code, string and comment pieces.
+ *
+ * Regular expressions cannot tell a comment from text that only looks like
+ * one: `"http://example.com"` is a string, `#include` is C code and
+ * `/\/\*+/` is a JavaScript regex. The scanner here reads the text from left
+ * to right and always knows whether it is inside a string, so it only
+ * reports real comments.
+ *
+ * Everything here works on plain strings, so it can be tested without
+ * VS Code.
+ */
+
+/**
+ * LANGUAGE SYNTAX
+ * ===============
+ *
+ * How one language writes comments and strings.
+ */
+export interface LanguageSyntax {
+  /** Markers that start a comment running to the end of the line */
+  line: string[];
+
+  /** Opening and closing markers of block comments */
+  block: Array<[string, string]>;
+
+  /** Characters that start and end a string */
+  quotes: string[];
+
+  /** Python-style triple-quoted strings (`"""` and `'''`) */
+  tripleQuotes?: boolean;
+
+  /** JavaScript-style regular expression literals (`/ab+c/g`) */
+  regexLiterals?: boolean;
+
+  /** Line comments must follow whitespace (shell `$#` and `${#x}` are code) */
+  lineCommentNeedsSpace?: boolean;
+
+  /** Marker of documentation line comments, like Rust's `///` */
+  docLine?: string;
+
+  /** Opening and closing markers of documentation block comments (Javadoc style) */
+  docBlock?: [string, string];
+}
+
+/**
+ * CODE SEGMENT
+ * ============
+ *
+ * A piece of source text. Joining the text of all segments gives back the
+ * original text.
+ */
+export interface CodeSegment {
+  kind: 'code' | 'string' | 'comment';
+  text: string;
+}
+
+const C_LIKE: LanguageSyntax = { line: ['//'], block: [['/*', '*/']], quotes: ['"', "'"], docBlock: ['/**', '*/'] };
+const TRIPLE_SLASH_DOCS: LanguageSyntax = { ...C_LIKE, docLine: '///' };
+const JS_LIKE: LanguageSyntax = { ...C_LIKE, quotes: ['"', "'", '`'], regexLiterals: true };
+const HASH: LanguageSyntax = { line: ['#'], block: [], quotes: ['"', "'"] };
+const SHELL: LanguageSyntax = { ...HASH, lineCommentNeedsSpace: true };
+const MARKUP: LanguageSyntax = { line: [], block: [['<!--', '-->']], quotes: [] };
+const CSS: LanguageSyntax = { line: [], block: [['/*', '*/']], quotes: ['"', "'"] };
+const SQL: LanguageSyntax = { line: ['--'], block: [['/*', '*/']], quotes: ["'", '"'] };
+const LISP: LanguageSyntax = { line: [';'], block: [], quotes: ['"'] };
+const PERCENT: LanguageSyntax = { line: ['%'], block: [], quotes: ['"'] };
+
+/** Syntax by VS Code language id */
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  javascript: JS_LIKE,
+  javascriptreact: JS_LIKE,
+  typescript: JS_LIKE,
+  typescriptreact: JS_LIKE,
+  jsonc: C_LIKE,
+  c: C_LIKE,
+  cpp: C_LIKE,
+  'cuda-cpp': C_LIKE,
+  'objective-c': C_LIKE,
+  'objective-cpp': C_LIKE,
+  java: C_LIKE,
+  kotlin: C_LIKE,
+  scala: C_LIKE,
+  groovy: C_LIKE,
+  csharp: TRIPLE_SLASH_DOCS,
+  swift: TRIPLE_SLASH_DOCS,
+  dart: TRIPLE_SLASH_DOCS,
+  go: { ...C_LIKE, quotes: ['"', "'", '`'], docBlock: undefined },
+  // Rust lifetimes ('a) look like unterminated character literals
+  rust: { ...TRIPLE_SLASH_DOCS, quotes: ['"'] },
+  fsharp: { ...C_LIKE, block: [['(*', '*)']], docBlock: undefined, docLine: '///' },
+  php: { ...C_LIKE, line: ['//', '#'] },
+  css: CSS,
+  scss: { ...CSS, line: ['//'] },
+  less: { ...CSS, line: ['//'] },
+  python: { ...HASH, tripleQuotes: true },
+  ruby: { ...HASH, block: [['=begin', '=end']] },
+  perl: HASH,
+  r: HASH,
+  elixir: HASH,
+  julia: { ...HASH, block: [['#=', '=#']] },
+  toml: HASH,
+  properties: HASH,
+  graphql: HASH,
+  dockerfile: HASH,
+  makefile: HASH,
+  coffeescript: { ...HASH, block: [['###', '###']] },
+  powershell: { ...HASH, block: [['<#', '#>']] },
+  terraform: { ...HASH, line: ['#', '//'], block: [['/*', '*/']] },
+  shellscript: SHELL,
+  yaml: SHELL,
+  ini: { line: [';', '#'], block: [], quotes: ['"'] },
+  sql: SQL,
+  lua: { line: ['--'], block: [['--[[', ']]']], quotes: ['"', "'"] },
+  haskell: { line: ['--'], block: [['{-', '-}']], quotes: ['"'], docLine: '-- |' },
+  ocaml: { line: [], block: [['(*', '*)']], quotes: ['"'], docBlock: ['(**', '*)'] },
+  clojure: LISP,
+  lisp: LISP,
+  scheme: LISP,
+  erlang: PERCENT,
+  latex: { ...PERCENT, quotes: [] },
+  tex: { ...PERCENT, quotes: [] },
+  matlab: { ...PERCENT, block: [['%{', '%}']], quotes: ["'", '"'] },
+  vb: { line: ["'"], block: [], quotes: ['"'] },
+  html: MARKUP,
+  xml: MARKUP,
+  xsl: MARKUP,
+  svg: MARKUP,
+  vue: MARKUP,
+  svelte: MARKUP,
+  markdown: MARKUP
+};
+
+/**
+ * SYNTAX LOOKUP
+ * =============
+ *
+ * @param languageId - VS Code language id, like 'typescript'
+ * @returns The language's syntax, or undefined if it is not known
+ */
+export function getLanguageSyntax(languageId: string | undefined): LanguageSyntax | undefined {
+  return languageId ? LANGUAGE_SYNTAX[languageId] : undefined;
+}
+
+/** Characters after which a `/` starts a regex rather than a division */
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^';
+
+/** Keywords after which a `/` starts a regex */
+const REGEX_KEYWORDS = /(?:^|[^\w$])(?:return|typeof|case|do|else|in|of|new|delete|void|throw|yield|await)$/;
+
+/**
+ * REGEX POSITION CHECK
+ * ====================
+ *
+ * @param recentCode - The code just before the `/` (strings replaced by a placeholder)
+ * @returns true if a regex literal may start here
+ */
+function regexAllowedAfter(recentCode: string): boolean {
+  const trimmed = recentCode.trimEnd();
+  return trimmed === ''
+    || REGEX_PRECEDERS.includes(trimmed[trimmed.length - 1])
+    || REGEX_KEYWORDS.test(trimmed);
+}
+
+/**
+ * STRING SCANNER
+ * ==============
+ *
+ * @param text - Source text
+ * @param start - Position of the opening quote
+ * @param quote - The quote (one character, or three for triple quotes)
+ * @returns Position just after the string. Single-line strings without a
+ *   closing quote end at the line break.
+ */
+function scanString(text: string, start: number, quote: string): number {
+  const multiline = quote.length === 3 || quote === '`';
+  let position = start + quote.length;
+  while (position < text.length) {
+    const char = text[position];
+    if (char === '\\') {
+      position += 2;
+    } else if (text.startsWith(quote, position)) {
+      return position + quote.length;
+    } else if (char === '\n' && !multiline) {
+      return position;
+    } else {
+      position++;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * REGEX LITERAL SCANNER
+ * =====================
+ *
+ * @param text - Source text
+ * @param start - Position of the opening `/`
+ * @returns Position just after the literal and its flags, or -1 if the
+ *   line ends first (then the `/` was a division after all)
+ */
+function scanRegexLiteral(text: string, start: number): number {
+  let inClass = false;
+  for (let position = start + 1; position < text.length; position++) {
+    const char = text[position];
+    if (char === '\n') {
+      return -1;
+    } else if (char === '\\') {
+      position++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      let end = position + 1;
+      while (end < text.length && /[a-z]/i.test(text[end])) {
+        end++;
+      }
+      return end;
+    }
+  }
+  return -1;
+}
+
+/**
+ * SOURCE TOKENIZER
+ * ================
+ *
+ * Splits text into code, string and comment segments. A shebang line at
+ * the very start (`#!/usr/bin/env node`) counts as code.
+ *
+ * @param text - Source text
+ * @param syntax - Syntax of the text's language
+ * @returns Segments in order; adjacent code is merged into one segment
+ */
+export function tokenizeSource(text: string, syntax: LanguageSyntax): CodeSegment[] {
+  const segments: CodeSegment[] = [];
+  let code = '';
+  let recentCode = '';
+  let position = 0;
+
+  const flushCode = () => {
+    if (code) {
+      segments.push({ kind: 'code', text: code });
+      code = '';
+    }
+  };
+  const pushSegment = (kind: 'string' | 'comment', end: number) => {
+    flushCode();
+    segments.push({ kind, text: text.slice(position, end) });
+    if (kind === 'string') {
+      recentCode = (recentCode + '""').slice(-20);
+    }
+    position = end;
+  };
+  const lineEnd = (from: number) => {
+    const newline = text.indexOf('\n', from);
+    const end = newline === -1 ? text.length : newline;
+    return text[end - 1] === '\r' ? end - 1 : end;
+  };
+
+  if (text.startsWith('#!')) {
+    code = text.slice(0, lineEnd(0));
+    position = code.length;
+  }
+
+  while (position < text.length) {
+    const block = syntax.block.find(([open]) => text.startsWith(open, position));
+    if (block) {
+      const close = text.indexOf(block[1], position + block[0].length);
+      pushSegment('comment', close === -1 ? text.length : close + block[1].length);
+      continue;
+    }
+
+    const lineMarker = syntax.line.find((marker) => text.startsWith(marker, position));
+    if (lineMarker && (!syntax.lineCommentNeedsSpace || position === 0 || /\s/.test(text[position - 1]))) {
+      pushSegment('comment', lineEnd(position));
+      continue;
+    }
+
+    const triple = syntax.tripleQuotes ? ['"""', "'''"].find((quote) => text.startsWith(quote, position)) : undefined;
+    const quote = triple ?? syntax.quotes.find((candidate) => text[position] === candidate);
+    if (quote) {
+      pushSegment('string', scanString(text, position, quote));
+      continue;
+    }
+
+    if (syntax.regexLiterals && text[position] === '/' && regexAllowedAfter(recentCode)) {
+      const end = scanRegexLiteral(text, position);
+      if (end !== -1) {
+        pushSegment('string', end);
+        continue;
+      }
+    }
+
+    code += text[position];
+    recentCode = (recentCode + text[position]).slice(-20);
+    position++;
+  }
+
+  flushCode();
+  return segments;
+}
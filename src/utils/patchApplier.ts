@@ -0,0 +1,292 @@
+/**
+ * UNIFIED DIFF UTILITIES
+ * ======================
+ *
+ * This module reads patches in the "unified diff" format (the format
+ * printed by `git diff`) and applies them to text.
+ *
+ * Patches written by language models are often slightly wrong: the line
+ * numbers in the `@@` headers are off, trailing spaces are missing, or the
+ * counts do not add up. The applier therefore uses the context lines to
+ * find where each hunk belongs instead of trusting the numbers, and only
+ * gives up when the context cannot be found at all.
+ *
+ * Everything here works on plain strings, so it can be tested without
+ * VS Code.
+ */
+
+/**
+ * PATCH HUNK
+ * ==========
+ *
+ * One `@@ -a,b +c,d @@` block of a patch.
+ */
+export interface PatchHunk {
+  /** Line number (1-based) the hunk starts at in the old file, 0 if unknown */
+  oldStart: number;
+
+  /** Hunk body lines, each starting with ' ', '-' or '+' */
+  lines: string[];
+
+  /** True when the new side of the hunk ends without a trailing newline */
+  noNewlineAtEnd: boolean;
+}
+
+/**
+ * FILE PATCH
+ * ==========
+ *
+ * All hunks for one file. A missing path means /dev/null, so a patch
+ * without `oldPath` creates a file and one without `newPath` deletes it.
+ */
+export interface FilePatch {
+  oldPath?: string;
+  newPath?: string;
+  hunks: PatchHunk[];
+}
+
+/**
+ * PATCH ERROR
+ * ===========
+ *
+ * Thrown when a patch cannot be read or does not fit the file.
+ */
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+/** Matches `@@ -12,5 +12,6 @@` (the counts are optional) */
+const HUNK_HEADER = /^@@+ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * PATCH PATH CLEANER
+ * ==================
+ *
+ * Turns the path from a `---` or `+++` line into a workspace path.
+ *
+ * @param rawPath - Text after `--- ` or `+++ `
+ * @returns The path without `a/` or `b/` prefixes, or undefined for /dev/null
+ */
+function cleanPatchPath(rawPath: string): string | undefined {
+  // Drop the timestamp that some diff tools add after a tab
+  const path = rawPath.split('\t')[0].trim();
+  if (!path || path === '/dev/null') {
+    return undefined;
+  }
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * UNIFIED DIFF PARSER
+ * ===================
+ *
+ * Splits a unified diff into per-file patches. A patch with hunks but no
+ * `---`/`+++` header is returned as one FilePatch without paths, so the
+ * caller can supply the path.
+ *
+ * @param patchText - The diff text
+ * @returns One entry per file in the diff
+ * @throws PatchError if the text contains no hunks
+ */
+export function parseUnifiedDiff(patchText: string): FilePatch[] {
+  const lines = (patchText || '').replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let currentFile: FilePatch | undefined;
+  let currentHunk: PatchHunk | undefined;
+
+  const finishHunk = () => {
+    if (currentHunk) {
+      // Blank lines after the last change are usually just the end of the message
+      while (currentHunk.lines.length > 0 && currentHunk.lines[currentHunk.lines.length - 1] === ' ') {
+        currentHunk.lines.pop();
+      }
+      currentHunk = undefined;
+    }
+  };
+
+  const startFile = () => {
+    finishHunk();
+    currentFile = { hunks: [] };
+    files.push(currentFile);
+    return currentFile;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      startFile();
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // A new header starts a new file unless `diff --git` already did
+      const file = currentFile && currentFile.hunks.length === 0 && !currentFile.oldPath && !currentFile.newPath
+        ? currentFile
+        : startFile();
+      finishHunk();
+      file.oldPath = cleanPatchPath(line.slice(4));
+      file.newPath = cleanPatchPath(lines[i + 1].slice(4));
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      finishHunk();
+      const file = currentFile ?? startFile();
+      const header = HUNK_HEADER.exec(line);
+      currentHunk = {
+        oldStart: header ? parseInt(header[1], 10) : 0,
+        lines: [],
+        noNewlineAtEnd: false
+      };
+      file.hunks.push(currentHunk);
+      continue;
+    }
+
+    if (!currentHunk) {
+      // `index ...`, `new file mode ...` and any prose around the diff
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" applies to the line before it
+      const previous = currentHunk.lines[currentHunk.lines.length - 1];
+      if (previous && previous[0] !== '-') {
+        currentHunk.noNewlineAtEnd = true;
+      }
+    } else if (line === '') {
+      // Editors and models often strip the single space of a blank context line
+      currentHunk.lines.push(' ');
+    } else if (line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+      currentHunk.lines.push(line);
+    } else {
+      // Anything else ends the hunk (for example an explanation after the diff)
+      finishHunk();
+    }
+  }
+  finishHunk();
+
+  const withHunks = files.filter((file) => file.hunks.length > 0 || (file.oldPath && !file.newPath));
+  if (withHunks.length === 0) {
+    throw new PatchError('The patch does not contain any @@ hunks.');
+  }
+  return withHunks;
+}
+
+/**
+ * BLOCK MATCHER
+ * =============
+ *
+ * @param lines - File lines
+ * @param block - Lines the hunk expects to find
+ * @param at - Position to compare at
+ * @param loose - Ignore trailing whitespace
+ * @returns true if `block` appears in `lines` at `at`
+ */
+function blockMatches(lines: string[], block: string[], at: number, loose: boolean): boolean {
+  for (let i = 0; i < block.length; i++) {
+    const actual = lines[at + i];
+    if (actual === undefined) {
+      return false;
+    }
+    if (loose ? actual.trimEnd() !== block[i].trimEnd() : actual !== block[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * HUNK LOCATOR
+ * ============
+ *
+ * Finds where a hunk's old lines appear, preferring the position closest
+ * to where the header says they should be. An exact match anywhere wins
+ * over a match that ignores trailing whitespace.
+ *
+ * @param lines - File lines
+ * @param block - Old lines of the hunk (context and removals)
+ * @param expected - Index suggested by the hunk header
+ * @param searchFrom - Hunks must not overlap earlier ones
+ * @returns Index where the block starts, or -1 if not found
+ */
+function locateBlock(lines: string[], block: string[], expected: number, searchFrom: number): number {
+  const lastStart = lines.length - block.length;
+
+  for (const loose of [false, true]) {
+    let best = -1;
+    for (let at = searchFrom; at <= lastStart; at++) {
+      if (blockMatches(lines, block, at, loose)
+        && (best === -1 || Math.abs(at - expected) < Math.abs(best - expected))) {
+        best = at;
+      }
+    }
+    if (best !== -1) {
+      return best;
+    }
+  }
+  return -1;
+}
+
+/**
+ * PATCH APPLIER
+ * =============
+ *
+ * Applies the hunks of one file patch to that file's text.
+ * Line endings (\n or \r\n) and the trailing newline are preserved
+ * unless the patch says otherwise.
+ *
+ * @param original - Current file text ('' for a new file)
+ * @param hunks - Hunks from parseUnifiedDiff()
+ * @returns The patched text
+ * @throws PatchError if a hunk's context cannot be found
+ */
+export function applyPatchHunks(original: string, hunks: PatchHunk[]): string {
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const normalized = original.replace(/\r\n/g, '\n');
+  let endsWithNewline = normalized === '' || normalized.endsWith('\n');
+
+  const lines = normalized === '' ? [] : normalized.split('\n');
+  if (normalized.endsWith('\n')) {
+    lines.pop();
+  }
+
+  let offset = 0;
+  let searchFrom = 0;
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const oldBlock = hunk.lines.filter((line) => line[0] !== '+').map((line) => line.slice(1));
+    const newBlock = hunk.lines.filter((line) => line[0] !== '-').map((line) => line.slice(1));
+    // With no old lines, oldStart is the line the new lines go after (`@@ -5,0 +6 @@`)
+    const expected = Math.max(0, hunk.oldStart - (oldBlock.length === 0 ? 0 : 1) + offset);
+
+    let position: number;
+    if (oldBlock.length === 0) {
+      // Pure insertion: trust the header
+      position = Math.min(Math.max(expected, searchFrom), lines.length);
+    } else {
+      position = locateBlock(lines, oldBlock, expected, searchFrom);
+      if (position === -1) {
+        const where = hunk.oldStart > 0 ? ` (expected near line ${hunk.oldStart})` : '';
+        throw new PatchError(`Hunk ${hunkIndex + 1} does not match the file${where}.`);
+      }
+    }
+
+    lines.splice(position, oldBlock.length, ...newBlock);
+    if (position + newBlock.length >= lines.length) {
+      // This hunk reaches the end of the file, so it decides the trailing newline
+      endsWithNewline = !hunk.noNewlineAtEnd;
+    }
+    offset += newBlock.length - oldBlock.length;
+    searchFrom = position + newBlock.length;
+  });
+
+  if (lines.length === 0) {
+    return '';
+  }
+  return lines.join(eol) + (endsWithNewline ? eol : '');
+}
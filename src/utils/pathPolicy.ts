@@ -0,0 +1,235 @@
+/**
+ * PATH POLICY
+ * ===========
+ *
+ * Decides which paths the model's file actions may touch. A path from the
+ * model goes through three checks:
+ * - normalization: backslashes become slashes, `.` and `..` are resolved,
+ *   and absolute paths, paths leaving the workspace folder, control
+ *   characters and names Windows cannot store are refused
+ * - deny rules: protected paths (`.git`, `.env`, `node_modules`, ...)
+ *   plus the user's own deny globs; a `!pattern` rule unprotects a path
+ *   again, like in `.gitignore`
+ * - allow rules: when there are any, the path must match one of them
+ *
+ * Writes are also capped in size. Every check returns the reason a path or
+ * write is refused, so the user sees why an action did not run.
+ *
+ * Symbolic links are followed by the file action policy service, which
+ * checks the real path with the same rules.
+ */
+
+import { IgnoreMatcher } from './ignoreMatcher';
+
+/** Paths file actions never touch unless a `!pattern` deny rule unprotects them */
+export const PROTECTED_PATHS: readonly string[] = [
+  '.git',
+  '.hg',
+  '.svn',
+  'node_modules',
+  '.env',
+  '.env.*',
+  '!.env.example',
+  '.vscode/settings.json'
+];
+
+/** File names Windows reserves for devices, with or without an extension */
+const RESERVED_NAME_PATTERN = /^(?:con|prn|aux|nul|com[1-9]|lpt[1-9])(?:\..*)?$/i;
+
+/**
+ * PATH POLICY OPTIONS
+ * ===================
+ */
+export interface PathPolicyOptions {
+  /** Globs a path must match (empty = every path that is not denied) */
+  allow?: readonly string[];
+
+  /** Extra deny globs, applied after PROTECTED_PATHS */
+  deny?: readonly string[];
+
+  /** Most bytes one write may produce (0 = no limit) */
+  maxWriteBytes?: number;
+
+  /** Compare paths ignoring case, as Windows and macOS file systems do */
+  caseInsensitive?: boolean;
+}
+
+/**
+ * PATH CHECK RESULT
+ * =================
+ */
+export interface PathCheck {
+  /** The normalized path, relative to the workspace folder (when allowed) */
+  path?: string;
+
+  /** Why the path is refused (when refused) */
+  reason?: string;
+}
+
+/**
+ * ACTION PATH NORMALIZER
+ * ======================
+ *
+ * @param rawPath - Path as written by the model
+ * @returns The path relative to the workspace folder, with `/` separators
+ *   and no `.` or `..` segments, or the reason it cannot be used
+ */
+export function normalizeActionPath(rawPath: string): PathCheck {
+  if (!rawPath.trim()) {
+    return { reason: 'the path is empty' };
+  }
+  if (/[\u0000-\u001f\u007f]/.test(rawPath)) {
+    return { reason: 'the path contains control characters' };
+  }
+
+  const slashed = rawPath.replace(/\\/g, '/');
+  if (slashed.startsWith('/') || /^[A-Za-z]:/.test(slashed)) {
+    return { reason: 'absolute paths are not allowed; use a path relative to the workspace folder' };
+  }
+  if (slashed.endsWith('/')) {
+    return { reason: 'the path names a folder, not a file' };
+  }
+
+  const segments: string[] = [];
+  for (const segment of slashed.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      if (segments.length === 0) {
+        return { reason: 'the path leaves the workspace folder' };
+      }
+      segments.pop();
+      continue;
+    }
+    if (segments.length === 0 && segment === '~') {
+      return { reason: 'paths in the home folder are not allowed; use a path relative to the workspace folder' };
+    }
+    if (segment.includes(':')) {
+      return { reason: `"${segment}" contains a colon, which is not allowed in file names` };
+    }
+    if (/[. ]$/.test(segment)) {
+      return { reason: `"${segment}" ends with a dot or a space, which Windows drops from file names` };
+    }
+    if (RESERVED_NAME_PATTERN.test(segment)) {
+      return { reason: `"${segment}" is a reserved device name on Windows` };
+    }
+    segments.push(segment);
+  }
+
+  if (segments.length === 0) {
+    return { reason: 'the path is the workspace folder itself, not a file' };
+  }
+  return { path: segments.join('/') };
+}
+
+/**
+ * PATH POLICY CLASS
+ * =================
+ */
+export class PathPolicy {
+
+  /** PROTECTED_PATHS followed by the user's deny globs */
+  private readonly denyRules = new IgnoreMatcher();
+
+  /** The user's allow globs (undefined when every path is allowed) */
+  private readonly allowRules?: IgnoreMatcher;
+
+  private readonly maxWriteBytes: number;
+  private readonly caseInsensitive: boolean;
+
+  constructor(options: PathPolicyOptions = {}) {
+    this.caseInsensitive = options.caseInsensitive ?? false;
+    this.maxWriteBytes = Math.max(0, options.maxWriteBytes ?? 0);
+
+    this.denyRules.add([...PROTECTED_PATHS, ...(options.deny ?? [])].map((rule) => this.fold(rule)));
+    const allow = (options.allow ?? []).filter((rule) => rule.trim() !== '');
+    if (allow.length > 0) {
+      this.allowRules = new IgnoreMatcher();
+      this.allowRules.add(allow.map((rule) => this.fold(rule)));
+    }
+  }
+
+  /**
+   * PATH CHECKER
+   * ============
+   *
+   * @param rawPath - Path as written by the model
+   * @returns The normalized path, or the reason it is refused
+   */
+  public checkPath(rawPath: string): PathCheck {
+    const normalized = normalizeActionPath(rawPath);
+    if (normalized.path === undefined) {
+      return normalized;
+    }
+    const reason = this.checkRules(normalized.path);
+    return reason ? { reason } : normalized;
+  }
+
+  /**
+   * RULE CHECKER
+   * ============
+   *
+   * Applies the deny and allow rules to a path that is already
+   * normalized, such as the real path behind a symbolic link.
+   *
+   * @param relativePath - Normalized path relative to the workspace folder
+   * @returns Why the path is refused, or undefined if it is allowed
+   */
+  public checkRules(relativePath: string): string | undefined {
+    const path = this.fold(relativePath);
+    const denyRule = this.denyRules.matchingRule(path);
+    if (denyRule !== undefined) {
+      return PROTECTED_PATHS.includes(denyRule)
+        ? `${relativePath} is protected (rule "${denyRule}")`
+        : `${relativePath} matches the deny rule "${denyRule}"`;
+    }
+    if (this.allowRules && this.allowRules.matchingRule(path) === undefined) {
+      return `${relativePath} does not match any allow rule`;
+    }
+    return undefined;
+  }
+
+  /**
+   * WRITE SIZE CHECKER
+   * ==================
+   *
+   * @param content - Full content a write would produce
+   * @returns Why the write is refused, or undefined if it is small enough
+   */
+  public checkWrite(content: string): string | undefined {
+    const bytes = Buffer.byteLength(content, 'utf8');
+    if (this.maxWriteBytes > 0 && bytes > this.maxWriteBytes) {
+      return `the new content is ${formatBytes(bytes)}, more than the ${formatBytes(this.maxWriteBytes)} allowed per write`;
+    }
+    return undefined;
+  }
+
+  /**
+   * CASE FOLDER
+   * ===========
+   *
+   * @param text - Path or glob
+   * @returns The text in lower case when paths ignore case
+   */
+  private fold(text: string): string {
+    return this.caseInsensitive ? text.toLowerCase() : text;
+  }
+}
+
+/**
+ * BYTE COUNT FORMATTER
+ * ====================
+ *
+ * @param bytes - Number of bytes
+ * @returns The size in B, KB or MB
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
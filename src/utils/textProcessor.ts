@@ -4,7 +4,9 @@
  * 
  * This module contains all the helper functions for processing text:
  * - Adding comments to code based on programming language
- * - Removing unwanted comments from generated code
+ * - Removing unwanted comments from generated code (language-aware)
+ * - Turning the model's explanations into comments instead
+ * - Wrapping text as a comment in the document's language
  * - Handling code fence blocks (```code```)
  * - Inserting text at cursor positions in VS Code editor
  * 
@@ -13,6 +15,44 @@
  */
 
 import * as vscode from 'vscode';
+import { getLanguageSyntax, tokenizeSource, type LanguageSyntax } from './languageSyntax';
+
+/**
+ * COMMENT HANDLING MODES
+ * ======================
+ * 
+ * What happens to comments and explanations in generated code
+ * (the `jarnox.commentHandling` setting):
+ * - strip: remove comments
+ * - keep: leave the code exactly as generated
+ * - convert: keep the code's comments and turn the explanation around the
+ *   code into comments as well
+ */
+export type CommentHandling = 'strip' | 'keep' | 'convert';
+
+/**
+ * COMMENT STYLES
+ * ==============
+ * 
+ * - line: one line comment per line (`// ...`), the usual choice
+ * - block: one block comment around all lines (`/* ... *\/`)
+ * - doc: the language's documentation comment (`/** ... *\/`, Rust `///`)
+ * 
+ * When a language lacks the requested style, the closest one it has is used.
+ */
+export type CommentStyle = 'line' | 'block' | 'doc';
+
+/**
+ * COMMENT WRAP OPTIONS
+ * ====================
+ */
+export interface CommentWrapOptions {
+  /** Which kind of comment to produce (default 'line') */
+  style?: CommentStyle;
+  
+  /** Whitespace placed before every line of the comment */
+  indent?: string;
+}
 
 /**
  * COMMENT PREFIX GENERATOR
@@ -21,25 +61,28 @@ import * as vscode from 'vscode';
  * Different programming languages use different symbols for comments:
  * - Python uses # for comments
  * - JavaScript uses // for comments  
- * - HTML uses <!-- for comments
+ * - SQL, Lua and Haskell use -- for comments
+ * - HTML and Markdown use <!-- for comments
+ * - CSS only has block comments: /* ... *\/
  * 
- * This function looks at the file type and returns the right comment symbol.
+ * This function looks the file type up in the language table
+ * (languageSyntax.ts) and returns the right comment symbol.
  * 
  * @param langId - The programming language ID (like 'python', 'javascript')
  * @returns The comment symbol to use (like '# ' or '// ')
  */
 export function getCommentPrefix(langId: string): string {
-  // Python, Bash/Shell scripts, and YAML files use hash symbols
-  if (langId === 'python' || langId === 'shellscript' || langId === 'yaml') {
-    return '# ';
-  }
+  const syntax = getLanguageSyntax(langId);
   
-  // HTML files use special comment syntax
-  if (langId === 'html') {
-    return '<!-- ';
+  // Prefer line comments; languages without them open a block comment
+  if (syntax?.line.length) {
+    return syntax.line[0] + ' ';
+  }
+  if (syntax?.block.length) {
+    return syntax.block[0][0] + ' ';
   }
   
-  // Most other languages (JavaScript, TypeScript, Java, C++, etc.) use double slash
+  // Unknown languages (JavaScript-like by far the most common) use double slash
   return '// ';
 }
 
@@ -48,14 +91,121 @@ export function getCommentPrefix(langId: string): string {
  * ========================
  * 
  * Most programming languages don't need anything to close a comment,
- * but HTML is special - it needs --> to close a comment that starts with <!--
+ * but languages without line comments do - HTML needs --> to close a
+ * comment that starts with <!--, and CSS needs *\/ to close /*
  * 
  * @param langId - The programming language ID
- * @returns The closing part of a comment (usually empty, except for HTML)
+ * @returns The closing part of a comment (usually empty)
  */
 export function getCommentSuffix(langId: string): string {
-  // Only HTML needs a closing part for comments
-  return langId === 'html' ? ' -->' : '';
+  const syntax = getLanguageSyntax(langId);
+  
+  // Only block-comment-only languages need a closing part
+  return syntax && !syntax.line.length && syntax.block.length ? ' ' + syntax.block[0][1] : '';
+}
+
+/**
+ * COMMENT WRAPPER
+ * ===============
+ * 
+ * Turns text (an explanation, a note, a summary) into a comment for the
+ * given language. Every line gets the comment marker, the text's own
+ * relative indentation is kept, and the whole comment is indented to
+ * match the code it sits in. Text that would end a block comment early
+ * (like "*\/" inside a /* comment) is broken up.
+ * 
+ * @param text - Text to turn into a comment (may span several lines)
+ * @param langId - The programming language ID
+ * @param options - Comment style and indentation
+ * @returns The comment, without a trailing newline ('' for blank text)
+ */
+export function wrapAsComment(text: string, langId: string, options: CommentWrapOptions = {}): string {
+  const lines = dedentLines(text);
+  if (lines.length === 0) {
+    return '';
+  }
+  
+  const indent = options.indent ?? '';
+  const syntax = getLanguageSyntax(langId);
+  const block = syntax?.block[0];
+  const hasLineComments = !syntax || syntax.line.length > 0;
+  
+  if (options.style === 'doc' && syntax?.docLine) {
+    return prefixLines(lines, syntax.docLine, indent);
+  }
+  if (options.style === 'doc' && syntax?.docBlock) {
+    return buildBlockComment(lines, syntax.docBlock, indent);
+  }
+  if (block && (options.style === 'block' || !hasLineComments)) {
+    return buildBlockComment(lines, block, indent);
+  }
+  return prefixLines(lines, getCommentPrefix(langId).trimEnd(), indent);
+}
+
+/**
+ * LINE DEDENTER
+ * =============
+ * 
+ * @param text - Text to prepare for commenting
+ * @returns Its lines without trailing whitespace, shared indentation or
+ *   blank lines at the start and end
+ */
+function dedentLines(text: string): string[] {
+  const lines = (text || '').split(/\r?\n/).map((line) => line.replace(/\s+$/, ''));
+  while (lines.length > 0 && lines[0] === '') {
+    lines.shift();
+  }
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  
+  const indents = lines.filter((line) => line).map((line) => line.match(/^\s*/)![0].length);
+  const shared = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(shared));
+}
+
+/**
+ * LINE COMMENT BUILDER
+ * ====================
+ * 
+ * @param lines - Comment text lines
+ * @param marker - Line comment marker, like '//' or '///'
+ * @param indent - Indentation of the comment
+ * @returns One commented line per text line
+ */
+function prefixLines(lines: string[], marker: string, indent: string): string {
+  return lines
+    .map((line) => (line ? `${indent}${marker} ${line}` : `${indent}${marker}`))
+    .join('\n');
+}
+
+/**
+ * BLOCK COMMENT BUILDER
+ * =====================
+ * 
+ * Short text stays on one line; longer text gets the opening and closing
+ * markers on lines of their own. C-style comments get the usual " * "
+ * in front of every line.
+ * 
+ * @param lines - Comment text lines
+ * @param markers - Opening and closing markers, like ['<!--', '-->']
+ * @param indent - Indentation of the comment
+ * @returns The block comment
+ */
+function buildBlockComment(lines: string[], [open, close]: [string, string], indent: string): string {
+  // Break up closing markers so the comment cannot end early
+  const safeLines = lines.map((line) => line.split(close).join(close[0] + ' ' + close.slice(1)));
+  if (safeLines.length === 1) {
+    return `${indent}${open} ${safeLines[0]} ${close}`;
+  }
+  
+  const cStyle = open.startsWith('/*');
+  const continuation = cStyle ? ' * ' : '  ';
+  return [
+    `${indent}${open}`,
+    ...safeLines.map((line) => (line ? indent + continuation + line : indent + continuation.trimEnd())),
+    cStyle ? `${indent} ${close}` : `${indent}${close}`
+  ].join('\n');
 }
 
 /**
@@ -101,20 +251,33 @@ export function unwrapCodeFence(text: string): string {
  * ================
  * 
  * Sometimes AI generates code with explanatory comments that you don't want.
- * This function removes common comment styles but keeps the actual code.
+ * This function removes comments but keeps the actual code.
  * 
- * It removes:
+ * With a language id, only that language's comments are removed and
+ * strings are left alone, so `#include`, CSS `#id` selectors and
+ * `"http://..."` survive. Blank lines that separate blocks of code are
+ * kept (several in a row become one). In languages without known syntax
+ * nothing is removed; only the blank lines are tidied.
+ * 
+ * Without a language id every common comment style is removed and all
+ * blank lines are dropped:
  * - HTML comments (angle-bracket style comments)
  * - Block comments (slash-star style comments)
  * - Line comments (double-slash style comments)
  * - Shell/Python comments (hash style comments, but keeps shebang lines)
  * 
  * @param text - Code that might contain unwanted comments
+ * @param languageId - VS Code language id of the code, like 'python'
  * @returns Clean code with comments removed
  */
-export function stripComments(text: string): string {
+export function stripComments(text: string, languageId?: string): string {
   if (!text) return '';
   
+  if (languageId !== undefined) {
+    const syntax = getLanguageSyntax(languageId);
+    return syntax ? stripLanguageComments(text, syntax) : tidyBlankLines(text.split(/\r?\n/), new Set());
+  }
+  
   let cleanedText = text;
   
   // Remove HTML/XML style comments: <!-- anything -->
@@ -143,6 +306,286 @@ export function stripComments(text: string): string {
   return cleanedText;
 }
 
+/**
+ * LANGUAGE-AWARE COMMENT STRIPPER
+ * ===============================
+ * 
+ * @param text - Code to clean
+ * @param syntax - Comment and string syntax of the code's language
+ * @returns The code without comments
+ */
+function stripLanguageComments(text: string, syntax: LanguageSyntax): string {
+  let output = '';
+  let lineIndex = 0;
+  const commentLines = new Set<number>();
+  
+  for (const segment of tokenizeSource(text, syntax)) {
+    if (segment.kind === 'comment') {
+      // Remember where comments were so lines left empty can be removed
+      commentLines.add(lineIndex);
+      continue;
+    }
+    output += segment.text;
+    lineIndex += segment.text.split('\n').length - 1;
+  }
+  
+  return tidyBlankLines(output.split(/\r?\n/), commentLines);
+}
+
+/**
+ * BLANK LINE TIDIER
+ * =================
+ * 
+ * Removes trailing whitespace, lines that only held a comment, runs of
+ * blank lines and blank lines at the start and end.
+ * 
+ * @param lines - Lines of code
+ * @param commentLines - Indexes of lines that had a comment removed
+ * @returns The tidied code
+ */
+function tidyBlankLines(lines: string[], commentLines: Set<number>): string {
+  const kept: string[] = [];
+  lines.forEach((line, index) => {
+    const trimmedLine = line.replace(/\s+$/, '');
+    if (trimmedLine === '' && (commentLines.has(index) || kept.length === 0 || kept[kept.length - 1] === '')) {
+      return;
+    }
+    kept.push(trimmedLine);
+  });
+  while (kept.length > 0 && kept[kept.length - 1] === '') {
+    kept.pop();
+  }
+  return kept.join('\n');
+}
+
+/**
+ * EXPLANATION CONVERTER
+ * =====================
+ * 
+ * Models often answer with prose around a fenced code block
+ * ("Here is the function: ... This handles empty input."). This keeps
+ * every code block and turns each paragraph of prose into a comment of
+ * the target language, indented like the code next to it. A response
+ * without fences is treated as code.
+ * 
+ * @param response - Raw model response
+ * @param languageId - Language of the document the code goes into
+ * @returns Code with the explanations as comments
+ */
+export function convertExplanationsToComments(response: string, languageId: string): string {
+  if (!response) return '';
+  if (!response.includes('```')) {
+    return response.trim();
+  }
+  
+  // Split the response into alternating prose and code blocks
+  const blocks: Array<{ prose: boolean; lines: string[] }> = [];
+  let inFence = false;
+  let startNewBlock = true;
+  for (const line of response.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inFence = !inFence;
+      startNewBlock = true;
+      continue;
+    }
+    if (startNewBlock) {
+      blocks.push({ prose: !inFence, lines: [] });
+      startNewBlock = false;
+    }
+    blocks[blocks.length - 1].lines.push(line);
+  }
+  
+  const indentOf = (block?: { lines: string[] }) =>
+    block?.lines.find((line) => line.trim())?.match(/^\s*/)?.[0];
+  
+  const output = blocks.map((block, index) => {
+    if (!block.prose) {
+      return block.lines.join('\n');
+    }
+    const codeAfter = blocks.slice(index + 1).find((candidate) => !candidate.prose);
+    const codeBefore = blocks.slice(0, index).reverse().find((candidate) => !candidate.prose);
+    return wrapAsComment(block.lines.join('\n'), languageId, {
+      indent: indentOf(codeAfter) ?? indentOf(codeBefore) ?? ''
+    });
+  });
+  
+  return output
+    .filter((text) => text.trim() !== '')
+    .join('\n')
+    .replace(/^(\s*\n)+/, '')
+    .trimEnd();
+}
+
+/**
+ * GENERATED CODE CLEANER
+ * ======================
+ * 
+ * Turns a model response into the code to insert, following the
+ * comment handling mode.
+ * 
+ * @param response - Raw model response
+ * @param languageId - Language of the document the code goes into
+ * @param handling - What to do with comments and explanations
+ * @returns The code to insert
+ */
+export function cleanGeneratedCode(response: string, languageId: string, handling: CommentHandling = 'strip'): string {
+  switch (handling) {
+    case 'keep':
+      return unwrapCodeFence(response);
+    case 'convert':
+      return convertExplanationsToComments(response, languageId);
+    default:
+      return stripComments(unwrapCodeFence(response), languageId);
+  }
+}
+
+/**
+ * INSERTION CONTEXT
+ * =================
+ * 
+ * What adaptTextForInsertion() needs to know about the place the text
+ * goes to.
+ */
+export interface InsertionContext {
+  /** Text on the line before the insertion point */
+  linePrefix: string;
+  
+  /** Text on the line after the insertion point (or the replaced range) */
+  lineSuffix: string;
+  
+  /** One level of indentation in the editor: '\t' or some spaces */
+  indentUnit: string;
+  
+  /** Width of a tab in columns */
+  tabSize: number;
+  
+  /** Line break used by the document */
+  eol: string;
+}
+
+/**
+ * INDENTATION WIDTH
+ * =================
+ * 
+ * @param whitespace - Leading whitespace of a line
+ * @param tabSize - Width of a tab in columns
+ * @returns The width in columns
+ */
+function indentWidth(whitespace: string, tabSize: number): number {
+  let width = 0;
+  for (const char of whitespace) {
+    width = char === '\t' ? width + tabSize - (width % tabSize) : width + 1;
+  }
+  return width;
+}
+
+/**
+ * BLOCK REINDENTER
+ * ================
+ * 
+ * Re-expresses the indentation of a block in the editor's own style.
+ * The block's shared indentation is removed, its indentation step is
+ * detected (a tab, or the smallest step of two or more spaces) and every
+ * level is rewritten with `indentUnit`. Spaces that do not make up a full
+ * level (like the " * " of a block comment) are kept as spaces.
+ * 
+ * @param text - Generated code
+ * @param indentUnit - One level of indentation in the editor
+ * @param tabSize - Width of a tab in columns
+ * @returns The block's lines, without blank lines at the start and end
+ */
+export function reindentLines(text: string, indentUnit: string, tabSize: number): string[] {
+  const lines = (text || '').split(/\r?\n/).map((line) => line.replace(/\s+$/, ''));
+  while (lines.length > 0 && lines[0] === '') {
+    lines.shift();
+  }
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  
+  const widths = lines.map((line) => indentWidth(line.match(/^\s*/)![0], tabSize));
+  const filled = widths.filter((_width, index) => lines[index] !== '');
+  const shared = filled.length > 0 ? Math.min(...filled) : 0;
+  
+  const usesTabs = lines.some((line) => /^\s*\t/.test(line));
+  const steps = filled.map((width) => width - shared).filter((width) => width >= 2);
+  const step = usesTabs ? tabSize : (steps.length > 0 ? Math.min(...steps) : tabSize);
+  
+  return lines.map((line, index) => {
+    if (!line) {
+      return '';
+    }
+    const relative = widths[index] - shared;
+    return indentUnit.repeat(Math.floor(relative / step)) + ' '.repeat(relative % step) + line.trimStart();
+  });
+}
+
+/**
+ * INSERTION TEXT ADAPTER
+ * ======================
+ * 
+ * Prepares generated code for one cursor or selection:
+ * - the block is re-indented in the editor's style
+ * - every line after the first gets the indentation of the target line
+ *   (the first line continues from the cursor)
+ * - a multi-line block that lands before other text on the line ends with
+ *   a line break, so that text moves to its own, indented line
+ * 
+ * @param text - Generated code
+ * @param context - Where the code goes
+ * @returns The text to insert
+ */
+export function adaptTextForInsertion(text: string, context: InsertionContext): string {
+  const lines = reindentLines(text, context.indentUnit, context.tabSize);
+  if (lines.length === 0) {
+    return '';
+  }
+  
+  const baseIndent = context.linePrefix.match(/^\s*/)![0];
+  const adapted = lines
+    .map((line, index) => (index === 0 || !line ? line : baseIndent + line))
+    .join(context.eol);
+  
+  const needsBreak = lines.length > 1 && context.lineSuffix.trim() !== '';
+  return needsBreak ? adapted + context.eol + baseIndent : adapted;
+}
+
+/**
+ * EDITOR INSERTION CONTEXT
+ * ========================
+ * 
+ * @param editor - Editor the text goes into
+ * @param linePrefix - Text on the line before the insertion point
+ * @param lineSuffix - Text on the line after the insertion point
+ * @returns The context, with the editor's tabs/spaces setting and line breaks
+ */
+export function editorInsertionContext(
+  editor: vscode.TextEditor,
+  linePrefix: string,
+  lineSuffix: string
+): InsertionContext {
+  const tabSize = typeof editor.options.tabSize === 'number' ? editor.options.tabSize : 4;
+  return {
+    linePrefix,
+    lineSuffix,
+    indentUnit: editor.options.insertSpaces === false ? '\t' : ' '.repeat(tabSize),
+    tabSize,
+    eol: editor.document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n'
+  };
+}
+
+/**
+ * INSERT OPTIONS
+ * ==============
+ */
+export interface InsertOptions {
+  /** Where to insert (defaults to all of the editor's selections) */
+  selections?: readonly vscode.Selection[];
+  
+  /** Run the document formatter on the inserted text afterwards */
+  format?: boolean;
+}
+
 /**
  * CURSOR TEXT INSERTER
  * ====================
@@ -151,19 +594,108 @@ export function stripComments(text: string): string {
  * It's smart enough to handle multiple cursors - if you have 3 cursors,
  * it will insert the text at all 3 locations.
  * 
+ * At each cursor the text is re-indented to match the line it lands on,
+ * using the editor's tabs/spaces setting. A non-empty selection is
+ * replaced by the text. Optionally the document formatter is run on the
+ * inserted text.
+ * 
+ * Each cursor can also get its own text: pass one text per selection,
+ * in the order of the selections.
+ * 
  * @param editor - The VS Code text editor where we want to insert text
- * @param text - The text to insert at each cursor position
- */
-export async function insertTextAtCursors(editor: vscode.TextEditor, text: string): Promise<void> {
-  // Make sure the text ends with a newline for clean insertion
-  const textToInsert = text.endsWith('\n') ? text : text + '\n';
-  
-  // Use VS Code's edit API to insert text at all cursor positions
-  await editor.edit((editBuilder) => {
-    // Loop through each cursor/selection in the editor
-    for (const selection of editor.selections) {
-      // Insert the text at the current cursor position
-      editBuilder.insert(selection.active, textToInsert);
+ * @param text - The text to insert at each cursor position, or one text per selection
+ * @param options - Target selections and formatting
+ * @returns The ranges the text now occupies, top to bottom (empty if the
+ *   editor rejected the edit)
+ */
+export async function insertTextAtCursors(
+  editor: vscode.TextEditor,
+  text: string | readonly string[],
+  options: InsertOptions = {}
+): Promise<vscode.Range[]> {
+  const document = editor.document;
+  const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+  
+  // Work out every edit first, in document order
+  const edits = (options.selections ?? editor.selections)
+    .map((selection, index) => ({ selection, text: typeof text === 'string' ? text : text[index] ?? '' }))
+    .sort((a, b) => document.offsetAt(a.selection.start) - document.offsetAt(b.selection.start))
+    .map(({ selection, text: selectionText }) => {
+      // A selection of whole lines ends at the start of the next line
+      const wholeLines = !selection.isEmpty && selection.end.character === 0 && selection.end.line > selection.start.line;
+      const startLine = document.lineAt(selection.start.line).text;
+      const endLine = document.lineAt(selection.end.line).text;
+      const newText = adaptTextForInsertion(selectionText, editorInsertionContext(
+        editor,
+        startLine.slice(0, selection.start.character),
+        wholeLines ? '' : endLine.slice(selection.end.character)
+      ));
+      return {
+        range: new vscode.Range(selection.start, selection.end),
+        newText: wholeLines && newText ? newText + eol : newText,
+        startOffset: document.offsetAt(selection.start),
+        endOffset: document.offsetAt(selection.end)
+      };
+    });
+  
+  // Use VS Code's edit API to change all cursor positions in one undo step
+  const applied = await editor.edit((editBuilder) => {
+    for (const edit of edits) {
+      editBuilder.replace(edit.range, edit.newText);
     }
   });
+  if (!applied) {
+    return [];
+  }
+  
+  // Find where each text ended up, given the edits before it
+  let shift = 0;
+  const insertedRanges = edits.map((edit) => {
+    const start = edit.startOffset + shift;
+    shift += edit.newText.length - (edit.endOffset - edit.startOffset);
+    return new vscode.Range(document.positionAt(start), document.positionAt(start + edit.newText.length));
+  });
+  
+  if (options.format) {
+    await formatRanges(editor, insertedRanges);
+  }
+  return insertedRanges;
+}
+
+/**
+ * RANGE FORMATTER
+ * ===============
+ * 
+ * Runs the document's range formatter (from the language extension) on
+ * each range. Nothing happens when no formatter is installed.
+ * 
+ * @param editor - Editor holding the ranges
+ * @param ranges - Ranges to format, top to bottom
+ */
+export async function formatRanges(editor: vscode.TextEditor, ranges: vscode.Range[]): Promise<void> {
+  const formattingOptions = {
+    tabSize: typeof editor.options.tabSize === 'number' ? editor.options.tabSize : 4,
+    insertSpaces: editor.options.insertSpaces !== false
+  };
+  
+  // Bottom to top, so formatting one range does not move the others
+  for (const range of [...ranges].reverse()) {
+    try {
+      const textEdits = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+        'vscode.executeFormatRangeProvider',
+        editor.document.uri,
+        range,
+        formattingOptions
+      );
+      if (textEdits && textEdits.length > 0) {
+        await editor.edit((editBuilder) => {
+          for (const textEdit of textEdits) {
+            editBuilder.replace(textEdit.range, textEdit.newText);
+          }
+        });
+      }
+    } catch (error) {
+      console.log('Formatting the inserted code failed:', error);
+    }
+  }
 }